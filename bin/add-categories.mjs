@@ -15,6 +15,16 @@ const endpoints = JSON.parse(fs.readFileSync(endpointsFile, 'utf8'));
 
 // Define category mapping based on tool name patterns
 function determineCategory(toolName, pathPattern) {
+  // Teams (including channel messages)
+  if (toolName.includes('team') || toolName.includes('channel')) {
+    return 'teams';
+  }
+
+  // Chats (checked before mail so chat messages are not treated as email)
+  if (toolName.includes('chat')) {
+    return 'chats';
+  }
+
   // Mail & Messages
   if (
     toolName.includes('mail') ||
@@ -38,27 +48,19 @@ function determineCategory(toolName, pathPattern) {
     return 'contacts';
   }
 
-  // Teams
-  if (toolName.includes('team') && !toolName.includes('channel-message')) {
-    return 'teams';
-  }
-
-  // Chats
-  if (toolName.includes('chat')) {
-    return 'chats';
-  }
 
   // Files & Drives (OneDrive/SharePoint files)
   if (
     toolName.includes('onedrive') ||
     toolName.includes('drive') ||
+    toolName.includes('file') ||
     (toolName.includes('folder') && !toolName.includes('mail'))
   ) {
     return 'files';
   }
 
   // SharePoint Sites & Lists
-  if (toolName.includes('sharepoint-site') || toolName.includes('list')) {
+  if (toolName.includes('sharepoint')) {
     return 'sharepoint';
   }
 
@@ -68,7 +70,7 @@ function determineCategory(toolName, pathPattern) {
   }
 
   // Planner
-  if (toolName.includes('planner')) {
+  if (toolName.includes('planner') || toolName.includes('plan-')) {
     return 'planner';
   }
 
@@ -0,0 +1,56 @@
+// Application permission equivalent of each delegated scope in endpoints.json, used in app-only
+// (client credentials) mode. null means Graph offers no application permission for the operation.
+const APPLICATION_PERMISSIONS: Record<string, string | null> = {
+  'Calendars.Read': 'Calendars.Read',
+  'Calendars.Read.Shared': 'Calendars.Read',
+  'Calendars.ReadWrite': 'Calendars.ReadWrite',
+  'Channel.ReadBasic.All': 'Channel.ReadBasic.All',
+  'ChannelMessage.Read.All': 'ChannelMessage.Read.All',
+  'ChannelMessage.Send': null,
+  'Chat.Read': 'Chat.Read.All',
+  'ChatMessage.Read': 'Chat.Read.All',
+  'ChatMessage.Send': null,
+  'Contacts.Read': 'Contacts.Read',
+  'Contacts.ReadWrite': 'Contacts.ReadWrite',
+  'Files.Read': 'Files.Read.All',
+  'Files.Read.All': 'Files.Read.All',
+  'Files.ReadWrite': 'Files.ReadWrite.All',
+  'Mail.Read': 'Mail.Read',
+  'Mail.Read.Shared': 'Mail.Read',
+  'Mail.ReadWrite': 'Mail.ReadWrite',
+  'Mail.Send': 'Mail.Send',
+  'Mail.Send.Shared': 'Mail.Send',
+  'Notes.Create': 'Notes.ReadWrite.All',
+  'Notes.Read': 'Notes.Read.All',
+  'People.Read': 'People.Read.All',
+  'Sites.Read.All': 'Sites.Read.All',
+  'Tasks.Read': 'Tasks.Read.All',
+  'Tasks.ReadWrite': 'Tasks.ReadWrite.All',
+  'Team.ReadBasic.All': 'Team.ReadBasic.All',
+  'TeamMember.Read.All': 'TeamMember.Read.All',
+  'User.Read': 'User.Read.All',
+  'User.Read.All': 'User.Read.All',
+};
+
+interface ScopedEndpoint {
+  scopes?: string[];
+  workScopes?: string[];
+}
+
+/**
+ * Maps the delegated scopes of an endpoint to application permissions.
+ * Returns null when at least one scope has no application equivalent.
+ */
+export function getApplicationPermissions(endpoint: ScopedEndpoint): string[] | null {
+  const permissions = new Set<string>();
+
+  for (const scope of [...(endpoint.scopes || []), ...(endpoint.workScopes || [])]) {
+    const permission = APPLICATION_PERMISSIONS[scope];
+    if (permission === null) {
+      return null;
+    }
+    permissions.add(permission ?? scope);
+  }
+
+  return Array.from(permissions);
+}
@@ -1,10 +1,18 @@
-import type { AccountInfo, Configuration } from '@azure/msal-node';
-import { PublicClientApplication } from '@azure/msal-node';
+import type { AccountInfo, AuthenticationResult, Configuration } from '@azure/msal-node';
+import { ConfidentialClientApplication, PublicClientApplication } from '@azure/msal-node';
 import keytar from 'keytar';
 import logger from './logger.js';
 import fs, { existsSync, readFileSync } from 'fs';
+import { X509Certificate } from 'crypto';
+import { getApplicationPermissions } from './application-permissions.js';
 import { fileURLToPath } from 'url';
 import path from 'path';
+import {
+  EncryptedFileCache,
+  loadTokenCacheOptions,
+  TokenCacheOptions,
+  writePrivateFile,
+} from './token-cache.js';
 
 interface EndpointConfig {
   pathPattern: string;
@@ -12,6 +20,7 @@ interface EndpointConfig {
   toolName: string;
   scopes?: string[];
   workScopes?: string[];
+  category?: string;
 }
 
 const __filename = fileURLToPath(import.meta.url);
@@ -27,9 +36,10 @@ const endpoints = {
 const SERVICE_NAME = 'ms-365-mcp-server';
 const TOKEN_CACHE_ACCOUNT = 'msal-token-cache';
 const SELECTED_ACCOUNT_KEY = 'selected-account';
-const FALLBACK_DIR = path.dirname(fileURLToPath(import.meta.url));
-const FALLBACK_PATH = path.join(FALLBACK_DIR, '..', '.token-cache.json');
-const SELECTED_ACCOUNT_PATH = path.join(FALLBACK_DIR, '..', '.selected-account.json');
+// Plaintext files older versions wrote next to the package; migrated on load
+const LEGACY_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), '..');
+const LEGACY_TOKEN_CACHE_PATH = path.join(LEGACY_DIR, '.token-cache.json');
+const LEGACY_SELECTED_ACCOUNT_PATH = path.join(LEGACY_DIR, '.selected-account.json');
 
 const DEFAULT_CONFIG: Configuration = {
   auth: {
@@ -50,10 +60,127 @@ const SCOPE_HIERARCHY: ScopeHierarchy = {
   'Contacts.ReadWrite': ['Contacts.Read'],
 };
 
-function buildScopesFromEndpoints(includeWorkAccountScopes: boolean = false): string[] {
+// App-only tokens always request the permissions granted to the app registration
+const APP_ONLY_SCOPES = ['https://graph.microsoft.com/.default'];
+
+// Requested with every scopes profile; needed to read the signed-in user
+const BASE_SCOPES = ['User.Read'];
+
+// Endpoint categories each --scopes-profile requests at login; null requests every scope
+const SCOPES_PROFILES: Record<string, string[] | null> = {
+  minimal: [],
+  mail: ['mail'],
+  calendar: ['calendar'],
+  files: ['files', 'excel'],
+  tasks: ['todo', 'planner'],
+  all: null,
+};
+
+const GRAPH_RESOURCE_PREFIX = /^https:\/\/graph\.microsoft\.com\//i;
+// Reported in token responses, but not permissions of the Graph API
+const OIDC_SCOPES = ['openid', 'profile', 'email', 'offline_access'];
+
+interface ApplicationPermissionReport {
+  toolName: string;
+  category?: string;
+  supported: boolean;
+  permissions: string[];
+}
+
+/**
+ * Reports the application permissions each endpoint needs in app-only mode
+ */
+function buildApplicationPermissionsReport(): ApplicationPermissionReport[] {
+  return endpoints.default.map((endpoint) => {
+    const permissions = getApplicationPermissions(endpoint);
+    return {
+      toolName: endpoint.toolName,
+      category: endpoint.category,
+      supported: permissions !== null,
+      permissions: permissions || [],
+    };
+  });
+}
+
+function buildScopesFromEndpoints(
+  includeWorkAccountScopes: boolean = false,
+  appOnly: boolean = false
+): string[] {
+  if (appOnly) {
+    const permissions = new Set<string>();
+    buildApplicationPermissionsReport().forEach((report) =>
+      report.permissions.forEach((permission) => permissions.add(permission))
+    );
+    return Array.from(permissions).sort();
+  }
+
+  return collectScopes(endpoints.default, includeWorkAccountScopes);
+}
+
+/**
+ * Scopes needed by the tools of the given categories
+ */
+function buildScopesForCategories(
+  categories: string[],
+  includeWorkAccountScopes: boolean = false
+): string[] {
+  return collectScopes(
+    endpoints.default.filter((endpoint) => categories.includes(endpoint.category ?? '')),
+    includeWorkAccountScopes
+  );
+}
+
+/**
+ * Scopes requested at login for a --scopes-profile. Tools of other categories ask for consent
+ * to their scopes when they are first used.
+ */
+function buildScopesFromProfile(
+  profile: string,
+  includeWorkAccountScopes: boolean = false
+): string[] {
+  if (!Object.prototype.hasOwnProperty.call(SCOPES_PROFILES, profile)) {
+    throw new Error(
+      `Unknown scopes profile: ${profile} (available: ${Object.keys(SCOPES_PROFILES).join(', ')})`
+    );
+  }
+
+  const categories = SCOPES_PROFILES[profile];
+  const scopes = categories
+    ? buildScopesForCategories(categories, includeWorkAccountScopes)
+    : buildScopesFromEndpoints(includeWorkAccountScopes);
+  return Array.from(new Set([...BASE_SCOPES, ...scopes]));
+}
+
+/**
+ * Whether `scope` is among `granted`, directly or through a broader scope of SCOPE_HIERARCHY.
+ * Granted scopes may carry the Graph resource prefix and differ in case.
+ */
+function isScopeCovered(scope: string, granted: string[]): boolean {
+  const wanted = normalizeScope(scope);
+  return granted
+    .map(normalizeScope)
+    .some(
+      (grantedScope) =>
+        grantedScope === wanted ||
+        Object.entries(SCOPE_HIERARCHY).some(
+          ([higherScope, lowerScopes]) =>
+            normalizeScope(higherScope) === grantedScope &&
+            lowerScopes.some((lowerScope) => normalizeScope(lowerScope) === wanted)
+        )
+    );
+}
+
+function normalizeScope(scope: string): string {
+  return scope.replace(GRAPH_RESOURCE_PREFIX, '').toLowerCase();
+}
+
+function collectScopes(
+  endpointList: EndpointConfig[],
+  includeWorkAccountScopes: boolean
+): string[] {
   const scopesSet = new Set<string>();
 
-  endpoints.default.forEach((endpoint) => {
+  endpointList.forEach((endpoint) => {
     // Skip endpoints that only have workScopes if not in work mode
     if (!includeWorkAccountScopes && !endpoint.scopes && endpoint.workScopes) {
       return;
@@ -80,6 +207,35 @@ function buildScopesFromEndpoints(includeWorkAccountScopes: boolean = false): st
   return Array.from(scopesSet);
 }
 
+interface AppOnlyCredentials {
+  clientSecret?: string;
+  certificatePath?: string;
+  certificateThumbprint?: string;
+}
+
+function loadAppOnlyCredentials(): AppOnlyCredentials {
+  return {
+    clientSecret: process.env.MS365_MCP_CLIENT_SECRET,
+    certificatePath: process.env.MS365_MCP_CLIENT_CERTIFICATE_PATH,
+    certificateThumbprint: process.env.MS365_MCP_CLIENT_CERTIFICATE_THUMBPRINT,
+  };
+}
+
+interface CachedToken {
+  accessToken: string;
+  expiresAt: number | null;
+}
+
+/**
+ * A device code login that grants additional scopes
+ */
+export interface ConsentRequest {
+  message: string;
+  verificationUri: string;
+  userCode: string;
+  expiresIn: number; // seconds
+}
+
 interface LoginTestResult {
   success: boolean;
   message: string;
@@ -98,10 +254,21 @@ class AuthManager {
   private oauthToken: string | null;
   private isOAuthMode: boolean;
   private selectedAccountId: string | null;
+  private appOnlyApp: ConfidentialClientApplication | null;
+  // Tokens of accounts requested per call, keyed by homeAccountId
+  private accountTokens: Map<string, CachedToken>;
+  // Used when the OS keychain is not available
+  private fileCache: EncryptedFileCache;
+  private selectedAccountPath: string;
+  // Scopes each account consented to as reported by its tokens, keyed by homeAccountId
+  private grantedScopes: Map<string, Set<string>>;
+  // Device code logins for additional scopes that have not completed yet
+  private pendingConsents: Map<string, Promise<ConsentRequest>>;
 
   constructor(
     config: Configuration = DEFAULT_CONFIG,
-    scopes: string[] = buildScopesFromEndpoints()
+    scopes: string[] = buildScopesFromEndpoints(),
+    tokenCacheOptions: TokenCacheOptions = loadTokenCacheOptions()
   ) {
     logger.info(`And scopes are ${scopes.join(', ')}`, scopes);
     this.config = config;
@@ -110,6 +277,15 @@ class AuthManager {
     this.accessToken = null;
     this.tokenExpiry = null;
     this.selectedAccountId = null;
+    this.appOnlyApp = null;
+    this.accountTokens = new Map();
+    this.grantedScopes = new Map();
+    this.pendingConsents = new Map();
+    this.fileCache = new EncryptedFileCache(
+      path.join(tokenCacheOptions.cacheDir, 'token-cache.json'),
+      tokenCacheOptions
+    );
+    this.selectedAccountPath = path.join(tokenCacheOptions.cacheDir, 'selected-account.json');
 
     const oauthTokenFromEnv = process.env.MS365_MCP_OAUTH_TOKEN;
     this.oauthToken = oauthTokenFromEnv ?? null;
@@ -118,6 +294,8 @@ class AuthManager {
 
   async loadTokenCache(): Promise<void> {
     try {
+      this.migrateLegacyFiles();
+
       let cacheData: string | undefined;
 
       try {
@@ -131,8 +309,16 @@ class AuthManager {
         );
       }
 
-      if (!cacheData && existsSync(FALLBACK_PATH)) {
-        cacheData = readFileSync(FALLBACK_PATH, 'utf8');
+      if (!cacheData) {
+        try {
+          cacheData = this.fileCache.read();
+        } catch (error) {
+          // Keep the tokens for a later fix of the key instead of overwriting them on next save
+          const backupPath = this.fileCache.backUp();
+          logger.error(
+            `${(error as Error).message}. Moved it to ${backupPath}; sign in again, or restore it once the key is fixed`
+          );
+        }
       }
 
       if (cacheData) {
@@ -161,8 +347,8 @@ class AuthManager {
         );
       }
 
-      if (!selectedAccountData && existsSync(SELECTED_ACCOUNT_PATH)) {
-        selectedAccountData = readFileSync(SELECTED_ACCOUNT_PATH, 'utf8');
+      if (!selectedAccountData && existsSync(this.selectedAccountPath)) {
+        selectedAccountData = readFileSync(this.selectedAccountPath, 'utf8');
       }
 
       if (selectedAccountData) {
@@ -186,13 +372,37 @@ class AuthManager {
           `Keychain save failed, falling back to file storage: ${(keytarError as Error).message}`
         );
 
-        fs.writeFileSync(FALLBACK_PATH, cacheData);
+        this.fileCache.write(cacheData);
       }
     } catch (error) {
       logger.error(`Error saving token cache: ${(error as Error).message}`);
     }
   }
 
+  /**
+   * Moves the plaintext token cache and selected account of older versions into the cache
+   * directory, encrypting the token cache on the way
+   */
+  private migrateLegacyFiles(): void {
+    if (existsSync(LEGACY_TOKEN_CACHE_PATH)) {
+      if (!this.fileCache.exists()) {
+        this.fileCache.write(readFileSync(LEGACY_TOKEN_CACHE_PATH, 'utf8'));
+      }
+      fs.unlinkSync(LEGACY_TOKEN_CACHE_PATH);
+      logger.info('Migrated the plaintext token cache to the encrypted token cache');
+    }
+
+    if (existsSync(LEGACY_SELECTED_ACCOUNT_PATH)) {
+      if (!existsSync(this.selectedAccountPath)) {
+        writePrivateFile(
+          this.selectedAccountPath,
+          readFileSync(LEGACY_SELECTED_ACCOUNT_PATH, 'utf8')
+        );
+      }
+      fs.unlinkSync(LEGACY_SELECTED_ACCOUNT_PATH);
+    }
+  }
+
   private async saveSelectedAccount(): Promise<void> {
     try {
       const selectedAccountData = JSON.stringify({ accountId: this.selectedAccountId });
@@ -204,19 +414,88 @@ class AuthManager {
           `Keychain save failed for selected account, falling back to file storage: ${(keytarError as Error).message}`
         );
 
-        fs.writeFileSync(SELECTED_ACCOUNT_PATH, selectedAccountData);
+        writePrivateFile(this.selectedAccountPath, selectedAccountData);
       }
     } catch (error) {
       logger.error(`Error saving selected account: ${(error as Error).message}`);
     }
   }
 
+  /**
+   * Switches to app-only (client credentials) authentication for unattended deployments.
+   * Uses a certificate when a PEM file is configured, otherwise the client secret.
+   */
+  enableAppOnlyMode(credentials: AppOnlyCredentials = loadAppOnlyCredentials()): void {
+    const tenantId = process.env.MS365_MCP_TENANT_ID;
+    if (!tenantId || ['common', 'organizations', 'consumers'].includes(tenantId)) {
+      throw new Error('App-only mode requires MS365_MCP_TENANT_ID to be set to a specific tenant');
+    }
+
+    const auth: Configuration['auth'] = {
+      clientId: this.config.auth.clientId,
+      authority: `https://login.microsoftonline.com/${tenantId}`,
+    };
+
+    if (credentials.certificatePath) {
+      const pem = readFileSync(credentials.certificatePath, 'utf8');
+      const privateKey = pem.match(
+        /-----BEGIN (?:RSA |ENCRYPTED )?PRIVATE KEY-----[\s\S]+?-----END (?:RSA |ENCRYPTED )?PRIVATE KEY-----/
+      )?.[0];
+      const certificate = pem.match(
+        /-----BEGIN CERTIFICATE-----[\s\S]+?-----END CERTIFICATE-----/
+      )?.[0];
+
+      if (!privateKey) {
+        throw new Error(`No private key found in ${credentials.certificatePath}`);
+      }
+      if (!certificate && !credentials.certificateThumbprint) {
+        throw new Error(
+          'Set MS365_MCP_CLIENT_CERTIFICATE_THUMBPRINT or include the certificate in the PEM file'
+        );
+      }
+
+      auth.clientCertificate = {
+        privateKey,
+        x5c: certificate,
+        thumbprintSha256:
+          credentials.certificateThumbprint ||
+          new X509Certificate(certificate!).fingerprint256.replace(/:/g, ''),
+      };
+      logger.info('App-only mode: authenticating with client certificate');
+    } else if (credentials.clientSecret) {
+      auth.clientSecret = credentials.clientSecret;
+      logger.info('App-only mode: authenticating with client secret');
+    } else {
+      throw new Error(
+        'App-only mode requires MS365_MCP_CLIENT_SECRET or MS365_MCP_CLIENT_CERTIFICATE_PATH'
+      );
+    }
+
+    this.appOnlyApp = new ConfidentialClientApplication({ auth });
+    this.scopes = APP_ONLY_SCOPES;
+    this.accessToken = null;
+    this.tokenExpiry = null;
+  }
+
+  isAppOnlyMode(): boolean {
+    return this.appOnlyApp !== null;
+  }
+
   async setOAuthToken(token: string): Promise<void> {
     this.oauthToken = token;
     this.isOAuthMode = true;
   }
 
-  async getToken(forceRefresh = false): Promise<string | null> {
+  /**
+   * Returns an access token for the selected account, or for `account` (UPN or homeAccountId)
+   * when given. Tokens of explicitly requested accounts are cached separately, so calls for
+   * different accounts never share a token.
+   */
+  async getToken(forceRefresh = false, account?: string): Promise<string | null> {
+    if (account) {
+      return this.getTokenForAccount(account, forceRefresh);
+    }
+
     if (this.isOAuthMode && this.oauthToken) {
       return this.oauthToken;
     }
@@ -225,16 +504,29 @@ class AuthManager {
       return this.accessToken;
     }
 
+    if (this.appOnlyApp) {
+      const response = await this.appOnlyApp.acquireTokenByClientCredential({
+        scopes: this.scopes,
+      });
+      if (!response) {
+        throw new Error('Client credentials token acquisition failed');
+      }
+      this.accessToken = response.accessToken;
+      this.tokenExpiry = response.expiresOn ? new Date(response.expiresOn).getTime() : null;
+      return this.accessToken;
+    }
+
     const currentAccount = await this.getCurrentAccount();
 
     if (currentAccount) {
       const silentRequest = {
         account: currentAccount,
-        scopes: this.scopes,
+        scopes: this.scopesFor(currentAccount),
       };
 
       try {
         const response = await this.msalApp.acquireTokenSilent(silentRequest);
+        this.recordGrantedScopes(response);
         this.accessToken = response.accessToken;
         this.tokenExpiry = response.expiresOn ? new Date(response.expiresOn).getTime() : null;
         return this.accessToken;
@@ -247,6 +539,69 @@ class AuthManager {
     throw new Error('No valid token found');
   }
 
+  private async getTokenForAccount(account: string, forceRefresh: boolean): Promise<string> {
+    if (this.isOAuthMode && this.oauthToken) {
+      throw new Error('Account selection is not available with an OAuth token');
+    }
+    if (this.appOnlyApp) {
+      throw new Error('Account selection is not available in app-only mode');
+    }
+
+    const accountInfo = await this.findAccount(account);
+    if (!accountInfo) {
+      throw new Error(`Account not found: ${account}`);
+    }
+
+    const cached = this.accountTokens.get(accountInfo.homeAccountId);
+    if (cached && cached.expiresAt && cached.expiresAt > Date.now() && !forceRefresh) {
+      return cached.accessToken;
+    }
+
+    try {
+      const response = await this.msalApp.acquireTokenSilent({
+        account: accountInfo,
+        scopes: this.scopesFor(accountInfo),
+      });
+      this.recordGrantedScopes(response);
+      this.accountTokens.set(accountInfo.homeAccountId, {
+        accessToken: response.accessToken,
+        expiresAt: response.expiresOn ? new Date(response.expiresOn).getTime() : null,
+      });
+      return response.accessToken;
+    } catch {
+      logger.error(`Silent token acquisition failed for ${accountInfo.username}`);
+      throw new Error(`Silent token acquisition failed for account ${accountInfo.username}`);
+    }
+  }
+
+  /**
+   * Finds a cached account by homeAccountId or username (UPN, case-insensitive)
+   */
+  async findAccount(account: string): Promise<AccountInfo | null> {
+    const accounts = await this.listAccounts();
+    const upn = account.toLowerCase();
+    return (
+      accounts.find((acc: AccountInfo) => acc.homeAccountId === account) ??
+      accounts.find((acc: AccountInfo) => acc.username?.toLowerCase() === upn) ??
+      null
+    );
+  }
+
+  /**
+   * homeAccountId of `account` (UPN or homeAccountId), or of the selected account. Undefined in
+   * app-only mode and with an OAuth token, which have no cached account.
+   */
+  async getAccountId(account?: string): Promise<string | undefined> {
+    if (this.appOnlyApp || (this.isOAuthMode && this.oauthToken)) {
+      return undefined;
+    }
+    const accountInfo = account ? await this.findAccount(account) : await this.getCurrentAccount();
+    if (account && !accountInfo) {
+      throw new Error(`Account not found: ${account}`);
+    }
+    return accountInfo?.homeAccountId;
+  }
+
   async getCurrentAccount(): Promise<AccountInfo | null> {
     const accounts = await this.msalApp.getTokenCache().getAllAccounts();
 
@@ -291,6 +646,9 @@ class AuthManager {
       const response = await this.msalApp.acquireTokenByDeviceCode(deviceCodeRequest);
       logger.info(`Granted scopes: ${response?.scopes?.join(', ') || 'none'}`);
       logger.info('Device code login successful');
+      if (response) {
+        this.recordGrantedScopes(response);
+      }
       this.accessToken = response?.accessToken || null;
       this.tokenExpiry = response?.expiresOn ? new Date(response.expiresOn).getTime() : null;
 
@@ -309,6 +667,107 @@ class AuthManager {
     }
   }
 
+  /**
+   * The scopes of `required` that the selected account, or `account`, has not consented to.
+   * Scopes requested at login are assumed granted, so only scopes outside the scopes profile
+   * are checked against the account's tokens. OAuth tokens and app-only permissions are not
+   * managed here and are never reported as missing.
+   */
+  async getMissingScopes(required: string[], account?: string): Promise<string[]> {
+    if ((this.isOAuthMode && this.oauthToken) || this.appOnlyApp) {
+      return [];
+    }
+
+    const notRequested = required.filter((scope) => !isScopeCovered(scope, this.scopes));
+    if (notRequested.length === 0) {
+      return [];
+    }
+
+    const accountInfo = account ? await this.findAccount(account) : await this.getCurrentAccount();
+    if (!accountInfo) {
+      // Not signed in; the Graph request itself reports that
+      return [];
+    }
+    if (!this.grantedScopes.has(accountInfo.homeAccountId)) {
+      try {
+        await this.getToken(true, account);
+      } catch {
+        return [];
+      }
+    }
+
+    const granted = Array.from(this.grantedScopes.get(accountInfo.homeAccountId) ?? []);
+    return notRequested.filter((scope) => !isScopeCovered(scope, granted));
+  }
+
+  /**
+   * Starts a device code login for `scopes` on top of the scopes profile and resolves with the
+   * code to show the user. The login completes in the background, after which the account that
+   * signed in has the new scopes. Requests for the same scopes share one device code until the
+   * login ends.
+   */
+  requestConsent(scopes: string[]): Promise<ConsentRequest> {
+    const key = [...scopes].sort().join(' ');
+    const pending = this.pendingConsents.get(key);
+    if (pending) {
+      return pending;
+    }
+
+    const consent = new Promise<ConsentRequest>((resolve, reject) => {
+      logger.info(`Requesting consent for scopes: ${scopes.join(', ')}`);
+      this.msalApp
+        .acquireTokenByDeviceCode({
+          scopes: Array.from(new Set([...this.scopes, ...scopes])),
+          deviceCodeCallback: (response) =>
+            resolve({
+              message: response.message,
+              verificationUri: response.verificationUri,
+              userCode: response.userCode,
+              expiresIn: response.expiresIn,
+            }),
+        })
+        .then(async (response) => {
+          if (!response) {
+            return;
+          }
+          this.recordGrantedScopes(response);
+          // Drop tokens issued before the consent; the next ones carry the new scopes
+          this.accessToken = null;
+          this.tokenExpiry = null;
+          this.accountTokens.delete(response.account?.homeAccountId ?? '');
+          await this.saveTokenCache();
+          logger.info(`Consent granted for scopes: ${scopes.join(', ')}`);
+        })
+        .catch((error) => {
+          logger.error(`Consent request failed: ${(error as Error).message}`);
+          reject(error);
+        })
+        .finally(() => this.pendingConsents.delete(key));
+    });
+    this.pendingConsents.set(key, consent);
+    return consent;
+  }
+
+  /**
+   * Scopes to request for the account: the scopes profile plus everything it consented to since
+   */
+  private scopesFor(account: AccountInfo): string[] {
+    const granted = this.grantedScopes.get(account.homeAccountId) ?? [];
+    return Array.from(new Set([...this.scopes, ...granted]));
+  }
+
+  private recordGrantedScopes(response: AuthenticationResult): void {
+    if (!response.account) {
+      return;
+    }
+    const granted = this.grantedScopes.get(response.account.homeAccountId) ?? new Set<string>();
+    response.scopes
+      .map((scope) => scope.replace(GRAPH_RESOURCE_PREFIX, ''))
+      .filter((scope) => !OIDC_SCOPES.includes(scope.toLowerCase()))
+      .forEach((scope) => granted.add(scope));
+    this.grantedScopes.set(response.account.homeAccountId, granted);
+  }
+
   async testLogin(): Promise<LoginTestResult> {
     try {
       logger.info('Testing login...');
@@ -322,6 +781,15 @@ class AuthManager {
         };
       }
 
+      // App-only tokens have no signed-in user, so /me is not available
+      if (this.appOnlyApp) {
+        logger.info('App-only token acquired successfully');
+        return {
+          success: true,
+          message: 'App-only token acquired successfully',
+        };
+      }
+
       logger.info('Token retrieved successfully, testing Graph API access...');
 
       try {
@@ -375,6 +843,8 @@ class AuthManager {
       this.accessToken = null;
       this.tokenExpiry = null;
       this.selectedAccountId = null;
+      this.accountTokens.clear();
+      this.grantedScopes.clear();
 
       try {
         await keytar.deletePassword(SERVICE_NAME, TOKEN_CACHE_ACCOUNT);
@@ -383,13 +853,8 @@ class AuthManager {
         logger.warn(`Keychain deletion failed: ${(keytarError as Error).message}`);
       }
 
-      if (fs.existsSync(FALLBACK_PATH)) {
-        fs.unlinkSync(FALLBACK_PATH);
-      }
-
-      if (fs.existsSync(SELECTED_ACCOUNT_PATH)) {
-        fs.unlinkSync(SELECTED_ACCOUNT_PATH);
-      }
+      this.fileCache.delete();
+      fs.rmSync(this.selectedAccountPath, { force: true });
 
       return true;
     } catch (error) {
@@ -434,6 +899,8 @@ class AuthManager {
 
     try {
       await this.msalApp.getTokenCache().removeAccount(account);
+      this.accountTokens.delete(accountId);
+      this.grantedScopes.delete(accountId);
 
       // If this was the selected account, clear the selection
       if (this.selectedAccountId === accountId) {
@@ -457,4 +924,10 @@ class AuthManager {
 }
 
 export default AuthManager;
-export { buildScopesFromEndpoints };
+export {
+  buildScopesFromEndpoints,
+  buildScopesFromProfile,
+  buildApplicationPermissionsReport,
+  loadAppOnlyCredentials,
+  SCOPES_PROFILES,
+};
@@ -1,5 +1,6 @@
+import { createHash } from 'crypto';
 import { M365Skill } from './types/skill.js';
-import { SkillStorage } from './skills-storage.js';
+import { SkillStore } from './skill-store.js';
 import logger from './logger.js';
 
 /**
@@ -155,12 +156,12 @@ const BUILTIN_SKILLS: Partial<M365Skill>[] = [
     description: 'Get all overdue Planner tasks across all plans',
     category: 'planner',
     code: `
-      const plans = await m365.planner.listUserPlans();
+      const plans = await m365.planner.listUserPlannerPlans();
       const overdueTasks = [];
       const today = new Date().toISOString();
 
       for (const plan of plans.value) {
-        const tasks = await m365.planner.listPlanTasks({ planId: plan.id });
+        const tasks = await m365.planner.listPlanTasks({ plannerPlanId: plan.id });
 
         for (const task of tasks.value) {
           if (task.dueDateTime && task.dueDateTime < today && task.percentComplete < 100) {
@@ -197,11 +198,11 @@ const BUILTIN_SKILLS: Partial<M365Skill>[] = [
       today.setHours(0, 0, 0, 0);
       const todayISO = today.toISOString().split('T')[0];
 
-      const lists = await m365.todo.listTaskLists();
+      const lists = await m365.todo.listTodoTaskLists();
       const todaysTasks = [];
 
       for (const list of lists.value) {
-        const tasks = await m365.todo.listTasks({ listId: list.id });
+        const tasks = await m365.todo.listTodoTasks({ todoTaskListId: list.id });
 
         for (const task of tasks.value) {
           if (task.dueDateTime?.dateTime) {
@@ -239,48 +240,25 @@ const BUILTIN_SKILLS: Partial<M365Skill>[] = [
     description: 'Combined summary of emails, meetings, and tasks for today',
     category: 'general',
     code: `
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      const todayISO = today.toISOString();
-      const tomorrow = new Date(today);
-      tomorrow.setDate(tomorrow.getDate() + 1);
-      const tomorrowISO = tomorrow.toISOString();
-
-      // Get emails
-      const emails = await m365.mail.list({
-        filter: \`receivedDateTime ge \${todayISO} and receivedDateTime lt \${tomorrowISO}\`,
-        select: 'isRead,importance',
-        top: 100
-      });
-
-      // Get meetings
-      const meetings = await m365.calendar.list({
-        filter: \`start/dateTime ge '\${todayISO}' and start/dateTime lt '\${tomorrowISO}'\`,
-        select: 'start,end'
-      });
-
-      // Calculate meeting duration
-      let meetingMinutes = 0;
-      for (const event of meetings.value) {
-        const start = new Date(event.start.dateTime);
-        const end = new Date(event.end.dateTime);
-        meetingMinutes += (end - start) / (1000 * 60);
-      }
+      // Built from the mail and calendar skills, see skills.run
+      const emails = await skills.run('summarizeTodaysEmails');
+      const meetings = await skills.run('analyzeTodaysMeetings');
 
       const emailStats = {
-        total: emails.value.length,
-        unread: emails.value.filter(e => !e.isRead).length,
-        urgent: emails.value.filter(e => e.importance === 'high').length
+        total: emails.total,
+        unread: emails.unread,
+        urgent: emails.urgent
       };
+      const meetingMinutes = meetings.totalDuration;
 
       return {
-        date: today.toISOString().split('T')[0],
+        date: emails.date,
         emails: emailStats,
         meetings: {
-          count: meetings.value.length,
-          totalMinutes: Math.round(meetingMinutes)
+          count: meetings.totalMeetings,
+          totalMinutes: meetingMinutes
         },
-        summary: \`\${emailStats.total} emails (\${emailStats.unread} unread, \${emailStats.urgent} urgent), \${meetings.value.length} meetings (\${Math.round(meetingMinutes / 60)}h \${Math.round(meetingMinutes % 60)}m)\`
+        summary: \`\${emailStats.total} emails (\${emailStats.unread} unread, \${emailStats.urgent} urgent), \${meetings.totalMeetings} meetings (\${Math.round(meetingMinutes / 60)}h \${Math.round(meetingMinutes % 60)}m)\`
       };
     `,
     tags: ['productivity', 'summary', 'daily', 'report', 'overview'],
@@ -289,26 +267,74 @@ const BUILTIN_SKILLS: Partial<M365Skill>[] = [
   },
 ];
 
+// The fields a built-in definition ships; edits to any of them keep a built-in from updating
+const BUILTIN_FIELDS = [
+  'name',
+  'description',
+  'category',
+  'code',
+  'parameters',
+  'returnType',
+  'tags',
+  'isPublic',
+] as const;
+
+/**
+ * Hash of the shipped fields of a built-in skill, to tell stored copies nobody edited apart
+ * from ones a user changed
+ */
+export function hashBuiltinSkill(skill: Partial<M365Skill>): string {
+  const fields = BUILTIN_FIELDS.map((field) => skill[field] ?? null);
+  return createHash('sha256').update(JSON.stringify(fields)).digest('hex');
+}
+
 /**
  * Load built-in skills into storage
- * Only creates skills that don't already exist
+ * Creates missing skills and updates built-ins stored from an older release, unless a user has
+ * edited them since
  */
-export async function loadBuiltinSkills(storage: SkillStorage): Promise<number> {
+export async function loadBuiltinSkills(storage: SkillStore): Promise<number> {
   let loaded = 0;
 
   for (const skillDef of BUILTIN_SKILLS) {
+    const shippedHash = hashBuiltinSkill(skillDef);
     try {
       // Check if skill already exists
       if (skillDef.name) {
         const existing = await storage.getByName(skillDef.name);
+        if (existing?.isBuiltin) {
+          const storedHash = hashBuiltinSkill(existing);
+          if (storedHash === shippedHash) {
+            if (existing.builtinHash !== shippedHash) {
+              // Stored before hashes were recorded; mark it as the shipped version
+              await storage.save({ ...existing, builtinHash: shippedHash });
+            }
+            continue;
+          }
+          if (existing.builtinHash !== storedHash) {
+            logger.info(`Built-in skill '${skillDef.name}' has local changes, not updating it`);
+            continue;
+          }
+          // Stores created by an older release keep the previous definition as a revision
+          await storage.save({
+            ...existing,
+            ...skillDef,
+            id: existing.id,
+            createdAt: existing.createdAt,
+            usageCount: existing.usageCount,
+            builtinHash: shippedHash,
+          });
+          logger.info(`Updated built-in skill: ${skillDef.name}`);
+          continue;
+        }
         if (existing) {
           logger.debug(`Built-in skill '${skillDef.name}' already exists, skipping`);
           continue;
         }
       }
 
-      // Save the skill
-      await storage.save(skillDef);
+      // Save the skill; save() assigns the ID on the object it is given
+      await storage.save({ ...skillDef, builtinHash: shippedHash });
       loaded++;
       logger.info(`Loaded built-in skill: ${skillDef.name}`);
     } catch (error) {
@@ -21,11 +21,31 @@ program
   .option('--list-accounts', 'List all cached accounts')
   .option('--select-account <accountId>', 'Select a specific account by ID')
   .option('--remove-account <accountId>', 'Remove a specific account by ID')
+  .option(
+    '--token-cache-dir <dir>',
+    'Directory for the encrypted token cache used when the OS keychain is unavailable'
+  )
+  .option(
+    '--scopes-profile <profile>',
+    'Scopes to request at login: minimal, mail, calendar, files, tasks or all (default: all). Other tools ask for consent when first used'
+  )
   .option('--read-only', 'Start server in read-only mode, disabling write operations')
   .option(
     '--http [port]',
     'Use Streamable HTTP transport instead of stdio (optionally specify port, default: 3000)'
   )
+  .option(
+    '--session-timeout <minutes>',
+    'Expire idle HTTP MCP sessions after this many minutes (default: 30)'
+  )
+  .option(
+    '--validate-tokens',
+    'Validate bearer tokens in HTTP mode locally (signature, issuer, audience, tenant, expiry, scopes)'
+  )
+  .option(
+    '--jwks-file <path>',
+    'Read the token signing keys for --validate-tokens from a JWKS file instead of Entra ID'
+  )
   .option(
     '--enable-auth-tools',
     'Enable login/logout tools when using HTTP mode (disabled by default in HTTP mode)'
@@ -34,11 +54,54 @@ program
     '--enabled-tools <pattern>',
     'Filter tools using regex pattern (e.g., "excel|contact" to enable Excel and Contact tools)'
   )
+  .option(
+    '--lazy-tools',
+    'Start with only the meta tools and load Graph tools per category with enable-m365-category'
+  )
+  .option(
+    '--skills-as-tools',
+    'Also expose every saved skill as its own tool (e.g. skill-summarizeTodaysEmails)'
+  )
+  .option(
+    '--disable-scheduler',
+    'Do not run scheduled skills in this server (schedules can still be managed)'
+  )
+  .option('--skill-store <backend>', 'Skill storage backend: file (default) or sqlite')
+  .option(
+    '--skill-store-path <path>',
+    'Skill storage location: a directory for file (default: ./data/skills), a database file for sqlite (default: ./data/skills.db)'
+  )
+  .option(
+    '--migrate-skills [dir]',
+    'Import JSON skills (default: ./data/skills) into the SQLite store and exit'
+  )
+  .option(
+    '--export-skills <file>',
+    'Export public skills to a bundle file (JSON, or zip for .zip) and exit'
+  )
+  .option('--include-private', 'Also export private skills with --export-skills')
+  .option('--import-skills <file>', 'Import a skill bundle (JSON or zip) and exit')
+  .option(
+    '--on-conflict <mode>',
+    'How --import-skills handles name collisions: skip (default), rename or overwrite'
+  )
+  .option(
+    '--test-skill [skill]',
+    'Run the tests of a skill (default: every skill that has tests) against mocked m365 responses and exit'
+  )
   .option(
     '--org-mode',
     'Enable organization/work mode from start (includes Teams, SharePoint, etc.)'
   )
   .option('--work-mode', 'Alias for --org-mode')
+  .option(
+    '--app-only',
+    'Authenticate as the application (client credentials) for unattended deployments (implies --org-mode)'
+  )
+  .option(
+    '--list-app-permissions',
+    'Print the application permissions each tool needs in app-only mode and exit'
+  )
   .option('--force-work-scopes', 'Backwards compatibility alias for --org-mode (deprecated)');
 
 export interface CommandOptions {
@@ -49,13 +112,31 @@ export interface CommandOptions {
   listAccounts?: boolean;
   selectAccount?: string;
   removeAccount?: string;
+  tokenCacheDir?: string;
+  scopesProfile?: string;
   readOnly?: boolean;
   http?: string | boolean;
+  sessionTimeout?: string;
+  validateTokens?: boolean;
+  jwksFile?: string;
   enableAuthTools?: boolean;
   enabledTools?: string;
+  lazyTools?: boolean;
+  skillsAsTools?: boolean;
+  disableScheduler?: boolean;
+  skillStore?: string;
+  skillStorePath?: string;
+  migrateSkills?: string | boolean;
+  exportSkills?: string;
+  includePrivate?: boolean;
+  importSkills?: string;
+  onConflict?: string;
+  testSkill?: string | boolean;
   orgMode?: boolean;
   workMode?: boolean;
   forceWorkScopes?: boolean;
+  appOnly?: boolean;
+  listAppPermissions?: boolean;
 
   [key: string]: unknown;
 }
@@ -68,10 +149,51 @@ export function parseArgs(): CommandOptions {
     options.readOnly = true;
   }
 
+  if (process.env.MS365_MCP_SCOPES_PROFILE) {
+    options.scopesProfile = process.env.MS365_MCP_SCOPES_PROFILE;
+  }
+
   if (process.env.ENABLED_TOOLS) {
     options.enabledTools = process.env.ENABLED_TOOLS;
   }
 
+  if (process.env.MS365_MCP_LAZY_TOOLS === 'true' || process.env.MS365_MCP_LAZY_TOOLS === '1') {
+    options.lazyTools = true;
+  }
+
+  if (
+    process.env.MS365_MCP_SKILLS_AS_TOOLS === 'true' ||
+    process.env.MS365_MCP_SKILLS_AS_TOOLS === '1'
+  ) {
+    options.skillsAsTools = true;
+  }
+
+  if (
+    process.env.MS365_MCP_DISABLE_SCHEDULER === 'true' ||
+    process.env.MS365_MCP_DISABLE_SCHEDULER === '1'
+  ) {
+    options.disableScheduler = true;
+  }
+
+  if (process.env.MS365_MCP_SKILL_STORE) {
+    options.skillStore = process.env.MS365_MCP_SKILL_STORE;
+  }
+
+  if (process.env.MS365_MCP_SKILL_STORE_PATH) {
+    options.skillStorePath = process.env.MS365_MCP_SKILL_STORE_PATH;
+  }
+
+  if (process.env.MS365_MCP_SESSION_TIMEOUT) {
+    options.sessionTimeout = process.env.MS365_MCP_SESSION_TIMEOUT;
+  }
+
+  if (
+    process.env.MS365_MCP_VALIDATE_TOKENS === 'true' ||
+    process.env.MS365_MCP_VALIDATE_TOKENS === '1'
+  ) {
+    options.validateTokens = true;
+  }
+
   if (process.env.MS365_MCP_ORG_MODE === 'true' || process.env.MS365_MCP_ORG_MODE === '1') {
     options.orgMode = true;
   }
@@ -83,7 +205,11 @@ export function parseArgs(): CommandOptions {
     options.forceWorkScopes = true;
   }
 
-  if (options.workMode || options.forceWorkScopes) {
+  if (process.env.MS365_MCP_APP_ONLY === 'true' || process.env.MS365_MCP_APP_ONLY === '1') {
+    options.appOnly = true;
+  }
+
+  if (options.workMode || options.forceWorkScopes || options.appOnly) {
     options.orgMode = true;
   }
 
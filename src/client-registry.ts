@@ -0,0 +1,307 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { createHash, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import {
+  OAuthClientMetadataSchema,
+  type OAuthClientInformationFull,
+} from '@modelcontextprotocol/sdk/shared/auth.js';
+import { isNotFound, writeFileAtomic } from './skills-storage.js';
+import logger from './logger.js';
+
+// Registrations expire this long after they were made; clients register again afterwards
+export const DEFAULT_CLIENT_TTL = 90 * 24 * 60 * 60 * 1000;
+
+// Upper bound on stored registrations, since anyone can call /register. When it is reached the
+// oldest registration that was never used makes room, so a flood of registrations cannot lock
+// out clients that completed a sign-in.
+export const MAX_REGISTERED_CLIENTS = 1000;
+
+const SUPPORTED_GRANT_TYPES = ['authorization_code', 'refresh_token'];
+const SUPPORTED_RESPONSE_TYPES = ['code'];
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+const FORBIDDEN_SCHEMES = ['javascript:', 'data:', 'file:', 'blob:', 'about:', 'vbscript:'];
+
+interface StoredClient extends OAuthClientInformationFull {
+  registration_token_hash: string;
+  expires_at: number; // milliseconds since the epoch
+  last_used_at?: number; // Last time the client redeemed a code or refresh token
+}
+
+export type ClientRegistrationErrorCode = 'invalid_redirect_uri' | 'invalid_client_metadata';
+
+/**
+ * Rejected registration metadata; `code` is the RFC 7591 error code to answer with
+ */
+export class ClientRegistrationError extends Error {
+  constructor(
+    public code: ClientRegistrationErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'ClientRegistrationError';
+  }
+}
+
+function hashToken(token: string): Buffer {
+  return createHash('sha256').update(token).digest();
+}
+
+function isLoopback(url: URL): boolean {
+  return url.protocol === 'http:' && LOOPBACK_HOSTS.includes(url.hostname);
+}
+
+/**
+ * Why a redirect URI cannot be registered, if it cannot. Allowed are https URLs, http on the
+ * loopback interface and private-use schemes of native apps (RFC 8252).
+ */
+function redirectUriProblem(uri: string): string | undefined {
+  let url: URL;
+  try {
+    url = new URL(uri);
+  } catch {
+    return `Invalid redirect URI: ${uri}`;
+  }
+
+  if (url.hash) {
+    return `Redirect URI must not contain a fragment: ${uri}`;
+  }
+  if (url.protocol === 'http:' && !isLoopback(url)) {
+    return `Redirect URI must use https unless it points to localhost: ${uri}`;
+  }
+  if (FORBIDDEN_SCHEMES.includes(url.protocol)) {
+    return `Redirect URI scheme is not allowed: ${uri}`;
+  }
+  return undefined;
+}
+
+/**
+ * Validates RFC 7591 client metadata and fills in the defaults. Only public clients using the
+ * authorization code flow are supported.
+ */
+function validateMetadata(metadata: unknown) {
+  const parsed = OAuthClientMetadataSchema.safeParse(metadata);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    const field = issue.path.join('.');
+    const code = field.startsWith('redirect_uris')
+      ? 'invalid_redirect_uri'
+      : 'invalid_client_metadata';
+    throw new ClientRegistrationError(code, `${field ? `${field}: ` : ''}${issue.message}`);
+  }
+
+  const client = {
+    ...parsed.data,
+    grant_types: parsed.data.grant_types ?? ['authorization_code'],
+    response_types: parsed.data.response_types ?? ['code'],
+    token_endpoint_auth_method: parsed.data.token_endpoint_auth_method ?? 'none',
+  };
+
+  if (client.redirect_uris.length === 0) {
+    throw new ClientRegistrationError(
+      'invalid_redirect_uri',
+      'At least one redirect URI is required'
+    );
+  }
+  for (const uri of client.redirect_uris) {
+    const problem = redirectUriProblem(uri);
+    if (problem) {
+      throw new ClientRegistrationError('invalid_redirect_uri', problem);
+    }
+  }
+
+  const unsupportedGrant = client.grant_types.find((g) => !SUPPORTED_GRANT_TYPES.includes(g));
+  if (unsupportedGrant) {
+    throw new ClientRegistrationError(
+      'invalid_client_metadata',
+      `Unsupported grant type: ${unsupportedGrant}`
+    );
+  }
+  const unsupportedResponse = client.response_types.find(
+    (r) => !SUPPORTED_RESPONSE_TYPES.includes(r)
+  );
+  if (unsupportedResponse) {
+    throw new ClientRegistrationError(
+      'invalid_client_metadata',
+      `Unsupported response type: ${unsupportedResponse}`
+    );
+  }
+  if (
+    client.grant_types.includes('authorization_code') !== client.response_types.includes('code')
+  ) {
+    throw new ClientRegistrationError(
+      'invalid_client_metadata',
+      'The authorization_code grant type and the code response type must be registered together'
+    );
+  }
+  if (client.token_endpoint_auth_method !== 'none') {
+    throw new ClientRegistrationError(
+      'invalid_client_metadata',
+      `Unsupported token endpoint auth method: ${client.token_endpoint_auth_method} (only public clients are supported)`
+    );
+  }
+
+  return client;
+}
+
+function toClientInformation(stored: StoredClient): OAuthClientInformationFull {
+  // The token hash, expiry and usage are bookkeeping of the registry, not client metadata
+  const client: Record<string, unknown> = { ...stored };
+  delete client.registration_token_hash;
+  delete client.expires_at;
+  delete client.last_used_at;
+  return client as OAuthClientInformationFull;
+}
+
+/**
+ * ClientRegistry - OAuth clients registered through dynamic client registration (RFC 7591),
+ * kept in clients.json so they survive restarts. Registrations expire after a TTL and can be
+ * deleted by their owner with the registration access token issued at registration (RFC 7592).
+ */
+export class ClientRegistry {
+  private file: string;
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(
+    private dataDir = './data/clients',
+    private ttlMs = DEFAULT_CLIENT_TTL,
+    private maxClients = MAX_REGISTERED_CLIENTS
+  ) {
+    this.file = path.join(dataDir, 'clients.json');
+  }
+
+  /**
+   * Validate and store a client. The registration access token is only returned here; the
+   * registry keeps its hash.
+   */
+  async register(
+    metadata: unknown
+  ): Promise<{ client: OAuthClientInformationFull; registrationAccessToken: string }> {
+    const validated = validateMetadata(metadata);
+    const registrationAccessToken = randomBytes(32).toString('base64url');
+    const now = Date.now();
+    const stored: StoredClient = {
+      ...validated,
+      client_id: randomUUID(),
+      client_id_issued_at: Math.floor(now / 1000),
+      registration_token_hash: hashToken(registrationAccessToken).toString('hex'),
+      expires_at: now + this.ttlMs,
+    };
+
+    await this.update((clients) => {
+      if (clients.length >= this.maxClients) {
+        // Registrations are stored oldest first
+        const unused = clients.findIndex((c) => c.last_used_at === undefined);
+        if (unused < 0) {
+          throw new Error('Too many registered clients');
+        }
+        logger.warn(`Evicting unused OAuth client ${clients[unused].client_id}`);
+        clients.splice(unused, 1);
+      }
+      clients.push(stored);
+    });
+
+    logger.info(`Registered OAuth client ${stored.client_id} (${stored.client_name ?? 'unnamed'})`);
+    return { client: toClientInformation(stored), registrationAccessToken };
+  }
+
+  /**
+   * A registered client that has not expired
+   */
+  async get(clientId: string): Promise<OAuthClientInformationFull | undefined> {
+    const stored = (await this.readClients()).find((c) => c.client_id === clientId);
+    return stored && stored.expires_at > Date.now() ? toClientInformation(stored) : undefined;
+  }
+
+  /**
+   * Record that a client redeemed a code or refresh token, which protects it from eviction
+   */
+  async markUsed(clientId: string): Promise<void> {
+    await this.update((clients) => {
+      const client = clients.find((c) => c.client_id === clientId);
+      if (!client) {
+        return false;
+      }
+      client.last_used_at = Date.now();
+    });
+  }
+
+  /**
+   * Delete a client; false when it does not exist or the registration access token is wrong
+   */
+  async delete(clientId: string, registrationAccessToken: string): Promise<boolean> {
+    let deleted = false;
+    await this.update((clients) => {
+      const index = clients.findIndex((c) => c.client_id === clientId);
+      if (index < 0) {
+        return false;
+      }
+      const expected = Buffer.from(clients[index].registration_token_hash, 'hex');
+      if (!timingSafeEqual(expected, hashToken(registrationAccessToken))) {
+        return false;
+      }
+      clients.splice(index, 1);
+      deleted = true;
+    });
+
+    if (deleted) {
+      logger.info(`Deleted OAuth client ${clientId}`);
+    }
+    return deleted;
+  }
+
+  /**
+   * Whether `redirectUri` is registered for the client. Loopback URIs match on any port, as
+   * native apps pick a free port at runtime (RFC 8252 section 7.3).
+   */
+  isRedirectUriAllowed(client: OAuthClientInformationFull, redirectUri: string): boolean {
+    if (client.redirect_uris.includes(redirectUri)) {
+      return true;
+    }
+
+    let requested: URL;
+    try {
+      requested = new URL(redirectUri);
+    } catch {
+      return false;
+    }
+    if (!isLoopback(requested)) {
+      return false;
+    }
+    return client.redirect_uris.some((uri) => {
+      const registered = new URL(uri);
+      registered.port = requested.port;
+      return isLoopback(registered) && registered.href === requested.href;
+    });
+  }
+
+  private async readClients(): Promise<StoredClient[]> {
+    try {
+      return JSON.parse(await fs.readFile(this.file, 'utf-8')) as StoredClient[];
+    } catch (error) {
+      if (isNotFound(error)) {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Read-modify-write of clients.json, serialized so concurrent registrations are not lost.
+   * Expired clients are dropped on every write; a change that returns false writes nothing.
+   */
+  private update(change: (clients: StoredClient[]) => boolean | void): Promise<void> {
+    const write = this.writes.then(async () => {
+      await fs.mkdir(this.dataDir, { recursive: true });
+      const now = Date.now();
+      const all = await this.readClients();
+      const clients = all.filter((c) => c.expires_at > now);
+      if (change(clients) === false && clients.length === all.length) {
+        return;
+      }
+      await writeFileAtomic(this.file, JSON.stringify(clients, null, 2));
+    });
+    // A failed change must not block later ones
+    this.writes = write.catch(() => undefined);
+    return write;
+  }
+}
@@ -0,0 +1,453 @@
+import { runInNewContext } from 'vm';
+import {
+  parse,
+  type AnyNode,
+  type AssignmentProperty,
+  type CallExpression,
+  type MemberExpression,
+  type Node,
+  type Pattern,
+  type Property,
+} from 'acorn';
+import { listM365Methods, M365MethodInfo } from './code-execution.js';
+
+export type CodeDiagnosticRule =
+  | 'syntax'
+  | 'dynamic-code'
+  | 'prototype-escape'
+  | 'global-object'
+  | 'undefined-global'
+  | 'unknown-method'
+  | 'unchecked-call'
+  | 'write-operation';
+
+export interface CodeDiagnostic {
+  rule: CodeDiagnosticRule;
+  severity: 'error' | 'warning';
+  message: string;
+  line: number; // 1-based
+  column: number; // 1-based
+}
+
+export interface CodeValidation {
+  valid: boolean;
+  errors: string[]; // Error diagnostics as "Line 3, column 5: ..." text
+  diagnostics: CodeDiagnostic[];
+}
+
+export interface CodeAnalysisOptions {
+  readOnly?: boolean; // Report m365 write operations as errors instead of warnings
+  methods?: M365MethodInfo[]; // Defaults to the methods of the sandbox m365 client
+}
+
+// Globals every sandbox context has: the JavaScript built-ins of a fresh V8 context
+const BUILTIN_GLOBALS = new Set(
+  runInNewContext('Object.getOwnPropertyNames(globalThis)') as string[]
+);
+
+// Globals the sandbox worker adds; params is injected into skill code
+const SANDBOX_GLOBALS = new Set(['m365', 'skills', 'console', 'params', 'arguments']);
+
+const DYNAMIC_CODE_GLOBALS = new Set(['eval', 'Function', 'WebAssembly']);
+
+// Properties that lead from any value to its prototype or the Function constructor
+const ESCAPE_PROPERTIES = new Set([
+  'constructor',
+  '__proto__',
+  '__defineGetter__',
+  '__defineSetter__',
+  '__lookupGetter__',
+  '__lookupSetter__',
+]);
+
+const SKILLS_METHODS = new Set(['run']);
+
+type Visit = (
+  node: AnyNode,
+  parent: AnyNode | null,
+  key: string | null,
+  inFunction: boolean
+) => void;
+
+function childNodes(node: AnyNode): [string, AnyNode][] {
+  const children: [string, AnyNode][] = [];
+  for (const [key, value] of Object.entries(node)) {
+    for (const item of Array.isArray(value) ? value : [value]) {
+      if (item && typeof item === 'object' && typeof (item as Node).type === 'string') {
+        children.push([key, item as AnyNode]);
+      }
+    }
+  }
+  return children;
+}
+
+function walk(
+  node: AnyNode,
+  visit: Visit,
+  parent: AnyNode | null = null,
+  key: string | null = null,
+  inFunction = false
+): void {
+  visit(node, parent, key, inFunction);
+  // `this` only stops pointing at the sandbox global inside non-arrow functions and classes
+  const insideFunction =
+    inFunction ||
+    node.type === 'FunctionDeclaration' ||
+    node.type === 'FunctionExpression' ||
+    node.type === 'ClassBody';
+  for (const [childKey, child] of childNodes(node)) {
+    walk(child, visit, node, childKey, insideFunction);
+  }
+}
+
+function collectPatternNames(pattern: Pattern | null | undefined, names: Set<string>): void {
+  if (!pattern) return;
+  switch (pattern.type) {
+    case 'Identifier':
+      names.add(pattern.name);
+      break;
+    case 'ObjectPattern':
+      for (const property of pattern.properties) {
+        collectPatternNames(property.type === 'RestElement' ? property : property.value, names);
+      }
+      break;
+    case 'ArrayPattern':
+      pattern.elements.forEach((element) => collectPatternNames(element, names));
+      break;
+    case 'RestElement':
+      collectPatternNames(pattern.argument, names);
+      break;
+    case 'AssignmentPattern':
+      collectPatternNames(pattern.left, names);
+      break;
+  }
+}
+
+/**
+ * Names declared anywhere in the code. Scopes are not tracked: a name declared in one function
+ * counts as declared everywhere, which can hide an undefined global but never flags valid code.
+ */
+function declaredNames(program: AnyNode): Set<string> {
+  const names = new Set<string>();
+  walk(program, (node) => {
+    switch (node.type) {
+      case 'VariableDeclarator':
+        collectPatternNames(node.id, names);
+        break;
+      case 'FunctionDeclaration':
+      case 'FunctionExpression':
+      case 'ArrowFunctionExpression':
+        if (node.type !== 'ArrowFunctionExpression' && node.id) names.add(node.id.name);
+        node.params.forEach((param) => collectPatternNames(param, names));
+        break;
+      case 'ClassDeclaration':
+      case 'ClassExpression':
+        if (node.id) names.add(node.id.name);
+        break;
+      case 'CatchClause':
+        collectPatternNames(node.param, names);
+        break;
+    }
+  });
+  return names;
+}
+
+/**
+ * The value of string expressions that can be known without running the code: literals,
+ * template literals without placeholders and + concatenations of those
+ */
+function staticString(node: AnyNode): string | undefined {
+  if (node.type === 'Literal' && typeof node.value === 'string') {
+    return node.value;
+  }
+  if (node.type === 'TemplateLiteral' && node.expressions.length === 0) {
+    return node.quasis[0].value.cooked ?? undefined;
+  }
+  if (node.type === 'BinaryExpression' && node.operator === '+') {
+    const left = staticString(node.left);
+    const right = left === undefined ? undefined : staticString(node.right);
+    return right === undefined ? undefined : left! + right;
+  }
+  return undefined;
+}
+
+function propertyName(node: MemberExpression | Property | AssignmentProperty): string | undefined {
+  const property = node.type === 'MemberExpression' ? node.property : node.key;
+  if (!node.computed && property.type === 'Identifier') {
+    return property.name;
+  }
+  return staticString(property as AnyNode);
+}
+
+/**
+ * Whether node is m365.as(account), which returns the m365 client bound to another account
+ */
+function isAccountSelection(node: AnyNode): boolean {
+  return (
+    node.type === 'CallExpression' &&
+    node.callee.type === 'MemberExpression' &&
+    node.callee.object.type === 'Identifier' &&
+    node.callee.object.name === 'm365' &&
+    propertyName(node.callee) === 'as'
+  );
+}
+
+/**
+ * Segments of a member chain such as m365.mail.list; undefined segments could not be resolved.
+ * m365.as(account).mail.list has the same segments as m365.mail.list.
+ */
+function memberChain(node: AnyNode): { root: AnyNode; segments: (string | undefined)[] } {
+  const segments: (string | undefined)[] = [];
+  let current = node;
+  while (current.type === 'MemberExpression') {
+    segments.unshift(propertyName(current));
+    current = current.object as AnyNode;
+    if (isAccountSelection(current)) {
+      current = ((current as CallExpression).callee as MemberExpression).object as AnyNode;
+    }
+  }
+  return { root: current, segments };
+}
+
+function editDistance(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+}
+
+function closestMethod(path: string, methods: M365MethodInfo[]): string | undefined {
+  let best: { path: string; distance: number } | undefined;
+  for (const method of methods) {
+    const distance = editDistance(path.toLowerCase(), method.path.toLowerCase());
+    if (distance <= 3 && (!best || distance < best.distance)) {
+      best = { path: method.path, distance };
+    }
+  }
+  return best?.path;
+}
+
+function formatDiagnostic(diagnostic: CodeDiagnostic): string {
+  return `Line ${diagnostic.line}, column ${diagnostic.column}: ${diagnostic.message}`;
+}
+
+/**
+ * Check sandbox code before it runs. The code is parsed, not searched for strings, so comments
+ * and string contents do not trigger false alarms and renamed or computed access is still
+ * caught. This is a first line of defense with useful diagnostics; the isolation itself comes
+ * from the sandbox worker.
+ */
+export function analyzeCode(code: string, options: CodeAnalysisOptions = {}): CodeValidation {
+  const diagnostics: CodeDiagnostic[] = [];
+  const report = (
+    node: Node,
+    rule: CodeDiagnosticRule,
+    message: string,
+    severity: CodeDiagnostic['severity'] = 'error'
+  ) => {
+    diagnostics.push({
+      rule,
+      severity,
+      message,
+      line: node.loc!.start.line,
+      column: node.loc!.start.column + 1,
+    });
+  };
+
+  let program: AnyNode;
+  try {
+    program = parse(code, {
+      ecmaVersion: 'latest',
+      sourceType: 'script',
+      allowReturnOutsideFunction: true,
+      allowAwaitOutsideFunction: true,
+      locations: true,
+    });
+  } catch (error) {
+    const { loc } = error as { loc?: { line: number; column: number } };
+    const diagnostic: CodeDiagnostic = {
+      rule: 'syntax',
+      severity: 'error',
+      message: `Syntax error: ${(error as Error).message.replace(/ \(\d+:\d+\)$/, '')}`,
+      line: loc?.line ?? 1,
+      column: (loc?.column ?? 0) + 1,
+    };
+    return { valid: false, errors: [formatDiagnostic(diagnostic)], diagnostics: [diagnostic] };
+  }
+
+  const methods = options.methods ?? listM365Methods();
+  const methodsByPath = new Map(methods.map((method) => [method.path, method]));
+  const namespaces = new Set(
+    methods.flatMap((method) =>
+      method.path
+        .split('.')
+        .slice(0, -1)
+        .map((_, index, segments) => segments.slice(0, index + 1).join('.'))
+    )
+  );
+  const declared = declaredNames(program);
+
+  const checkM365Chain = (node: AnyNode, segments: (string | undefined)[]) => {
+    if (segments.length === 1 && segments[0] === 'as') {
+      return; // m365.as itself; the calls made through it are checked on their own
+    }
+    const known = segments.findIndex((segment) => segment === undefined);
+    const resolved = (known < 0 ? segments : segments.slice(0, known)) as string[];
+
+    // Longest prefix that is a method; anything after it is a property of the function
+    for (let length = resolved.length; length > 0; length--) {
+      const method = methodsByPath.get(resolved.slice(0, length).join('.'));
+      if (method) {
+        if (method.write) {
+          report(
+            node,
+            'write-operation',
+            `m365.${method.path} changes data in Microsoft 365` +
+              (options.readOnly ? ' and is not allowed in read-only mode' : ''),
+            options.readOnly ? 'error' : 'warning'
+          );
+        }
+        return;
+      }
+    }
+
+    const path = resolved.join('.');
+    if (known >= 0) {
+      if (resolved.length === 0 || namespaces.has(path)) {
+        report(
+          node,
+          'unchecked-call',
+          `m365 method chosen at runtime${path ? ` under m365.${path}` : ''} cannot be checked`,
+          'warning'
+        );
+        return;
+      }
+    } else if (namespaces.has(path)) {
+      return;
+    }
+
+    const suggestion = closestMethod(path, methods);
+    report(
+      node,
+      'unknown-method',
+      `Unknown m365 method: m365.${path}` +
+        (suggestion ? ` (did you mean m365.${suggestion}?)` : '')
+    );
+  };
+
+  walk(program, (node, parent, key, inFunction) => {
+    switch (node.type) {
+      case 'Identifier': {
+        // Property names, object keys and labels are not variable references
+        if (
+          (key === 'property' && parent?.type === 'MemberExpression' && !parent.computed) ||
+          (key === 'key' &&
+            (parent?.type === 'Property' ||
+              parent?.type === 'MethodDefinition' ||
+              parent?.type === 'PropertyDefinition') &&
+            !parent.computed) ||
+          key === 'label' ||
+          parent?.type === 'MetaProperty'
+        ) {
+          return;
+        }
+        if (declared.has(node.name)) {
+          return;
+        }
+
+        if (DYNAMIC_CODE_GLOBALS.has(node.name)) {
+          report(node, 'dynamic-code', `Dynamic code generation is not allowed: ${node.name}`);
+        } else if (node.name === 'globalThis') {
+          report(
+            node,
+            'global-object',
+            'Access to the sandbox global object is not allowed: globalThis'
+          );
+        } else if (!BUILTIN_GLOBALS.has(node.name) && !SANDBOX_GLOBALS.has(node.name)) {
+          let usage = '';
+          if (key === 'object' && parent?.type === 'MemberExpression') {
+            const chain = memberChain(parent);
+            usage = ` (${[node.name, ...chain.segments.map((s) => s ?? '[...]')].join('.')})`;
+          }
+          report(node, 'undefined-global', `'${node.name}' is not defined in the sandbox${usage}`);
+        }
+        return;
+      }
+
+      case 'ThisExpression':
+        if (!inFunction) {
+          report(node, 'global-object', "'this' refers to the sandbox global object here");
+        }
+        return;
+
+      case 'ImportExpression':
+        report(node, 'dynamic-code', 'Dynamic code generation is not allowed: import()');
+        return;
+
+      case 'MemberExpression': {
+        const name = propertyName(node);
+        if (name !== undefined && ESCAPE_PROPERTIES.has(name)) {
+          report(node.property, 'prototype-escape', `Access to '${name}' is not allowed`);
+        }
+
+        // Check each m365/skills chain once, at its outermost member expression
+        if (parent?.type === 'MemberExpression' && key === 'object') {
+          return;
+        }
+        const { root, segments } = memberChain(node);
+        if (root.type !== 'Identifier' || declared.has(root.name)) {
+          return;
+        }
+        if (root.name === 'm365') {
+          checkM365Chain(node, segments);
+        } else if (root.name === 'skills' && !SKILLS_METHODS.has(segments[0] ?? '')) {
+          report(node, 'unknown-method', `Unknown skills method: skills.${segments[0] ?? '[...]'}`);
+        }
+        return;
+      }
+
+      case 'ObjectPattern':
+        // Object literal keys are harmless, but destructuring reads them: const { constructor: F } = value
+        for (const property of node.properties) {
+          const name = property.type === 'Property' ? propertyName(property) : undefined;
+          if (name !== undefined && ESCAPE_PROPERTIES.has(name)) {
+            report(property, 'prototype-escape', `Access to '${name}' is not allowed`);
+          }
+        }
+        return;
+
+      case 'Literal':
+      case 'TemplateLiteral':
+      case 'BinaryExpression': {
+        // Names passed around as strings, e.g. Reflect.get(value, 'const' + 'ructor')
+        if (
+          (parent?.type === 'BinaryExpression' && staticString(parent) !== undefined) ||
+          (key === 'property' && parent?.type === 'MemberExpression') ||
+          key === 'key'
+        ) {
+          return;
+        }
+        const value = staticString(node);
+        if (value !== undefined && ESCAPE_PROPERTIES.has(value)) {
+          report(node, 'prototype-escape', `Access to '${value}' is not allowed`);
+        }
+        return;
+      }
+    }
+  });
+
+  diagnostics.sort((a, b) => a.line - b.line || a.column - b.column);
+  const errors = diagnostics.filter((d) => d.severity === 'error').map(formatDiagnostic);
+  return { valid: errors.length === 0, errors, diagnostics };
+}
@@ -1,362 +1,512 @@
-import { Script, createContext } from 'vm';
-import GraphClient from './graph-client.js';
+import { Worker, WorkerOptions } from 'worker_threads';
+import { AsyncResource } from 'async_hooks';
+import { createRequire } from 'module';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { readFileSync } from 'fs';
+import path from 'path';
+import GraphClient, { BatchRequestItem, BatchResponseItem } from './graph-client.js';
 import logger from './logger.js';
+import { api } from './generated/client.js';
+import { buildEndpointRequest, toAppOnlyPath } from './endpoint-request.js';
+import type {
+  SandboxLogLevel,
+  SandboxParentMessage,
+  SandboxWorkerData,
+  SandboxWorkerMessage,
+} from './sandbox-worker.js';
+
+export interface SandboxLogEntry {
+  level: SandboxLogLevel;
+  message: string;
+  timestamp: string;
+}
+
+export interface ExecutionResult {
+  result: unknown;
+  logs: SandboxLogEntry[];
+}
 
 interface ExecutionOptions {
   timeout?: number; // milliseconds
-  maxMemory?: number; // bytes (not enforced by vm, but can monitor)
+  maxMemory?: number; // bytes, enforced through the worker's heap limit
+  onLog?: (entry: SandboxLogEntry) => void; // called for every captured console entry
+  // Backs skills.run(nameOrId, params) in the sandbox; skills.run is undefined without it
+  runSkill?: (nameOrId: unknown, params: unknown) => Promise<ExecutionResult>;
+  // Answers m365 calls instead of the GraphClient, e.g. with the mocked responses of skill tests
+  callM365?: (method: string, args: unknown[]) => Promise<unknown>;
+  // Reject m365 calls that change data, see assertReadOnlyCall
+  readOnly?: boolean;
+  // Address /me endpoints as /users/{userId}, taking userId from the params like the MCP tools
+  appOnly?: boolean;
 }
 
-interface M365Client {
-  mail: {
-    list: (options?: Record<string, unknown>) => Promise<unknown>;
-    get: (messageId: string) => Promise<unknown>;
-    send: (message: Record<string, unknown>) => Promise<unknown>;
-    delete: (messageId: string) => Promise<unknown>;
-  };
-  calendar: {
-    list: (options?: Record<string, unknown>) => Promise<unknown>;
-    get: (eventId: string) => Promise<unknown>;
-    create: (event: Record<string, unknown>) => Promise<unknown>;
-    update: (eventId: string, event: Record<string, unknown>) => Promise<unknown>;
-    delete: (eventId: string) => Promise<unknown>;
-  };
-  teams: {
-    list: () => Promise<unknown>;
-    getChannels: (teamId: string) => Promise<unknown>;
-    getMessages: (teamId: string, channelId: string) => Promise<unknown>;
-  };
-  files: {
-    list: (driveId?: string) => Promise<unknown>;
-    get: (driveId: string, itemId: string) => Promise<unknown>;
-    upload: (driveId: string, itemId: string, content: string) => Promise<unknown>;
-  };
-  sharepoint: {
-    searchSites: (query: string) => Promise<unknown>;
-    getSite: (siteId: string) => Promise<unknown>;
-    getLists: (siteId: string) => Promise<unknown>;
-    getListItems: (siteId: string, listId: string) => Promise<unknown>;
-  };
-  planner: {
-    listTasks: () => Promise<unknown>;
-    getTask: (taskId: string) => Promise<unknown>;
-    createTask: (task: Record<string, unknown>) => Promise<unknown>;
-    updateTask: (taskId: string, task: Record<string, unknown>, etag?: string) => Promise<unknown>;
-  };
-  todo: {
-    listLists: () => Promise<unknown>;
-    listTasks: (listId: string) => Promise<unknown>;
-    createTask: (listId: string, task: Record<string, unknown>) => Promise<unknown>;
-    updateTask: (listId: string, taskId: string, task: Record<string, unknown>) => Promise<unknown>;
-  };
-}
+// Errors thrown by executeM365Code carry the console output captured before the failure
+export type ExecutionError = Error & { logs?: SandboxLogEntry[] };
 
-/**
- * Creates a sandboxed M365 client for code execution
- */
-function createM365Client(graphClient: GraphClient): M365Client {
-  return {
-    mail: {
-      async list(options = {}) {
-        const params = new URLSearchParams();
-        if (options.filter) params.append('$filter', String(options.filter));
-        if (options.select) params.append('$select', String(options.select));
-        if (options.top) params.append('$top', String(options.top));
-        if (options.skip) params.append('$skip', String(options.skip));
-        if (options.orderby) params.append('$orderby', String(options.orderby));
-
-        const path = `/me/messages${params.toString() ? '?' + params.toString() : ''}`;
-        const response = await graphClient.graphRequest(path, { method: 'GET' });
-        return JSON.parse(response.content[0].text);
-      },
+const MAX_LOG_ENTRIES = 200;
+const MAX_LOG_MESSAGE_LENGTH = 2000;
 
-      async get(messageId: string) {
-        const response = await graphClient.graphRequest(`/me/messages/${messageId}`, {
-          method: 'GET',
-        });
-        return JSON.parse(response.content[0].text);
-      },
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
-      async send(message: Record<string, unknown>) {
-        const response = await graphClient.graphRequest('/me/sendMail', {
-          method: 'POST',
-          body: JSON.stringify({ message, saveToSentItems: true }),
-        });
-        return response.content[0].text ? JSON.parse(response.content[0].text) : { success: true };
-      },
+const DEFAULT_MAX_MEMORY = 128 * 1024 * 1024;
 
-      async delete(messageId: string) {
-        await graphClient.graphRequest(`/me/messages/${messageId}`, { method: 'DELETE' });
-        return { success: true };
-      },
-    },
+const WORKER_FILE = import.meta.url.endsWith('.ts') ? 'sandbox-worker.ts' : 'sandbox-worker.js';
 
-    calendar: {
-      async list(options = {}) {
-        const params = new URLSearchParams();
-        if (options.filter) params.append('$filter', String(options.filter));
-        if (options.select) params.append('$select', String(options.select));
-        if (options.top) params.append('$top', String(options.top));
-
-        const path = `/me/events${params.toString() ? '?' + params.toString() : ''}`;
-        const response = await graphClient.graphRequest(path, { method: 'GET' });
-        return JSON.parse(response.content[0].text);
-      },
+interface EndpointConfig {
+  toolName: string;
+  category?: string;
+  returnDownloadUrl?: boolean;
+}
 
-      async get(eventId: string) {
-        const response = await graphClient.graphRequest(`/me/events/${eventId}`, {
-          method: 'GET',
-        });
-        return JSON.parse(response.content[0].text);
-      },
+const endpointsData = JSON.parse(
+  readFileSync(path.join(__dirname, 'endpoints.json'), 'utf8')
+) as EndpointConfig[];
 
-      async create(event: Record<string, unknown>) {
-        const response = await graphClient.graphRequest('/me/events', {
-          method: 'POST',
-          body: JSON.stringify(event),
-        });
-        return JSON.parse(response.content[0].text);
-      },
+type M365Method = (...args: unknown[]) => Promise<unknown>;
 
-      async update(eventId: string, event: Record<string, unknown>) {
-        const response = await graphClient.graphRequest(`/me/events/${eventId}`, {
-          method: 'PATCH',
-          body: JSON.stringify(event),
-        });
-        return JSON.parse(response.content[0].text);
-      },
+type M365Client = Record<string, Record<string, M365Method>> & {
+  batch: (requests: BatchRequestItem[]) => Promise<BatchResponseItem[]>;
+};
 
-      async delete(eventId: string) {
-        await graphClient.graphRequest(`/me/events/${eventId}`, { method: 'DELETE' });
-        return { success: true };
-      },
-    },
+// m365 client methods as seen from sandbox code, see listM365Methods
+export interface M365MethodInfo {
+  path: string; // Dotted method path, e.g. "mail.list"
+  write: boolean; // Whether the method can change data
+}
 
-    teams: {
-      async list() {
-        const response = await graphClient.graphRequest('/me/joinedTeams', { method: 'GET' });
-        return JSON.parse(response.content[0].text);
-      },
+// Hand-written methods that change data; generated methods are judged by their HTTP method
+const LEGACY_WRITE_METHODS = new Set([
+  'mail.send',
+  'mail.delete',
+  'calendar.create',
+  'calendar.update',
+  'calendar.delete',
+  'files.upload',
+  'planner.createTask',
+  'planner.updateTask',
+  'todo.createTask',
+  'todo.updateTask',
+  'batch', // Batches may contain any request
+]);
+
+// "list-mail-folders" -> "listMailFolders"
+function toMethodName(toolName: string): string {
+  return toolName.replace(/-([a-z0-9])/g, (_, char: string) => char.toUpperCase());
+}
 
-      async getChannels(teamId: string) {
-        const response = await graphClient.graphRequest(`/teams/${teamId}/channels`, {
-          method: 'GET',
-        });
-        return JSON.parse(response.content[0].text);
-      },
+function endpointCategory(toolName: string): string {
+  return endpointsData.find((e) => e.toolName === toolName)?.category || 'other';
+}
 
-      async getMessages(teamId: string, channelId: string) {
-        const response = await graphClient.graphRequest(
-          `/teams/${teamId}/channels/${channelId}/messages`,
-          { method: 'GET' }
-        );
-        return JSON.parse(response.content[0].text);
-      },
-    },
+function parseResponse(response: Awaited<ReturnType<GraphClient['graphRequest']>>): unknown {
+  const text = response.content[0]?.text;
+  if (response.isError) {
+    throw new Error(text || 'Graph request failed');
+  }
+  if (!text) {
+    return { success: true };
+  }
 
-    files: {
-      async list(driveId = 'me/drive') {
-        const response = await graphClient.graphRequest(`/${driveId}/root/children`, {
-          method: 'GET',
-        });
-        return JSON.parse(response.content[0].text);
-      },
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
 
-      async get(driveId: string, itemId: string) {
-        const response = await graphClient.graphRequest(
-          `/drives/${driveId}/items/${itemId}/content`,
-          { method: 'GET' }
-        );
-        return response.content[0].text;
-      },
+/**
+ * Creates a sandboxed M365 client for code execution. Every generated endpoint is exposed as
+ * m365.<category>.<camelCasedToolName>(params), taking the same parameters as its MCP tool.
+ */
+function createM365Client(graphClient: GraphClient, appOnly = false): M365Client {
+  const m365 = {} as M365Client;
+
+  const call = async (
+    toolName: string,
+    params: Record<string, unknown> = {},
+    pathValues: unknown[] = []
+  ): Promise<unknown> => {
+    const tool = api.endpoints.find((endpoint) => endpoint.alias === toolName);
+    if (!tool) {
+      throw new Error(`Unknown endpoint: ${toolName}`);
+    }
+
+    // Positional arguments of the legacy methods fill the path parameters in order
+    const pathParams = [...tool.path.matchAll(/:([a-zA-Z0-9]+)/g)].map((match) => match[1]);
+    const allParams = { ...params };
+    pathValues.forEach((value, index) => {
+      allParams[pathParams[index]] = value;
+    });
 
-      async upload(driveId: string, itemId: string, content: string) {
-        const response = await graphClient.graphRequest(
-          `/drives/${driveId}/items/${itemId}/content`,
-          {
-            method: 'PUT',
-            body: content,
-          }
-        );
-        return response.content[0].text ? JSON.parse(response.content[0].text) : { success: true };
-      },
-    },
+    const toolPath = appOnly ? toAppOnlyPath(tool.path) : tool.path;
+    if (toolPath !== tool.path && !allParams.userId) {
+      throw new Error(`${toolName} needs a userId in app-only mode`);
+    }
+
+    const endpointConfig = endpointsData.find((e) => e.toolName === toolName);
+    const { path, options } = buildEndpointRequest(tool, allParams, {
+      path: toolPath,
+      returnDownloadUrl: endpointConfig?.returnDownloadUrl,
+    });
+    return parseResponse(await graphClient.graphRequest(path, options));
+  };
 
+  for (const tool of api.endpoints) {
+    const category = endpointCategory(tool.alias);
+    m365[category] = m365[category] || {};
+    m365[category][toMethodName(tool.alias)] = (params?: unknown) =>
+      call(tool.alias, params as Record<string, unknown>);
+  }
+
+  // Hand-written methods that predate the generated API, kept so existing skills keep working
+  const legacyMethods: Record<string, Record<string, M365Method>> = {
+    mail: {
+      list: (options) => call('list-mail-messages', options as Record<string, unknown>),
+      get: (messageId) => call('get-mail-message', {}, [messageId]),
+      send: (message) => call('send-mail', { body: { message, saveToSentItems: true } }),
+      delete: (messageId) => call('delete-mail-message', {}, [messageId]),
+    },
+    calendar: {
+      list: (options) => call('list-calendar-events', options as Record<string, unknown>),
+      get: (eventId) => call('get-calendar-event', {}, [eventId]),
+      create: (event) => call('create-calendar-event', { body: event }),
+      update: (eventId, event) => call('update-calendar-event', { body: event }, [eventId]),
+      delete: (eventId) => call('delete-calendar-event', {}, [eventId]),
+    },
+    teams: {
+      list: () => call('list-joined-teams'),
+      getChannels: (teamId) => call('list-team-channels', {}, [teamId]),
+      getMessages: (teamId, channelId) => call('list-channel-messages', {}, [teamId, channelId]),
+    },
+    files: {
+      list: async (driveId = 'me/drive') =>
+        parseResponse(
+          await graphClient.graphRequest(`/${driveId}/root/children`, { method: 'GET' })
+        ),
+      get: (driveId, itemId) => call('download-onedrive-file-content', {}, [driveId, itemId]),
+      upload: (driveId, itemId, content) =>
+        call('upload-file-content', { body: content }, [driveId, itemId]),
+    },
     sharepoint: {
-      async searchSites(query: string) {
-        const params = new URLSearchParams({ search: query });
-        const response = await graphClient.graphRequest(`/sites?${params.toString()}`, {
-          method: 'GET',
-        });
-        return JSON.parse(response.content[0].text);
-      },
+      searchSites: (query) => call('search-sharepoint-sites', { search: query }),
+      getSite: (siteId) => call('get-sharepoint-site', {}, [siteId]),
+      getLists: (siteId) => call('list-sharepoint-site-lists', {}, [siteId]),
+      getListItems: (siteId, listId) =>
+        call('list-sharepoint-site-list-items', {}, [siteId, listId]),
+    },
+    planner: {
+      listTasks: () => call('list-planner-tasks'),
+      getTask: (taskId) => call('get-planner-task', { includeHeaders: true }, [taskId]),
+      createTask: (task) => call('create-planner-task', { body: task }),
+      updateTask: (taskId, task, etag) =>
+        call('update-planner-task', etag ? { body: task, 'If-Match': etag } : { body: task }, [
+          taskId,
+        ]),
+    },
+    todo: {
+      listLists: () => call('list-todo-task-lists'),
+      listTasks: (listId) => call('list-todo-tasks', {}, [listId]),
+      createTask: (listId, task) => call('create-todo-task', { body: task }, [listId]),
+      updateTask: (listId, taskId, task) =>
+        call('update-todo-task', { body: task }, [listId, taskId]),
+    },
+  };
 
-      async getSite(siteId: string) {
-        const response = await graphClient.graphRequest(`/sites/${siteId}`, { method: 'GET' });
-        return JSON.parse(response.content[0].text);
-      },
+  for (const [namespace, methods] of Object.entries(legacyMethods)) {
+    m365[namespace] = { ...methods, ...m365[namespace] };
+  }
 
-      async getLists(siteId: string) {
-        const response = await graphClient.graphRequest(`/sites/${siteId}/lists`, {
-          method: 'GET',
-        });
-        return JSON.parse(response.content[0].text);
-      },
+  m365.batch = (requests) => graphClient.batch(requests);
 
-      async getListItems(siteId: string, listId: string) {
-        const response = await graphClient.graphRequest(`/sites/${siteId}/lists/${listId}/items`, {
-          method: 'GET',
-        });
-        return JSON.parse(response.content[0].text);
-      },
-    },
+  return m365;
+}
 
-    planner: {
-      async listTasks() {
-        const response = await graphClient.graphRequest('/me/planner/tasks', { method: 'GET' });
-        return JSON.parse(response.content[0].text);
-      },
+type LoggingNotification = {
+  method: 'notifications/message';
+  params: { level: 'info' | 'warning' | 'error'; logger: string; data: string };
+};
 
-      async getTask(taskId: string) {
-        const response = await graphClient.graphRequest(`/planner/tasks/${taskId}`, {
-          method: 'GET',
-          includeHeaders: true,
-        });
-        return JSON.parse(response.content[0].text);
-      },
+const NOTIFICATION_LEVELS = { log: 'info', info: 'info', warn: 'warning', error: 'error' } as const;
 
-      async createTask(task: Record<string, unknown>) {
-        const response = await graphClient.graphRequest('/planner/tasks', {
-          method: 'POST',
-          body: JSON.stringify(task),
-        });
-        return JSON.parse(response.content[0].text);
+/**
+ * Creates an onLog handler that streams captured console entries to the MCP client as
+ * logging notifications while the code is still running
+ */
+export function createLogStreamer(
+  sendNotification: (notification: LoggingNotification) => Promise<void>
+): (entry: SandboxLogEntry) => void {
+  return (entry) => {
+    sendNotification({
+      method: 'notifications/message',
+      params: {
+        level: NOTIFICATION_LEVELS[entry.level],
+        logger: 'm365-sandbox',
+        data: entry.message,
       },
+    }).catch((error) => {
+      logger.warn(`Failed to stream sandbox log entry: ${(error as Error).message}`);
+    });
+  };
+}
 
-      async updateTask(taskId: string, task: Record<string, unknown>, etag?: string) {
-        const headers: Record<string, string> = {};
-        if (etag) headers['If-Match'] = etag;
+/**
+ * Starts the sandbox worker. When running from TypeScript sources (tsx, vitest) the worker
+ * module is loaded through tsx, since worker threads do not inherit the parent's loader.
+ */
+function createSandboxWorker(options: WorkerOptions): Worker {
+  const workerUrl = new URL(`./${WORKER_FILE}`, import.meta.url);
+  if (WORKER_FILE.endsWith('.js')) {
+    return new Worker(workerUrl, options);
+  }
 
-        const response = await graphClient.graphRequest(`/planner/tasks/${taskId}`, {
-          method: 'PATCH',
-          headers,
-          body: JSON.stringify(task),
-        });
-        return response.content[0].text ? JSON.parse(response.content[0].text) : { success: true };
-      },
-    },
+  const tsxApiUrl = pathToFileURL(createRequire(import.meta.url).resolve('tsx/esm/api')).href;
+  const bootstrap = `import(${JSON.stringify(tsxApiUrl)}).then(({ tsImport }) => tsImport(${JSON.stringify(workerUrl.href)}, ${JSON.stringify(workerUrl.href)}))`;
+  return new Worker(bootstrap, { ...options, eval: true });
+}
 
-    todo: {
-      async listLists() {
-        const response = await graphClient.graphRequest('/me/todo/lists', { method: 'GET' });
-        return JSON.parse(response.content[0].text);
-      },
+/**
+ * Lists the dotted paths of all m365 client methods, e.g. "mail.list"
+ */
+function listClientMethods(target: object, prefix = ''): string[] {
+  return Object.entries(target).flatMap(([key, value]) => {
+    if (typeof value === 'function') {
+      return [`${prefix}${key}`];
+    }
+    return value && typeof value === 'object' ? listClientMethods(value, `${prefix}${key}.`) : [];
+  });
+}
 
-      async listTasks(listId: string) {
-        const response = await graphClient.graphRequest(`/me/todo/lists/${listId}/tasks`, {
-          method: 'GET',
-        });
-        return JSON.parse(response.content[0].text);
-      },
+let methodCatalog: M365MethodInfo[] | undefined;
 
-      async createTask(listId: string, task: Record<string, unknown>) {
-        const response = await graphClient.graphRequest(`/me/todo/lists/${listId}/tasks`, {
-          method: 'POST',
-          body: JSON.stringify(task),
-        });
-        return JSON.parse(response.content[0].text);
-      },
+/**
+ * Every method of the sandbox m365 client, used to check code before it runs
+ */
+export function listM365Methods(): M365MethodInfo[] {
+  if (!methodCatalog) {
+    const httpMethods = new Map(
+      api.endpoints.map((tool) => [
+        `${endpointCategory(tool.alias)}.${toMethodName(tool.alias)}`,
+        tool.method,
+      ])
+    );
+    // Only the shape of the client is read; none of its methods are called
+    const m365 = createM365Client(null as unknown as GraphClient);
+    methodCatalog = listClientMethods(m365).map((path) => {
+      const httpMethod = httpMethods.get(path);
+      return {
+        path,
+        write: httpMethod ? httpMethod.toUpperCase() !== 'GET' : LEGACY_WRITE_METHODS.has(path),
+      };
+    });
+  }
+  return methodCatalog;
+}
 
-      async updateTask(listId: string, taskId: string, task: Record<string, unknown>) {
-        const response = await graphClient.graphRequest(
-          `/me/todo/lists/${listId}/tasks/${taskId}`,
-          {
-            method: 'PATCH',
-            body: JSON.stringify(task),
-          }
-        );
-        return JSON.parse(response.content[0].text);
-      },
-    },
-  };
+/**
+ * Throws for calls that change data: methods the catalog marks as writes and batches with
+ * non-GET requests. Every proxied call passes through here in the parent thread, so read-only
+ * mode holds however the sandbox code reached the method; analyzeCode only reports such calls
+ * early.
+ */
+function assertReadOnlyCall(method: string, args: unknown[]): void {
+  if (method === 'batch') {
+    const requests = Array.isArray(args[0]) ? (args[0] as Partial<BatchRequestItem>[]) : [];
+    const writeRequest = requests.find(
+      (request) => String(request?.method ?? 'GET').toUpperCase() !== 'GET'
+    );
+    if (writeRequest) {
+      throw new Error(
+        `Write operation ${writeRequest.method} ${writeRequest.url} is not allowed in read-only mode`
+      );
+    }
+    return;
+  }
+
+  const info = listM365Methods().find((m) => m.path === method);
+  if (!info || info.write) {
+    throw new Error(`m365.${method} changes data and is not allowed in read-only mode`);
+  }
+}
+
+function resolveClientMethod(m365: M365Client, method: string): (...args: unknown[]) => unknown {
+  const segments = method.split('.');
+  const owner = segments
+    .slice(0, -1)
+    .reduce<
+      Record<string, unknown> | undefined
+    >((target, segment) => target?.[segment] as Record<string, unknown> | undefined, m365 as unknown as Record<string, unknown>);
+  const fn = owner?.[segments[segments.length - 1]];
+
+  if (typeof fn !== 'function') {
+    throw new Error(`Unknown m365 method: ${method}`);
+  }
+  return fn.bind(owner) as (...args: unknown[]) => unknown;
 }
 
 /**
- * Executes user-provided JavaScript code in a sandboxed environment with M365 client access
+ * Executes user-provided JavaScript code in a sandboxed worker thread with M365 client access.
+ * The worker has its own heap limit and is terminated on timeout; m365 calls are proxied back
+ * to this thread so they run with the caller's GraphClient and tokens.
  */
 export async function executeM365Code(
   code: string,
   graphClient: GraphClient,
   options: ExecutionOptions = {}
-): Promise<unknown> {
+): Promise<ExecutionResult> {
   const timeout = options.timeout || 30000; // 30 seconds default
+  const maxMemoryMb = Math.max(
+    Math.ceil((options.maxMemory || DEFAULT_MAX_MEMORY) / 1024 / 1024),
+    1
+  );
   const startTime = Date.now();
 
-  logger.info(`Executing code in sandbox with ${timeout}ms timeout`);
+  logger.info(
+    `Executing code in sandbox worker with ${timeout}ms timeout and ${maxMemoryMb}MB heap`
+  );
 
-  try {
-    // Create M365 client
-    const m365 = createM365Client(graphClient);
-
-    // Create sandbox context with limited globals
-    const sandbox = {
-      m365,
-      console: {
-        log: (...args: unknown[]) => logger.info('Sandbox console.log:', ...args),
-        error: (...args: unknown[]) => logger.error('Sandbox console.error:', ...args),
-        warn: (...args: unknown[]) => logger.warn('Sandbox console.warn:', ...args),
-      },
-      setTimeout: undefined, // Disable setTimeout
-      setInterval: undefined, // Disable setInterval
-      setImmediate: undefined, // Disable setImmediate
-      process: undefined, // Disable process access
-      require: undefined, // Disable require
-      __dirname: undefined,
-      __filename: undefined,
-      global: undefined,
-      Promise, // Allow Promises
-      Array,
-      Object,
-      String,
-      Number,
-      Boolean,
-      Date,
-      Math,
-      JSON,
-      Set,
-      Map,
-    };
-
-    const context = createContext(sandbox);
-
-    // Wrap code in async function to support await
-    const wrappedCode = `
-      (async function() {
-        ${code}
-      })()
-    `;
-
-    const script = new Script(wrappedCode, {
-      filename: 'user-code.js',
-      timeout,
-    });
+  const m365 = createM365Client(graphClient, options.appOnly);
+  const workerData: SandboxWorkerData = {
+    code,
+    methods: listClientMethods(m365),
+    skills: Boolean(options.runSkill),
+    timeout,
+  };
+
+  const worker = createSandboxWorker({
+    workerData,
+    resourceLimits: { maxOldGenerationSizeMb: maxMemoryMb },
+    // Code that escapes the vm context reaches the worker's process; keep secrets such as
+    // MS365_MCP_CLIENT_SECRET and the token cache key out of its environment
+    env: {},
+    // Keep worker output off process stdout, which carries the stdio MCP transport
+    stdout: true,
+    stderr: true,
+  });
+
+  const logs: SandboxLogEntry[] = [];
+  const addLog = ({ level, message, timestamp }: SandboxLogEntry) => {
+    if (logs.length > MAX_LOG_ENTRIES) {
+      return;
+    }
+
+    const entry =
+      logs.length === MAX_LOG_ENTRIES
+        ? { level: 'warn' as const, message: 'Further console output truncated', timestamp }
+        : {
+            level,
+            message:
+              message.length > MAX_LOG_MESSAGE_LENGTH
+                ? `${message.slice(0, MAX_LOG_MESSAGE_LENGTH)}... (truncated)`
+                : message,
+            timestamp,
+          };
+    logs.push(entry);
+    options.onLog?.(entry);
+  };
+  const captureLog = (entry: SandboxLogEntry) => {
+    logger[entry.level === 'log' ? 'info' : entry.level](
+      `Sandbox console.${entry.level}:`,
+      entry.message
+    );
+    addLog(entry);
+  };
+
+  const callMethod = (method: string, args: unknown[], account?: string): Promise<unknown> => {
+    if (options.readOnly) {
+      assertReadOnlyCall(method, args);
+    }
+    const fn = resolveClientMethod(m365, method);
+    if (options.callM365) {
+      return options.callM365(method, args);
+    }
+    const call = () => Promise.resolve(fn(...args));
+    return account ? graphClient.runAsAccount(account, call) : call();
+  };
+
+  // Nested skills run in their own sandbox; their output (already logged there) joins this run's
+  const runSkill = async (nameOrId: unknown, params: unknown): Promise<unknown> => {
+    try {
+      const { result, logs: skillLogs } = await options.runSkill!(nameOrId, params);
+      skillLogs.forEach(addLog);
+      return result;
+    } catch (error) {
+      (error as ExecutionError).logs?.forEach(addLog);
+      throw error;
+    }
+  };
 
-    // Execute script and return result
-    const resultPromise = script.runInContext(context, { timeout }) as Promise<unknown>;
+  try {
+    const result = await new Promise<unknown>((resolve, reject) => {
+      const timer = setTimeout(() => reject(new Error('Execution timeout')), timeout);
+      const settle = (fn: () => void) => {
+        clearTimeout(timer);
+        fn();
+      };
+
+      // Bound to the caller's async context so proxied Graph calls keep request-scoped tokens
+      const handleCall = AsyncResource.bind(
+        async (message: Extract<SandboxWorkerMessage, { type: 'call' | 'runSkill' }>) => {
+          let reply: SandboxParentMessage;
+          try {
+            const value =
+              message.type === 'runSkill'
+                ? await runSkill(message.nameOrId, message.params)
+                : await callMethod(message.method, message.args, message.account);
+            reply = { type: 'result', id: message.id, value };
+          } catch (error) {
+            reply = { type: 'error', id: message.id, message: (error as Error).message };
+          }
+          worker.postMessage(reply);
+        }
+      );
+
+      worker.on('message', (message: SandboxWorkerMessage) => {
+        switch (message.type) {
+          case 'call':
+          case 'runSkill':
+            handleCall(message);
+            break;
+          case 'log':
+            captureLog(message);
+            break;
+          case 'done':
+            settle(() => resolve(message.result));
+            break;
+          case 'failed': {
+            const error = new Error(message.message);
+            error.stack = message.stack;
+            settle(() => reject(error));
+            break;
+          }
+        }
+      });
+
+      worker.on('error', (error: Error & { code?: string }) => {
+        settle(() =>
+          reject(
+            error.code === 'ERR_WORKER_OUT_OF_MEMORY'
+              ? new Error(`Execution exceeded memory limit of ${maxMemoryMb}MB`)
+              : error
+          )
+        );
+      });
 
-    // Wait for the result with timeout
-    const result = await Promise.race([
-      resultPromise,
-      new Promise((_, reject) => setTimeout(() => reject(new Error('Execution timeout')), timeout)),
-    ]);
+      worker.on('exit', (exitCode) => {
+        settle(() => reject(new Error(`Sandbox worker exited with code ${exitCode}`)));
+      });
+    });
 
     const executionTime = Date.now() - startTime;
     logger.info(`Code execution completed in ${executionTime}ms`);
 
-    return result;
+    return { result, logs };
   } catch (error) {
     const executionTime = Date.now() - startTime;
     logger.error(`Code execution failed after ${executionTime}ms:`, error);
+    (error as ExecutionError).logs = logs;
     throw error;
+  } finally {
+    // Stops runaway code, including async loops that outlive the timeout
+    await worker.terminate();
   }
 }
@@ -0,0 +1,178 @@
+/**
+ * Minimal cron expression support for the skill scheduler: five fields (minute, hour, day of
+ * month, month, day of week) with *, lists, ranges, steps and month/day names, plus the @hourly,
+ * @daily, @weekly, @monthly and @yearly shortcuts. Times are in the server's local time zone.
+ */
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>; // 1-12
+  daysOfWeek: Set<number>; // 0-6, Sunday is 0
+  // Standard cron semantics: when both day fields are restricted a day matching either runs
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+const MONTH_NAMES = [
+  'jan',
+  'feb',
+  'mar',
+  'apr',
+  'may',
+  'jun',
+  'jul',
+  'aug',
+  'sep',
+  'oct',
+  'nov',
+  'dec',
+];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+const FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES },
+  { name: 'day of week', min: 0, max: 7, names: DAY_NAMES },
+];
+
+// Far enough to reach every valid day/month combination, including February 29
+const MAX_SEARCH_YEARS = 8;
+
+function parseValue(value: string, field: (typeof FIELDS)[number]): number {
+  const nameIndex = field.names?.indexOf(value.toLowerCase()) ?? -1;
+  if (nameIndex < 0 && !/^\d+$/.test(value)) {
+    throw new Error(`'${value}' is not a valid ${field.name}`);
+  }
+  const number = nameIndex >= 0 ? nameIndex + field.min : Number(value);
+  if (number < field.min || number > field.max) {
+    throw new Error(`${field.name} ${value} is outside ${field.min}-${field.max}`);
+  }
+  return number;
+}
+
+function parseField(expression: string, field: (typeof FIELDS)[number]): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of expression.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`'${stepText}' is not a valid step for ${field.name}`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = field.min;
+      end = field.max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = parseValue(from, field);
+      end = parseValue(to, field);
+      if (start > end) {
+        throw new Error(`${field.name} range ${range} is reversed`);
+      }
+    } else {
+      start = parseValue(range, field);
+      // "5/15" means every 15 starting at 5
+      end = stepText === undefined ? start : field.max;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a cron expression, throwing an error that names the offending field
+ */
+export function parseCron(expression: string): CronSchedule {
+  const trimmed = expression.trim();
+  const fields = (MACROS[trimmed.toLowerCase()] ?? trimmed).split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(
+      `Invalid cron expression '${expression}': expected 5 fields (minute hour day-of-month month day-of-week)`
+    );
+  }
+
+  try {
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) =>
+      parseField(field, FIELDS[index])
+    );
+    // 7 is an alias for Sunday
+    if (daysOfWeek.delete(7)) {
+      daysOfWeek.add(0);
+    }
+
+    return {
+      minutes,
+      hours,
+      daysOfMonth,
+      months,
+      daysOfWeek,
+      anyDayOfMonth: fields[2].startsWith('*'),
+      anyDayOfWeek: fields[4].startsWith('*'),
+    };
+  } catch (error) {
+    throw new Error(`Invalid cron expression '${expression}': ${(error as Error).message}`);
+  }
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getDay());
+  if (schedule.anyDayOfMonth || schedule.anyDayOfWeek) {
+    return dayOfMonth && dayOfWeek;
+  }
+  return dayOfMonth || dayOfWeek;
+}
+
+/**
+ * The first time strictly after `after` that matches the expression
+ */
+export function nextCronRun(expression: string | CronSchedule, after: Date): Date {
+  const schedule = typeof expression === 'string' ? parseCron(expression) : expression;
+
+  const date = new Date(after);
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+
+  const limit = new Date(date);
+  limit.setFullYear(limit.getFullYear() + MAX_SEARCH_YEARS);
+
+  // Skip whole months, days and hours that cannot match before stepping through minutes
+  while (date < limit) {
+    if (!schedule.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0);
+    } else if (!matchesDay(schedule, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0);
+    } else if (!schedule.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0);
+    } else if (!schedule.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1);
+    } else {
+      return date;
+    }
+  }
+
+  throw new Error('Cron expression never matches a date');
+}
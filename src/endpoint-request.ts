@@ -0,0 +1,182 @@
+import logger from './logger.js';
+import type { Endpoint } from './generated/endpoint-types.js';
+
+export type EndpointRequestOptions = {
+  method: string;
+  headers: Record<string, string>;
+  body?: string;
+  rawResponse?: boolean;
+  includeHeaders?: boolean;
+  excludeResponse?: boolean;
+  queryParams?: Record<string, string>;
+};
+
+/**
+ * App-only tokens have no signed-in user, so /me paths must address a user explicitly
+ */
+export function toAppOnlyPath(toolPath: string): string {
+  return toolPath.replace(/^\/me(?=\/|$)/, '/users/:userId');
+}
+
+interface EndpointRequestOverrides {
+  path?: string; // e.g. the /users/:userId rewrite of a /me path in app-only mode
+  returnDownloadUrl?: boolean;
+}
+
+/**
+ * Maps tool parameters onto the Graph request for a generated endpoint: path, OData query,
+ * body and header parameters plus the MCP control parameters (includeHeaders, preferTextContent, ...).
+ * Shared by the MCP tools and the code execution sandbox so both behave the same.
+ */
+export function buildEndpointRequest(
+  tool: Endpoint,
+  params: Record<string, unknown>,
+  { path: toolPath = tool.path, returnDownloadUrl }: EndpointRequestOverrides = {}
+): { path: string; options: EndpointRequestOptions } {
+  const parameterDefinitions = tool.parameters || [];
+
+  let path = toolPath;
+  const queryParams: Record<string, string> = {};
+  const headers: Record<string, string> = {};
+  let body: unknown = null;
+
+  for (let [paramName, paramValue] of Object.entries(params)) {
+    // Skip pagination control parameter - it's not part of the Microsoft Graph API - I think 🤷
+    if (paramName === 'fetchAllPages') {
+      continue;
+    }
+
+    // Skip headers control parameter - it's not part of the Microsoft Graph API
+    if (paramName === 'includeHeaders') {
+      continue;
+    }
+
+    // Skip excludeResponse control parameter - it's not part of the Microsoft Graph API
+    if (paramName === 'excludeResponse') {
+      continue;
+    }
+
+    // Handle preferTextContent parameter - add Prefer header for text content
+    if (paramName === 'preferTextContent') {
+      if (paramValue === true) {
+        headers['Prefer'] = 'outlook.body-content-type="text"';
+        logger.info('Added Prefer header for text content');
+      }
+      continue;
+    }
+
+    // Handle the user targeted by a /me tool rewritten for app-only mode
+    if (paramName === 'userId' && toolPath !== tool.path) {
+      path = path.replace(':userId', encodeURIComponent(paramValue as string));
+      continue;
+    }
+
+    // Handle If-Match header for Planner API
+    if (paramName === 'If-Match') {
+      headers['If-Match'] = paramValue as string;
+      continue;
+    }
+
+    // Ok, so, MCP clients (such as claude code) doesn't support $ in parameter names,
+    // and others might not support __, so we strip them in hack.ts and restore them here
+    const odataParams = [
+      'filter',
+      'select',
+      'expand',
+      'orderby',
+      'skip',
+      'top',
+      'count',
+      'search',
+      'format',
+    ];
+    const fixedParamName = odataParams.includes(paramName.toLowerCase())
+      ? `$${paramName.toLowerCase()}`
+      : paramName;
+    const paramDef = parameterDefinitions.find((p) => p.name === paramName);
+
+    if (paramDef) {
+      switch (paramDef.type) {
+        case 'Path':
+          path = path
+            .replace(`{${paramName}}`, encodeURIComponent(paramValue as string))
+            .replace(`:${paramName}`, encodeURIComponent(paramValue as string));
+          break;
+
+        case 'Query':
+          queryParams[fixedParamName] = `${paramValue}`;
+          break;
+
+        case 'Body':
+          if (paramDef.schema) {
+            const parseResult = paramDef.schema.safeParse(paramValue);
+            if (!parseResult.success) {
+              const wrapped = { [paramName]: paramValue };
+              const wrappedResult = paramDef.schema.safeParse(wrapped);
+              if (wrappedResult.success) {
+                logger.info(
+                  `Auto-corrected parameter '${paramName}': AI passed nested field directly, wrapped it as {${paramName}: ...}`
+                );
+                body = wrapped;
+              } else {
+                body = paramValue;
+              }
+            } else {
+              body = paramValue;
+            }
+          } else {
+            body = paramValue;
+          }
+          break;
+
+        case 'Header':
+          headers[fixedParamName] = `${paramValue}`;
+          break;
+      }
+    } else if (paramName === 'body') {
+      body = paramValue;
+      logger.info(`Set body param: ${JSON.stringify(body)}`);
+    }
+  }
+
+  if (Object.keys(queryParams).length > 0) {
+    const queryString = Object.entries(queryParams)
+      .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(value)}`)
+      .join('&');
+    path = `${path}${path.includes('?') ? '&' : '?'}${queryString}`;
+  }
+
+  const options: EndpointRequestOptions = {
+    method: tool.method.toUpperCase(),
+    headers,
+  };
+
+  if (options.method !== 'GET' && body) {
+    options.body = typeof body === 'string' ? body : JSON.stringify(body);
+  }
+
+  const isProbablyMediaContent =
+    tool.errors?.some((error) => error.description === 'Retrieved media content') ||
+    path.endsWith('/content');
+
+  if (returnDownloadUrl && path.endsWith('/content')) {
+    path = path.replace(/\/content$/, '');
+    logger.info(
+      `Auto-returning download URL for ${tool.alias} (returnDownloadUrl=true in endpoints.json)`
+    );
+  } else if (isProbablyMediaContent) {
+    options.rawResponse = true;
+  }
+
+  // Set includeHeaders if requested
+  if (params.includeHeaders === true) {
+    options.includeHeaders = true;
+  }
+
+  // Set excludeResponse if requested
+  if (params.excludeResponse === true) {
+    options.excludeResponse = true;
+  }
+
+  return { path, options };
+}
@@ -1,7 +1,8 @@
 import logger from './logger.js';
-import AuthManager from './auth.js';
+import AuthManager, { ConsentRequest } from './auth.js';
 import { refreshAccessToken } from './lib/microsoft-auth.js';
 import { convert } from 'html-to-text';
+import { AsyncLocalStorage } from 'async_hooks';
 
 interface GraphRequestOptions {
   headers?: Record<string, string>;
@@ -16,6 +17,42 @@ interface GraphRequestOptions {
   [key: string]: unknown;
 }
 
+interface RetryOptions {
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+interface RequestTokens {
+  accessToken: string;
+  refreshToken: string | null;
+}
+
+interface RequestOutcome {
+  result: unknown;
+  retries: number;
+}
+
+export interface BatchRequestItem {
+  id?: string;
+  method?: string;
+  url: string;
+  headers?: Record<string, string>;
+  body?: unknown;
+  dependsOn?: string[];
+}
+
+export interface BatchResponseItem {
+  id: string;
+  status: number;
+  headers?: Record<string, string>;
+  body?: unknown;
+  error?: {
+    code: string;
+    message: string;
+  };
+}
+
 interface ContentItem {
   type: 'text';
   text: string;
@@ -31,13 +68,43 @@ interface McpResponse {
   [key: string]: unknown;
 }
 
+// Status codes Graph uses to signal throttling or transient unavailability
+const RETRYABLE_STATUS_CODES = [429, 503, 504];
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
+function readNumberFromEnv(name: string): number | undefined {
+  const value = process.env[name];
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+}
+
+// Graph rejects JSON batches with more than 20 requests
+const MAX_BATCH_SIZE = 20;
+
+// Tokens of the HTTP request currently being served, isolated per async context
+const requestTokenStorage = new AsyncLocalStorage<RequestTokens>();
+
+// Account (UPN or homeAccountId) a tool call or sandbox call asked to run as
+const accountStorage = new AsyncLocalStorage<string>();
+
+const DEFAULT_RETRY_OPTIONS: Required<RetryOptions> = {
+  maxRetries: readNumberFromEnv('MS365_MCP_MAX_RETRIES') ?? 3,
+  baseDelayMs: readNumberFromEnv('MS365_MCP_RETRY_BASE_DELAY_MS') ?? 1000,
+  maxDelayMs: readNumberFromEnv('MS365_MCP_RETRY_MAX_DELAY_MS') ?? 30000,
+};
+
 class GraphClient {
   private authManager: AuthManager;
   private accessToken: string | null = null;
   private refreshToken: string | null = null;
+  private retryOptions: Required<RetryOptions>;
 
-  constructor(authManager: AuthManager) {
+  constructor(authManager: AuthManager, retryOptions: RetryOptions = {}) {
     this.authManager = authManager;
+    this.retryOptions = { ...DEFAULT_RETRY_OPTIONS, ...retryOptions };
   }
 
   setOAuthTokens(accessToken: string, refreshToken?: string): void {
@@ -45,31 +112,101 @@ class GraphClient {
     this.refreshToken = refreshToken || null;
   }
 
+  /**
+   * Runs fn with OAuth tokens scoped to the current async context. Every Graph call made while
+   * fn is running (tools, sandboxed code, skills) uses these tokens instead of the shared ones,
+   * so concurrent HTTP requests never see each other's credentials.
+   */
+  runWithTokens<T>(accessToken: string, refreshToken: string | undefined, fn: () => T): T {
+    return requestTokenStorage.run({ accessToken, refreshToken: refreshToken || null }, fn);
+  }
+
+  /**
+   * Runs fn as the given cached account (UPN or homeAccountId) instead of the selected one.
+   * Without an account fn runs unchanged.
+   */
+  runAsAccount<T>(account: string | undefined, fn: () => T): T {
+    return account ? accountStorage.run(account, fn) : fn();
+  }
+
+  /**
+   * Whether calls in the current context use OAuth tokens handed in by an HTTP client
+   */
+  usesClientTokens(): boolean {
+    return Boolean(requestTokenStorage.getStore() || this.accessToken);
+  }
+
+  /**
+   * homeAccountId of the cached account calls in the current context run as, see
+   * AuthManager.getAccountId
+   */
+  getCurrentAccountId(): Promise<string | undefined> {
+    return this.authManager.getAccountId(accountStorage.getStore());
+  }
+
+  /**
+   * Scopes of `required` the account of the current call has not consented to. Tokens passed
+   * in by an OAuth client are never checked; their scopes were chosen by the client.
+   */
+  async getMissingScopes(required: string[]): Promise<string[]> {
+    if (this.usesClientTokens()) {
+      return [];
+    }
+    return this.authManager.getMissingScopes(required, accountStorage.getStore());
+  }
+
+  /**
+   * Starts a device code login granting `scopes`; see AuthManager.requestConsent
+   */
+  requestConsent(scopes: string[]): Promise<ConsentRequest> {
+    return this.authManager.requestConsent(scopes);
+  }
+
   async makeRequest(endpoint: string, options: GraphRequestOptions = {}): Promise<unknown> {
-    // Use OAuth tokens if available, otherwise fall back to authManager
+    const { result } = await this.executeRequest(endpoint, options);
+    return result;
+  }
+
+  private async executeRequest(
+    endpoint: string,
+    options: GraphRequestOptions = {}
+  ): Promise<RequestOutcome> {
+    // Use request-scoped or OAuth tokens if available, otherwise fall back to authManager
+    const scopedTokens = requestTokenStorage.getStore();
+    const account = accountStorage.getStore();
+    if (account && (options.accessToken || scopedTokens || this.accessToken)) {
+      throw new Error('Account selection is not available with OAuth tokens');
+    }
     let accessToken =
-      options.accessToken || this.accessToken || (await this.authManager.getToken());
-    let refreshToken = options.refreshToken || this.refreshToken;
+      options.accessToken ||
+      scopedTokens?.accessToken ||
+      this.accessToken ||
+      (await this.authManager.getToken(false, account));
+    const refreshToken =
+      options.refreshToken || (scopedTokens ? scopedTokens.refreshToken : this.refreshToken);
 
     if (!accessToken) {
       throw new Error('No access token available');
     }
 
+    let retries = 0;
+
     try {
-      let response = await this.performRequest(endpoint, accessToken, options);
+      let attempt = await this.performRequestWithRetry(endpoint, accessToken, options);
+      let response = attempt.response;
+      retries += attempt.retries;
 
       if (response.status === 401 && refreshToken) {
         // Token expired, try to refresh
-        await this.refreshAccessToken(refreshToken);
-
-        // Update token for retry
-        accessToken = this.accessToken || accessToken;
+        accessToken = await this.refreshAccessToken(refreshToken);
         if (!accessToken) {
           throw new Error('Failed to refresh access token');
         }
 
         // Retry the request with new token
-        response = await this.performRequest(endpoint, accessToken, options);
+        attempt = await this.performRequestWithRetry(endpoint, accessToken, options);
+        response = attempt.response;
+        retries += attempt.retries;
       }
 
       if (response.status === 403) {
@@ -85,8 +222,9 @@ class GraphClient {
       }
 
       if (!response.ok) {
+        const retrySuffix = retries > 0 ? ` (gave up after ${retries} retries)` : '';
         throw new Error(
-          `Microsoft Graph API error: ${response.status} ${response.statusText} - ${await response.text()}`
+          `Microsoft Graph API error: ${response.status} ${response.statusText} - ${await response.text()}${retrySuffix}`
         );
       }
 
@@ -110,20 +248,23 @@ class GraphClient {
         // Simple approach: just add ETag to the result if it's an object
         if (result && typeof result === 'object' && !Array.isArray(result)) {
           return {
-            ...result,
-            _etag: etag || 'no-etag-found',
+            result: {
+              ...result,
+              _etag: etag || 'no-etag-found',
+            },
+            retries,
           };
         }
       }
 
-      return result;
+      return { result, retries };
     } catch (error) {
       logger.error('Microsoft Graph API request failed:', error);
       throw error;
     }
   }
 
-  private async refreshAccessToken(refreshToken: string): Promise<void> {
+  private async refreshAccessToken(refreshToken: string): Promise<string> {
     const tenantId = process.env.MS365_MCP_TENANT_ID || 'common';
     const clientId = process.env.MS365_MCP_CLIENT_ID || '084a3e9f-a9f4-43f7-89f9-d229cf97853e';
     const clientSecret = process.env.MS365_MCP_CLIENT_SECRET;
@@ -133,12 +274,82 @@ class GraphClient {
     }
 
     const response = await refreshAccessToken(refreshToken, clientId, clientSecret, tenantId);
-    this.accessToken = response.access_token;
-    if (response.refresh_token) {
-      this.refreshToken = response.refresh_token;
+
+    // Keep refreshed tokens in the request scope when serving an HTTP request
+    const scopedTokens = requestTokenStorage.getStore();
+    if (scopedTokens) {
+      scopedTokens.accessToken = response.access_token;
+      scopedTokens.refreshToken = response.refresh_token || scopedTokens.refreshToken;
+    } else {
+      this.accessToken = response.access_token;
+      this.refreshToken = response.refresh_token || this.refreshToken;
+    }
+    return response.access_token;
+  }
+
+  /**
+   * Performs a request, retrying throttled (429) and transiently unavailable (503/504) responses.
+   * Honors Retry-After when present, otherwise applies jittered exponential backoff capped at
+   * maxDelayMs. Non-idempotent methods are only retried when Graph signals the request was not
+   * processed (429, or a 503 carrying Retry-After).
+   */
+  private async performRequestWithRetry(
+    endpoint: string,
+    accessToken: string,
+    options: GraphRequestOptions
+  ): Promise<{ response: Response; retries: number }> {
+    const method = (options.method || 'GET').toUpperCase();
+    let retries = 0;
+
+    while (true) {
+      const response = await this.performRequest(endpoint, accessToken, options);
+
+      if (retries >= this.retryOptions.maxRetries || !this.isRetryableResponse(response, method)) {
+        return { response, retries };
+      }
+
+      const delay = this.getRetryDelay(response, retries);
+      retries++;
+      logger.warn(
+        `Graph API returned ${response.status} for ${method} ${endpoint}, retry ${retries}/${this.retryOptions.maxRetries} in ${delay}ms`
+      );
+      await new Promise((resolve) => setTimeout(resolve, delay));
     }
   }
 
+  private isRetryableResponse(response: Response, method: string): boolean {
+    if (!RETRYABLE_STATUS_CODES.includes(response.status)) {
+      return false;
+    }
+
+    if (IDEMPOTENT_METHODS.includes(method) || response.status === 429) {
+      return true;
+    }
+
+    return response.status === 503 && response.headers.get('Retry-After') !== null;
+  }
+
+  private getRetryDelay(response: Response, retries: number): number {
+    const { baseDelayMs, maxDelayMs } = this.retryOptions;
+    const retryAfter = response.headers.get('Retry-After');
+
+    if (retryAfter !== null) {
+      const seconds = Number(retryAfter);
+      if (Number.isFinite(seconds)) {
+        return Math.min(Math.max(seconds, 0) * 1000, maxDelayMs);
+      }
+
+      const date = Date.parse(retryAfter);
+      if (!Number.isNaN(date)) {
+        return Math.min(Math.max(date - Date.now(), 0), maxDelayMs);
+      }
+    }
+
+    // Full jitter: pick a random delay between 0 and the exponential ceiling
+    const ceiling = Math.min(baseDelayMs * 2 ** retries, maxDelayMs);
+    return Math.round(Math.random() * ceiling);
+  }
+
   private async performRequest(
     endpoint: string,
     accessToken: string,
@@ -164,9 +375,17 @@ class GraphClient {
       logger.info(`Calling ${endpoint} with options: ${JSON.stringify(options)}`);
 
       // Use new OAuth-aware request method
-      const result = await this.makeRequest(endpoint, options);
-
-      return this.formatJsonResponse(result, options.rawResponse, options.excludeResponse);
+      const { result, retries } = await this.executeRequest(endpoint, options);
+
+      const response = this.formatJsonResponse(
+        result,
+        options.rawResponse,
+        options.excludeResponse
+      );
+      if (retries > 0) {
+        response._meta = { ...response._meta, retries };
+      }
+      return response;
     } catch (error) {
       logger.error(`Error in Graph API request: ${error}`);
       return {
@@ -176,6 +395,151 @@ class GraphClient {
     }
   }
 
+  /**
+   * Executes requests through the Graph JSON batching endpoint ($batch).
+   * Requests are split into batches of at most 20, keeping every dependsOn chain in the same
+   * batch as Graph requires. Responses are returned in input order, with failed items carrying
+   * an `error` object instead of throwing.
+   */
+  async batch(requests: BatchRequestItem[]): Promise<BatchResponseItem[]> {
+    const items = requests.map((request, index) => ({
+      ...request,
+      id: request.id ?? String(index + 1),
+    }));
+
+    const ids = new Set<string>();
+    for (const item of items) {
+      if (ids.has(item.id)) {
+        throw new Error(`Duplicate batch request id: ${item.id}`);
+      }
+      ids.add(item.id);
+    }
+    for (const item of items) {
+      for (const dependency of item.dependsOn || []) {
+        if (!ids.has(dependency)) {
+          throw new Error(`Batch request ${item.id} depends on unknown request id: ${dependency}`);
+        }
+      }
+    }
+
+    const responses = new Map<string, BatchResponseItem>();
+    for (const chunk of this.chunkBatchRequests(items)) {
+      logger.info(`Sending batch of ${chunk.length} requests`);
+
+      const result = (await this.makeRequest('/$batch', {
+        method: 'POST',
+        body: JSON.stringify({
+          requests: chunk.map((item) => this.toBatchPayload(item)),
+        }),
+      })) as { responses?: BatchResponseItem[] };
+
+      for (const response of result.responses || []) {
+        responses.set(response.id, this.mapBatchResponse(response));
+      }
+    }
+
+    return items.map(
+      (item) =>
+        responses.get(item.id) || {
+          id: item.id,
+          status: 0,
+          error: { code: 'missingResponse', message: 'No response returned for batch request' },
+        }
+    );
+  }
+
+  private chunkBatchRequests(
+    items: (BatchRequestItem & { id: string })[]
+  ): (BatchRequestItem & { id: string })[][] {
+    // Group requests connected through dependsOn so each chain lands in the same batch
+    const groupOf = new Map<string, string>();
+    const find = (id: string): string => {
+      const parent = groupOf.get(id) ?? id;
+      if (parent === id) {
+        return id;
+      }
+      const root = find(parent);
+      groupOf.set(id, root);
+      return root;
+    };
+    for (const item of items) {
+      for (const dependency of item.dependsOn || []) {
+        groupOf.set(find(item.id), find(dependency));
+      }
+    }
+
+    const groups = new Map<string, (BatchRequestItem & { id: string })[]>();
+    for (const item of items) {
+      const root = find(item.id);
+      const group = groups.get(root) || [];
+      group.push(item);
+      groups.set(root, group);
+    }
+
+    const chunks: (BatchRequestItem & { id: string })[][] = [];
+    let current: (BatchRequestItem & { id: string })[] = [];
+    for (const group of groups.values()) {
+      if (group.length > MAX_BATCH_SIZE) {
+        throw new Error(
+          `A dependsOn chain of ${group.length} requests exceeds the batch limit of ${MAX_BATCH_SIZE}`
+        );
+      }
+      if (current.length + group.length > MAX_BATCH_SIZE) {
+        chunks.push(current);
+        current = [];
+      }
+      current.push(...group);
+    }
+    if (current.length > 0) {
+      chunks.push(current);
+    }
+    return chunks;
+  }
+
+  private toBatchPayload(item: BatchRequestItem & { id: string }): Record<string, unknown> {
+    const payload: Record<string, unknown> = {
+      id: item.id,
+      method: (item.method || 'GET').toUpperCase(),
+      url: item.url.replace(/^https:\/\/graph\.microsoft\.com\/v1\.0/, ''),
+    };
+
+    if (item.dependsOn && item.dependsOn.length > 0) {
+      payload.dependsOn = item.dependsOn;
+    }
+
+    if (item.body !== undefined) {
+      let body = item.body;
+      if (typeof body === 'string') {
+        try {
+          body = JSON.parse(body);
+        } catch {
+          // Leave non-JSON string bodies untouched
+        }
+      }
+      payload.body = body;
+      payload.headers = { 'Content-Type': 'application/json', ...item.headers };
+    } else if (item.headers) {
+      payload.headers = item.headers;
+    }
+
+    return payload;
+  }
+
+  private mapBatchResponse(response: BatchResponseItem): BatchResponseItem {
+    if (response.status < 400) {
+      return response;
+    }
+
+    const errorBody = (response.body as { error?: { code?: string; message?: string } }) || {};
+    return {
+      ...response,
+      error: {
+        code: errorBody.error?.code || `http${response.status}`,
+        message: errorBody.error?.message || `Request failed with status ${response.status}`,
+      },
+    };
+  }
+
   /**
    * Converts HTML content to plain text optimized for LLM consumption
    * @param html HTML string to convert
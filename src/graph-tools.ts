@@ -1,13 +1,19 @@
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { McpServer, RegisteredTool } from '@modelcontextprotocol/sdk/server/mcp.js';
 import logger from './logger.js';
-import GraphClient from './graph-client.js';
+import GraphClient, { BatchRequestItem } from './graph-client.js';
 import { api } from './generated/client.js';
 import { z } from 'zod';
 import { readFileSync } from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
-import { executeM365Code } from './code-execution.js';
+import { createLogStreamer, ExecutionError, executeM365Code } from './code-execution.js';
+import { analyzeCode } from './code-analysis.js';
 import { registerSkillTools } from './skill-tools.js';
+import type { SkillStore } from './skill-store.js';
+import type { SkillScheduler } from './skill-scheduler.js';
+import { getApplicationPermissions } from './application-permissions.js';
+import { buildEndpointRequest, toAppOnlyPath } from './endpoint-request.js';
+import type { ConsentRequest } from './auth.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -80,12 +86,60 @@ interface CallToolResult {
   [key: string]: unknown;
 }
 
+/**
+ * Scopes of every tool in the category, which a consent for one of them asks for
+ */
+function categoryScopes(category: string, orgMode: boolean): string[] {
+  const scopes = endpointsData
+    .filter((endpoint) => (endpoint.category || 'other') === category)
+    .flatMap((endpoint) => [
+      ...(endpoint.scopes ?? []),
+      ...(orgMode ? (endpoint.workScopes ?? []) : []),
+    ]);
+  return Array.from(new Set(scopes)).sort();
+}
+
+/**
+ * Result of a tool whose scopes the account has not consented to yet. The device code grants
+ * the scopes of the tool's whole category, so its other tools work without asking again.
+ */
+function consentRequiredResult(
+  category: string,
+  missingScopes: string[],
+  scopes: string[],
+  consent: ConsentRequest
+): CallToolResult {
+  return {
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify({
+          error: 'consent_required',
+          category,
+          missingScopes,
+          scopes,
+          message: `${consent.message} Then call the tool again.`,
+          verificationUri: consent.verificationUri,
+          userCode: consent.userCode,
+          expiresIn: consent.expiresIn,
+        }),
+      },
+    ],
+    isError: true,
+  };
+}
+
 export async function registerGraphTools(
   server: McpServer,
   graphClient: GraphClient,
   readOnly: boolean = false,
   enabledToolsPattern?: string,
-  orgMode: boolean = false
+  orgMode: boolean = false,
+  appOnly: boolean = false,
+  lazyTools: boolean = false,
+  skillsAsTools: boolean = false,
+  skillStore?: SkillStore,
+  skillScheduler?: SkillScheduler
 ): Promise<void> {
   let enabledToolsRegex: RegExp | undefined;
   if (enabledToolsPattern) {
@@ -97,6 +151,9 @@ export async function registerGraphTools(
     }
   }
 
+  // Handles of the registered Graph tools per category, used to enable/disable them at runtime
+  const categoryHandles = new Map<string, RegisteredTool[]>();
+
   for (const tool of api.endpoints) {
     const endpointConfig = endpointsData.find((e) => e.toolName === tool.alias);
     if (!orgMode && endpointConfig && !endpointConfig.scopes && endpointConfig.workScopes) {
@@ -114,6 +171,13 @@ export async function registerGraphTools(
       continue;
     }
 
+    if (appOnly && endpointConfig && getApplicationPermissions(endpointConfig) === null) {
+      logger.info(`Skipping tool ${tool.alias} - no application permission in app-only mode`);
+      continue;
+    }
+
+    const toolPath = appOnly ? toAppOnlyPath(tool.path) : tool.path;
+
     const paramSchema: Record<string, unknown> = {};
     if (tool.parameters && tool.parameters.length > 0) {
       for (const param of tool.parameters) {
@@ -121,6 +185,12 @@ export async function registerGraphTools(
       }
     }
 
+    if (toolPath !== tool.path) {
+      paramSchema['userId'] = z
+        .string()
+        .describe('ID or userPrincipalName of the user to act on (required in app-only mode)');
+    }
+
     if (tool.method.toUpperCase() === 'GET' && tool.path.includes('/')) {
       paramSchema['fetchAllPages'] = z
         .boolean()
@@ -166,284 +236,185 @@ export async function registerGraphTools(
         .optional();
     }
 
-    server.tool(
+    // App-only tokens have no signed-in accounts to choose from
+    if (!appOnly && !paramSchema['account']) {
+      paramSchema['account'] = z
+        .string()
+        .describe(
+          'UPN or home account ID of the signed-in account to use for this call (defaults to the selected account)'
+        )
+        .optional();
+    }
+
+    const category = endpointConfig?.category || 'other';
+    // Scopes outside the scopes profile are consented to per category on first use
+    const requiredScopes = endpointConfig?.scopes ?? endpointConfig?.workScopes ?? [];
+
+    const registeredTool = server.tool(
       tool.alias,
-      tool.description || `Execute ${tool.method.toUpperCase()} request to ${tool.path}`,
+      tool.description || `Execute ${tool.method.toUpperCase()} request to ${toolPath}`,
       paramSchema,
       {
         title: tool.alias,
         readOnlyHint: tool.method.toUpperCase() === 'GET',
       },
-      async (params) => {
-        logger.info(`Tool ${tool.alias} called with params: ${JSON.stringify(params)}`);
-        try {
-          logger.info(`params: ${JSON.stringify(params)}`);
-
-          const parameterDefinitions = tool.parameters || [];
-
-          let path = tool.path;
-          const queryParams: Record<string, string> = {};
-          const headers: Record<string, string> = {};
-          let body: unknown = null;
-
-          for (let [paramName, paramValue] of Object.entries(params)) {
-            // Skip pagination control parameter - it's not part of the Microsoft Graph API - I think 🤷
-            if (paramName === 'fetchAllPages') {
-              continue;
-            }
-
-            // Skip headers control parameter - it's not part of the Microsoft Graph API
-            if (paramName === 'includeHeaders') {
-              continue;
-            }
-
-            // Skip excludeResponse control parameter - it's not part of the Microsoft Graph API
-            if (paramName === 'excludeResponse') {
-              continue;
-            }
-
-            // Handle preferTextContent parameter - add Prefer header for text content
-            if (paramName === 'preferTextContent') {
-              if (paramValue === true) {
-                headers['Prefer'] = 'outlook.body-content-type="text"';
-                logger.info('Added Prefer header for text content');
-              }
-              continue;
-            }
-
-            // Handle If-Match header for Planner API
-            if (paramName === 'If-Match') {
-              headers['If-Match'] = paramValue as string;
-              continue;
-            }
-
-            // Ok, so, MCP clients (such as claude code) doesn't support $ in parameter names,
-            // and others might not support __, so we strip them in hack.ts and restore them here
-            const odataParams = [
-              'filter',
-              'select',
-              'expand',
-              'orderby',
-              'skip',
-              'top',
-              'count',
-              'search',
-              'format',
-            ];
-            const fixedParamName = odataParams.includes(paramName.toLowerCase())
-              ? `$${paramName.toLowerCase()}`
-              : paramName;
-            const paramDef = parameterDefinitions.find((p) => p.name === paramName);
-
-            if (paramDef) {
-              switch (paramDef.type) {
-                case 'Path':
-                  path = path
-                    .replace(`{${paramName}}`, encodeURIComponent(paramValue as string))
-                    .replace(`:${paramName}`, encodeURIComponent(paramValue as string));
-                  break;
-
-                case 'Query':
-                  queryParams[fixedParamName] = `${paramValue}`;
-                  break;
-
-                case 'Body':
-                  if (paramDef.schema) {
-                    const parseResult = paramDef.schema.safeParse(paramValue);
-                    if (!parseResult.success) {
-                      const wrapped = { [paramName]: paramValue };
-                      const wrappedResult = paramDef.schema.safeParse(wrapped);
-                      if (wrappedResult.success) {
-                        logger.info(
-                          `Auto-corrected parameter '${paramName}': AI passed nested field directly, wrapped it as {${paramName}: ...}`
-                        );
-                        body = wrapped;
-                      } else {
-                        body = paramValue;
-                      }
-                    } else {
-                      body = paramValue;
-                    }
-                  } else {
-                    body = paramValue;
-                  }
-                  break;
-
-                case 'Header':
-                  headers[fixedParamName] = `${paramValue}`;
-                  break;
+      async (params) =>
+        graphClient.runAsAccount(params.account as string | undefined, async () => {
+          logger.info(`Tool ${tool.alias} called with params: ${JSON.stringify(params)}`);
+          try {
+            logger.info(`params: ${JSON.stringify(params)}`);
+
+            if (!appOnly && requiredScopes.length > 0) {
+              const missingScopes = await graphClient.getMissingScopes(requiredScopes);
+              if (missingScopes.length > 0) {
+                const consentScopes = categoryScopes(category, orgMode);
+                logger.info(`Tool ${tool.alias} needs consent for ${missingScopes.join(', ')}`);
+                return consentRequiredResult(
+                  category,
+                  missingScopes,
+                  consentScopes,
+                  await graphClient.requestConsent(consentScopes)
+                );
               }
-            } else if (paramName === 'body') {
-              body = paramValue;
-              logger.info(`Set body param: ${JSON.stringify(body)}`);
             }
-          }
 
-          if (Object.keys(queryParams).length > 0) {
-            const queryString = Object.entries(queryParams)
-              .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(value)}`)
-              .join('&');
-            path = `${path}${path.includes('?') ? '&' : '?'}${queryString}`;
-          }
+            const { path, options } = buildEndpointRequest(tool, params, {
+              path: toolPath,
+              returnDownloadUrl: endpointConfig?.returnDownloadUrl,
+            });
 
-          const options: {
-            method: string;
-            headers: Record<string, string>;
-            body?: string;
-            rawResponse?: boolean;
-            includeHeaders?: boolean;
-            excludeResponse?: boolean;
-          } = {
-            method: tool.method.toUpperCase(),
-            headers,
-          };
+            logger.info(`Making graph request to ${path} with options: ${JSON.stringify(options)}`);
+            let response = await graphClient.graphRequest(path, options);
 
-          if (options.method !== 'GET' && body) {
-            options.body = typeof body === 'string' ? body : JSON.stringify(body);
-          }
+            const fetchAllPages = params.fetchAllPages === true;
+            if (fetchAllPages && response && response.content && response.content.length > 0) {
+              try {
+                let combinedResponse = JSON.parse(response.content[0].text);
+                let allItems = combinedResponse.value || [];
+                let nextLink = combinedResponse['@odata.nextLink'];
+                let pageCount = 1;
 
-          const isProbablyMediaContent =
-            tool.errors?.some((error) => error.description === 'Retrieved media content') ||
-            path.endsWith('/content');
-
-          if (endpointConfig?.returnDownloadUrl && path.endsWith('/content')) {
-            path = path.replace(/\/content$/, '');
-            logger.info(
-              `Auto-returning download URL for ${tool.alias} (returnDownloadUrl=true in endpoints.json)`
-            );
-          } else if (isProbablyMediaContent) {
-            options.rawResponse = true;
-          }
+                while (nextLink) {
+                  logger.info(`Fetching page ${pageCount + 1} from: ${nextLink}`);
 
-          // Set includeHeaders if requested
-          if (params.includeHeaders === true) {
-            options.includeHeaders = true;
-          }
+                  const url = new URL(nextLink);
+                  const nextPath = url.pathname.replace('/v1.0', '');
+                  const nextOptions = { ...options };
 
-          // Set excludeResponse if requested
-          if (params.excludeResponse === true) {
-            options.excludeResponse = true;
-          }
-
-          logger.info(`Making graph request to ${path} with options: ${JSON.stringify(options)}`);
-          let response = await graphClient.graphRequest(path, options);
-
-          const fetchAllPages = params.fetchAllPages === true;
-          if (fetchAllPages && response && response.content && response.content.length > 0) {
-            try {
-              let combinedResponse = JSON.parse(response.content[0].text);
-              let allItems = combinedResponse.value || [];
-              let nextLink = combinedResponse['@odata.nextLink'];
-              let pageCount = 1;
-
-              while (nextLink) {
-                logger.info(`Fetching page ${pageCount + 1} from: ${nextLink}`);
-
-                const url = new URL(nextLink);
-                const nextPath = url.pathname.replace('/v1.0', '');
-                const nextOptions = { ...options };
-
-                const nextQueryParams: Record<string, string> = {};
-                for (const [key, value] of url.searchParams.entries()) {
-                  nextQueryParams[key] = value;
-                }
-                nextOptions.queryParams = nextQueryParams;
-
-                const nextResponse = await graphClient.graphRequest(nextPath, nextOptions);
-                if (nextResponse && nextResponse.content && nextResponse.content.length > 0) {
-                  const nextJsonResponse = JSON.parse(nextResponse.content[0].text);
-                  if (nextJsonResponse.value && Array.isArray(nextJsonResponse.value)) {
-                    allItems = allItems.concat(nextJsonResponse.value);
+                  const nextQueryParams: Record<string, string> = {};
+                  for (const [key, value] of url.searchParams.entries()) {
+                    nextQueryParams[key] = value;
                   }
-                  nextLink = nextJsonResponse['@odata.nextLink'];
-                  pageCount++;
+                  nextOptions.queryParams = nextQueryParams;
 
-                  if (pageCount > 100) {
-                    logger.warn(`Reached maximum page limit (100) for pagination`);
+                  const nextResponse = await graphClient.graphRequest(nextPath, nextOptions);
+                  if (nextResponse && nextResponse.content && nextResponse.content.length > 0) {
+                    const nextJsonResponse = JSON.parse(nextResponse.content[0].text);
+                    if (nextJsonResponse.value && Array.isArray(nextJsonResponse.value)) {
+                      allItems = allItems.concat(nextJsonResponse.value);
+                    }
+                    nextLink = nextJsonResponse['@odata.nextLink'];
+                    pageCount++;
+
+                    if (pageCount > 100) {
+                      logger.warn(`Reached maximum page limit (100) for pagination`);
+                      break;
+                    }
+                  } else {
                     break;
                   }
-                } else {
-                  break;
                 }
-              }
 
-              combinedResponse.value = allItems;
-              if (combinedResponse['@odata.count']) {
-                combinedResponse['@odata.count'] = allItems.length;
-              }
-              delete combinedResponse['@odata.nextLink'];
+                combinedResponse.value = allItems;
+                if (combinedResponse['@odata.count']) {
+                  combinedResponse['@odata.count'] = allItems.length;
+                }
+                delete combinedResponse['@odata.nextLink'];
 
-              response.content[0].text = JSON.stringify(combinedResponse);
+                response.content[0].text = JSON.stringify(combinedResponse);
 
-              logger.info(
-                `Pagination complete: collected ${allItems.length} items across ${pageCount} pages`
-              );
-            } catch (e) {
-              logger.error(`Error during pagination: ${e}`);
+                logger.info(
+                  `Pagination complete: collected ${allItems.length} items across ${pageCount} pages`
+                );
+              } catch (e) {
+                logger.error(`Error during pagination: ${e}`);
+              }
             }
-          }
 
-          if (response && response.content && response.content.length > 0) {
-            const responseText = response.content[0].text;
-            const responseSize = responseText.length;
-            logger.info(`Response size: ${responseSize} characters`);
-
-            try {
-              const jsonResponse = JSON.parse(responseText);
-              if (jsonResponse.value && Array.isArray(jsonResponse.value)) {
-                logger.info(`Response contains ${jsonResponse.value.length} items`);
-                if (jsonResponse.value.length > 0 && jsonResponse.value[0].body) {
+            if (response && response.content && response.content.length > 0) {
+              const responseText = response.content[0].text;
+              const responseSize = responseText.length;
+              logger.info(`Response size: ${responseSize} characters`);
+
+              try {
+                const jsonResponse = JSON.parse(responseText);
+                if (jsonResponse.value && Array.isArray(jsonResponse.value)) {
+                  logger.info(`Response contains ${jsonResponse.value.length} items`);
+                  if (jsonResponse.value.length > 0 && jsonResponse.value[0].body) {
+                    logger.info(
+                      `First item has body field with size: ${JSON.stringify(jsonResponse.value[0].body).length} characters`
+                    );
+                  }
+                }
+                if (jsonResponse['@odata.nextLink']) {
                   logger.info(
-                    `First item has body field with size: ${JSON.stringify(jsonResponse.value[0].body).length} characters`
+                    `Response has pagination nextLink: ${jsonResponse['@odata.nextLink']}`
                   );
                 }
+                const preview = responseText.substring(0, 500);
+                logger.info(
+                  `Response preview: ${preview}${responseText.length > 500 ? '...' : ''}`
+                );
+              } catch {
+                const preview = responseText.substring(0, 500);
+                logger.info(
+                  `Response preview (non-JSON): ${preview}${responseText.length > 500 ? '...' : ''}`
+                );
               }
-              if (jsonResponse['@odata.nextLink']) {
-                logger.info(`Response has pagination nextLink: ${jsonResponse['@odata.nextLink']}`);
-              }
-              const preview = responseText.substring(0, 500);
-              logger.info(`Response preview: ${preview}${responseText.length > 500 ? '...' : ''}`);
-            } catch {
-              const preview = responseText.substring(0, 500);
-              logger.info(
-                `Response preview (non-JSON): ${preview}${responseText.length > 500 ? '...' : ''}`
-              );
             }
-          }
 
-          // Convert McpResponse to CallToolResult with the correct structure
-          const content: ContentItem[] = response.content.map((item) => {
-            // GraphClient only returns text content items, so create proper TextContent items
-            const textContent: TextContent = {
+            // Convert McpResponse to CallToolResult with the correct structure
+            const content: ContentItem[] = response.content.map((item) => {
+              // GraphClient only returns text content items, so create proper TextContent items
+              const textContent: TextContent = {
+                type: 'text',
+                text: item.text,
+              };
+              return textContent;
+            });
+
+            const result: CallToolResult = {
+              content,
+              _meta: response._meta,
+              isError: response.isError,
+            };
+
+            return result;
+          } catch (error) {
+            logger.error(`Error in tool ${tool.alias}: ${(error as Error).message}`);
+            const errorContent: TextContent = {
               type: 'text',
-              text: item.text,
+              text: JSON.stringify({
+                error: `Error in tool ${tool.alias}: ${(error as Error).message}`,
+              }),
             };
-            return textContent;
-          });
 
-          const result: CallToolResult = {
-            content,
-            _meta: response._meta,
-            isError: response.isError,
-          };
+            return {
+              content: [errorContent],
+              isError: true,
+            };
+          }
+        })
+    );
 
-          return result;
-        } catch (error) {
-          logger.error(`Error in tool ${tool.alias}: ${(error as Error).message}`);
-          const errorContent: TextContent = {
-            type: 'text',
-            text: JSON.stringify({
-              error: `Error in tool ${tool.alias}: ${(error as Error).message}`,
-            }),
-          };
+    categoryHandles.set(category, [...(categoryHandles.get(category) || []), registeredTool]);
+    if (lazyTools) {
+      registeredTool.disable();
+    }
+  }
 
-          return {
-            content: [errorContent],
-            isError: true,
-          };
-        }
-      }
-    );
+  if (lazyTools) {
+    logger.info('Lazy tools enabled - Graph tools are loaded per category on demand');
   }
 
   // Register meta-tools for progressive tool discovery
@@ -558,10 +529,76 @@ export async function registerGraphTools(
     }
   );
 
+  // Toggles every registered tool of a category; the SDK notifies the client of each change via
+  // notifications/tools/list_changed
+  const setCategoryEnabled = (category: string, enabled: boolean): CallToolResult => {
+    const handles = categoryHandles.get(category);
+    if (!handles) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              error: `Category "${category}" has no available tools. Use list-m365-categories to see available categories.`,
+            }),
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const changed = handles.filter((handle) => handle.enabled !== enabled);
+    changed.forEach((handle) => (enabled ? handle.enable() : handle.disable()));
+
+    logger.info(
+      `${enabled ? 'Enabled' : 'Disabled'} ${changed.length} tools in category ${category}`
+    );
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            category,
+            enabled,
+            changedTools: changed.length,
+            enabledTools: handles.filter((handle) => handle.enabled).length,
+          }),
+        },
+      ],
+    };
+  };
+
+  server.tool(
+    'enable-m365-category',
+    'Load the tools of a Microsoft 365 category so they can be called directly. Use list-m365-categories to discover categories and disable-m365-category to unload them again when done.',
+    {
+      category: z.string().describe('The category name (e.g., "mail", "calendar", "teams")'),
+    },
+    {
+      title: 'enable-m365-category',
+      readOnlyHint: false,
+    },
+    async (params) => setCategoryEnabled((params as { category: string }).category, true)
+  );
+
+  server.tool(
+    'disable-m365-category',
+    'Unload the tools of a Microsoft 365 category to keep the tool list small.',
+    {
+      category: z.string().describe('The category name (e.g., "mail", "calendar", "teams")'),
+    },
+    {
+      title: 'disable-m365-category',
+      readOnlyHint: false,
+    },
+    async (params) => setCategoryEnabled((params as { category: string }).category, false)
+  );
+
   // Register code execution tool for advanced data filtering and processing
   server.tool(
     'execute-m365-code',
-    'Execute JavaScript code in a sandboxed environment with access to Microsoft 365 APIs. Use this for advanced data filtering, aggregation, and multi-step operations. The code has access to an `m365` object with methods like m365.mail.list(), m365.calendar.list(), etc. This significantly reduces token usage by processing data locally before returning results.',
+    'Execute JavaScript code in a sandboxed environment with access to Microsoft 365 APIs. Use this for advanced data filtering, aggregation, and multi-step operations. The code has access to an `m365` object with methods like m365.mail.list(), m365.calendar.list(), etc.; m365.as("user@contoso.com") returns the same methods for another signed-in account. This significantly reduces token usage by processing data locally before returning results. Console output is returned in a `logs` array. The code is checked before it runs and rejected with line/column diagnostics when it uses eval, prototype tricks, unknown m365 methods or (in read-only mode) m365 methods that change data.',
     {
       code: z
         .string()
@@ -572,13 +609,39 @@ export async function registerGraphTools(
         .number()
         .optional()
         .describe('Execution timeout in milliseconds (default: 30000, max: 60000)'),
+      streamLogs: z
+        .boolean()
+        .optional()
+        .describe('Also stream console output as MCP logging notifications while the code runs'),
     },
     {
       title: 'execute-m365-code',
       readOnlyHint: false,
     },
-    async (params) => {
-      const { code, timeout = 30000 } = params as { code: string; timeout?: number };
+    async (params, extra) => {
+      const {
+        code,
+        timeout = 30000,
+        streamLogs,
+      } = params as { code: string; timeout?: number; streamLogs?: boolean };
+
+      // Writes are checked here too, since m365 calls bypass the read-only tool filter
+      const validation = analyzeCode(code, { readOnly });
+      if (!validation.valid) {
+        const content: TextContent = {
+          type: 'text',
+          text: JSON.stringify({
+            success: false,
+            error: 'Code validation failed',
+            details: validation.errors,
+            diagnostics: validation.diagnostics,
+          }),
+        };
+        return {
+          content: [content],
+          isError: true,
+        };
+      }
 
       // Validate timeout
       const maxTimeout = 60000; // 60 seconds max
@@ -587,7 +650,12 @@ export async function registerGraphTools(
       try {
         logger.info(`Executing M365 code (timeout: ${actualTimeout}ms)`);
 
-        const result = await executeM365Code(code, graphClient, { timeout: actualTimeout });
+        const { result, logs } = await executeM365Code(code, graphClient, {
+          timeout: actualTimeout,
+          onLog: streamLogs ? createLogStreamer(extra.sendNotification) : undefined,
+          readOnly,
+          appOnly,
+        });
 
         const content: TextContent = {
           type: 'text',
@@ -595,6 +663,7 @@ export async function registerGraphTools(
             {
               success: true,
               result,
+              logs,
               executedAt: new Date().toISOString(),
             },
             null,
@@ -614,6 +683,7 @@ export async function registerGraphTools(
             success: false,
             error: (error as Error).message,
             stack: (error as Error).stack,
+            logs: (error as ExecutionError).logs,
           }),
         };
 
@@ -625,6 +695,96 @@ export async function registerGraphTools(
     }
   );
 
+  // Register JSON batching tool to combine several Graph calls into one round trip
+  server.tool(
+    'graph-batch',
+    'Execute multiple Microsoft Graph requests in a single JSON batch ($batch) call. Requests are grouped into batches of up to 20; use dependsOn to order requests. Each response carries its own status, and failed requests include an error object instead of failing the whole batch.',
+    {
+      requests: z
+        .array(
+          z.object({
+            id: z
+              .string()
+              .optional()
+              .describe('Unique request id (defaults to the 1-based position in the list)'),
+            method: z
+              .enum(['GET', 'POST', 'PUT', 'PATCH', 'DELETE'])
+              .optional()
+              .describe('HTTP method (default: GET)'),
+            url: z
+              .string()
+              .describe('Relative Graph URL including query string, e.g. /me/messages?$top=5'),
+            headers: z.record(z.string()).optional().describe('Request headers'),
+            body: z.any().optional().describe('JSON request body for POST/PUT/PATCH'),
+            dependsOn: z
+              .array(z.string())
+              .optional()
+              .describe('Ids of requests that must complete before this one'),
+          })
+        )
+        .min(1)
+        .describe('Requests to execute'),
+    },
+    {
+      title: 'graph-batch',
+      // Sub-requests may write; in read-only mode they are rejected below
+      readOnlyHint: false,
+    },
+    async (params) => {
+      const { requests } = params as { requests: BatchRequestItem[] };
+
+      if (readOnly) {
+        const writeRequest = requests.find((r) => (r.method || 'GET').toUpperCase() !== 'GET');
+        if (writeRequest) {
+          const content: TextContent = {
+            type: 'text',
+            text: JSON.stringify({
+              error: `Write operation ${writeRequest.method} ${writeRequest.url} is not allowed in read-only mode`,
+            }),
+          };
+          return {
+            content: [content],
+            isError: true,
+          };
+        }
+      }
+
+      try {
+        logger.info(`Executing Graph batch with ${requests.length} requests`);
+        const responses = await graphClient.batch(requests);
+        const response = graphClient.formatJsonResponse({ responses });
+
+        const content: TextContent = {
+          type: 'text',
+          text: response.content[0].text,
+        };
+
+        return {
+          content: [content],
+        };
+      } catch (error) {
+        logger.error(`Batch execution error: ${(error as Error).message}`);
+        const content: TextContent = {
+          type: 'text',
+          text: JSON.stringify({ error: `Error in tool graph-batch: ${(error as Error).message}` }),
+        };
+
+        return {
+          content: [content],
+          isError: true,
+        };
+      }
+    }
+  );
+
   // Register skill management tools
-  await registerSkillTools(server, graphClient);
+  await registerSkillTools(
+    server,
+    graphClient,
+    skillsAsTools,
+    skillStore,
+    skillScheduler,
+    readOnly,
+    appOnly
+  );
 }
@@ -3,8 +3,25 @@
 import 'dotenv/config';
 import { parseArgs } from './cli.js';
 import logger from './logger.js';
-import AuthManager, { buildScopesFromEndpoints } from './auth.js';
+import AuthManager, {
+  buildApplicationPermissionsReport,
+  buildScopesFromEndpoints,
+  buildScopesFromProfile,
+} from './auth.js';
+import { loadTokenCacheOptions } from './token-cache.js';
 import MicrosoftGraphServer from './server.js';
+import GraphClient from './graph-client.js';
+import { createSkillStore, SkillStorage } from './skills-storage.js';
+import { migrateSkills, SkillStoreBackend } from './skill-store.js';
+import {
+  exportSkills,
+  importSkills,
+  readSkillBundle,
+  SkillConflictResolution,
+  writeSkillBundle,
+} from './skill-bundle.js';
+import { loadBuiltinSkills } from './builtin-skills.js';
+import { runSkillTests, SkillTestReport } from './skill-tests.js';
 import { version } from './version.js';
 
 async function main(): Promise<void> {
@@ -16,9 +33,121 @@ async function main(): Promise<void> {
       logger.info('Organization mode enabled - including work account scopes');
     }
 
-    const scopes = buildScopesFromEndpoints(includeWorkScopes);
-    const authManager = new AuthManager(undefined, scopes);
-    await authManager.loadTokenCache();
+    if (args.listAppPermissions) {
+      console.log(
+        JSON.stringify({
+          permissions: buildScopesFromEndpoints(true, true),
+          tools: buildApplicationPermissionsReport(),
+        })
+      );
+      process.exit(0);
+    }
+
+    if (args.migrateSkills) {
+      const source = new SkillStorage(
+        typeof args.migrateSkills === 'string' ? args.migrateSkills : undefined
+      );
+      const target = await createSkillStore('sqlite', args.skillStorePath);
+      const result = await migrateSkills(source, target);
+      console.log(JSON.stringify(result));
+      process.exit(0);
+    }
+
+    if (args.exportSkills) {
+      const store = await createSkillStore(
+        args.skillStore as SkillStoreBackend | undefined,
+        args.skillStorePath
+      );
+      const bundle = await exportSkills(store, { includePrivate: args.includePrivate });
+      await writeSkillBundle(bundle, args.exportSkills);
+      console.log(JSON.stringify({ path: args.exportSkills, skills: bundle.manifest.skills }));
+      process.exit(0);
+    }
+
+    if (
+      args.appOnly &&
+      (args.login || args.logout || args.listAccounts || args.selectAccount || args.removeAccount)
+    ) {
+      console.log(
+        JSON.stringify({ error: 'Interactive account commands are not available in app-only mode' })
+      );
+      process.exit(1);
+    }
+
+    let scopes: string[];
+    try {
+      scopes = args.scopesProfile
+        ? buildScopesFromProfile(args.scopesProfile, includeWorkScopes)
+        : buildScopesFromEndpoints(includeWorkScopes);
+    } catch (error) {
+      console.log(JSON.stringify({ error: (error as Error).message }));
+      process.exit(1);
+    }
+    const authManager = new AuthManager(
+      undefined,
+      scopes,
+      loadTokenCacheOptions(args.tokenCacheDir)
+    );
+
+    if (args.importSkills) {
+      const onConflict = (args.onConflict ?? 'skip') as SkillConflictResolution;
+      if (!['skip', 'rename', 'overwrite'].includes(onConflict)) {
+        console.log(JSON.stringify({ error: `Unknown --on-conflict mode: ${onConflict}` }));
+        process.exit(1);
+      }
+
+      const store = await createSkillStore(
+        args.skillStore as SkillStoreBackend | undefined,
+        args.skillStorePath
+      );
+      // Load built-ins first so bundled skills cannot take their names
+      await store.init();
+      await loadBuiltinSkills(store);
+      const bundle = await readSkillBundle(args.importSkills);
+      // Bundled tests run against their mocks, so no login is needed
+      const result = await importSkills(store, bundle, new GraphClient(authManager), {
+        onConflict,
+      });
+      console.log(JSON.stringify(result));
+      process.exit(0);
+    }
+
+    if (args.testSkill) {
+      const store = await createSkillStore(
+        args.skillStore as SkillStoreBackend | undefined,
+        args.skillStorePath
+      );
+      await store.init();
+      await loadBuiltinSkills(store);
+
+      let skills = (await store.list()).filter((skill) => skill.tests?.length);
+      if (typeof args.testSkill === 'string') {
+        const skill = (await store.get(args.testSkill)) ?? (await store.getByName(args.testSkill));
+        if (!skill) {
+          console.log(JSON.stringify({ error: `Skill not found: ${args.testSkill}` }));
+          process.exit(1);
+        }
+        skills = [skill];
+      }
+
+      // Every m365 call is answered from the test mocks, so no login is needed
+      const graphClient = new GraphClient(authManager);
+      const reports: SkillTestReport[] = [];
+      for (const skill of skills) {
+        reports.push(await runSkillTests(skill, graphClient));
+      }
+      console.log(JSON.stringify({ reports }));
+      process.exit(reports.every((report) => report.passed) ? 0 : 1);
+    }
+
+    if (args.appOnly) {
+      authManager.enableAppOnlyMode();
+      logger.info(
+        `App-only mode enabled. Required application permissions: ${buildScopesFromEndpoints(true, true).join(', ')}`
+      );
+    } else {
+      await authManager.loadTokenCache();
+    }
 
     if (args.login) {
       await authManager.acquireTokenByDeviceCode();
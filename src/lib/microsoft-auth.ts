@@ -1,38 +1,378 @@
 import { Request, Response, NextFunction } from 'express';
+import { createHash, createPublicKey, verify, type JsonWebKey, type KeyObject } from 'crypto';
+import { readFile } from 'fs/promises';
 import logger from '../logger.js';
 
+// Tenants that stand for "any tenant" in authority URLs
+const MULTI_TENANT_IDS = ['common', 'organizations', 'consumers'];
+
+// Signing keys are re-read this often, and at most this often when an unknown key id shows up
+const JWKS_CACHE_TTL = 24 * 60 * 60 * 1000;
+const JWKS_REFRESH_INTERVAL = 5 * 60 * 1000;
+
+// Allowed clock skew between Entra and this server, in seconds
+const CLOCK_TOLERANCE = 60;
+
+// Exchanged Graph tokens are dropped this long before they expire, and at most this many are kept
+const GRAPH_TOKEN_EXPIRY_MARGIN = 60 * 1000;
+const MAX_CACHED_GRAPH_TOKENS = 1000;
+
+export interface TokenValidationOptions {
+  audiences: string[];
+  allowedTenants?: string[]; // Any tenant when empty
+  requiredScopes?: string[]; // Every one of these must be in scp or roles
+  jwksPath?: string; // Read signing keys from this file instead of Entra
+  jwksUri?: string;
+}
+
+export interface MicrosoftTokenClaims {
+  oid?: string;
+  tid?: string;
+  upn?: string;
+  appId?: string;
+  scopes: string[];
+  expiresAt: number; // seconds since the epoch
+  claims: Record<string, unknown>;
+}
+
+interface MicrosoftAuth {
+  accessToken: string;
+  refreshToken: string;
+  claims?: MicrosoftTokenClaims;
+}
+
+interface JsonWebKeySet {
+  keys: (JsonWebKey & { kid?: string; use?: string })[];
+}
+
 /**
- * Microsoft Bearer Token Auth Middleware validates that the request has a valid Microsoft access token
- * The token is passed in the Authorization header as a Bearer token
+ * Thrown for tokens that fail validation; `status` is the HTTP status to answer with
  */
-export const microsoftBearerTokenAuthMiddleware = (
-  req: Request & { microsoftAuth?: { accessToken: string; refreshToken: string } },
-  res: Response,
-  next: NextFunction
-): void => {
-  const authHeader = req.headers.authorization;
-
-  if (!authHeader || !authHeader.startsWith('Bearer ')) {
-    res.status(401).json({ error: 'Missing or invalid access token' });
-    return;
+export class TokenValidationError extends Error {
+  constructor(
+    message: string,
+    public status: 401 | 403 = 401
+  ) {
+    super(message);
+    this.name = 'TokenValidationError';
   }
+}
 
-  const accessToken = authHeader.substring(7);
+/**
+ * Thrown when the signing keys cannot be loaded, so no token can be checked; answered with 503
+ * rather than 401 since the caller's credentials may well be fine
+ */
+export class SigningKeysUnavailableError extends Error {
+  status = 503 as const;
 
-  // For Microsoft Graph, we don't validate the token here - we'll let the API calls fail if it's invalid
-  // and handle token refresh in the GraphClient
+  constructor(message: string) {
+    super(message);
+    this.name = 'SigningKeysUnavailableError';
+  }
+}
+
+/**
+ * Token validation settings from the environment. The audience defaults to the server's own
+ * app registration, and the tenant allowlist to MS365_MCP_TENANT_ID unless that is multi-tenant.
+ * Graph tokens, including those of the built-in OAuth flow, cannot be validated by third parties
+ * and are never accepted.
+ */
+export function loadTokenValidationOptions(jwksPath?: string): TokenValidationOptions {
+  const list = (value: string | undefined) =>
+    (value || '')
+      .split(/[\s,]+/)
+      .map((item) => item.trim())
+      .filter(Boolean);
 
-  // Extract refresh token from a custom header (if provided)
-  const refreshToken = (req.headers['x-microsoft-refresh-token'] as string) || '';
+  const clientId = process.env.MS365_MCP_CLIENT_ID || '084a3e9f-a9f4-43f7-89f9-d229cf97853e';
+  const tenantId = process.env.MS365_MCP_TENANT_ID || 'common';
+  const audiences = list(process.env.MS365_MCP_TOKEN_AUDIENCE);
+  const allowedTenants = list(process.env.MS365_MCP_ALLOWED_TENANTS);
 
-  // Store tokens in request for later use
-  req.microsoftAuth = {
-    accessToken,
-    refreshToken,
+  return {
+    audiences: audiences.length > 0 ? audiences : [clientId, `api://${clientId}`],
+    allowedTenants:
+      allowedTenants.length > 0 || MULTI_TENANT_IDS.includes(tenantId)
+        ? allowedTenants
+        : [tenantId],
+    requiredScopes: list(process.env.MS365_MCP_REQUIRED_SCOPES),
+    jwksPath: jwksPath || process.env.MS365_MCP_JWKS_FILE || undefined,
+    jwksUri: `https://login.microsoftonline.com/${tenantId}/discovery/v2.0/keys`,
   };
+}
 
-  next();
-};
+function decodeSegment(segment: string, name: string): Record<string, unknown> {
+  try {
+    const value = JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      return value;
+    }
+  } catch {
+    // Reported below
+  }
+  throw new TokenValidationError(`Malformed token ${name}`);
+}
+
+/**
+ * Validates Entra ID access tokens locally: RS256 signature against the tenant's JWKS keys,
+ * issuer, audience, tenant allowlist, expiry and required scopes. Keys are cached, so validating
+ * a token needs no network round trip once the keys are loaded.
+ */
+export class MicrosoftTokenValidator {
+  private keys = new Map<string, KeyObject>();
+  private loadedAt = 0;
+  private loading: Promise<void> | null = null;
+
+  constructor(private options: TokenValidationOptions) {}
+
+  async validate(token: string): Promise<MicrosoftTokenClaims> {
+    const segments = token.split('.');
+    if (segments.length !== 3) {
+      throw new TokenValidationError('Access token is not a JWT');
+    }
+
+    const header = decodeSegment(segments[0], 'header');
+    const payload = decodeSegment(segments[1], 'payload');
+
+    if (header.alg !== 'RS256') {
+      throw new TokenValidationError(`Unsupported token algorithm: ${String(header.alg)}`);
+    }
+
+    const key = await this.getKey(String(header.kid));
+    const signed = verify(
+      'RSA-SHA256',
+      Buffer.from(`${segments[0]}.${segments[1]}`),
+      key,
+      Buffer.from(segments[2], 'base64url')
+    );
+    if (!signed) {
+      throw new TokenValidationError('Invalid token signature');
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    if (typeof payload.exp !== 'number' || payload.exp + CLOCK_TOLERANCE < now) {
+      throw new TokenValidationError('Access token has expired');
+    }
+    if (typeof payload.nbf === 'number' && payload.nbf - CLOCK_TOLERANCE > now) {
+      throw new TokenValidationError('Access token is not valid yet');
+    }
+
+    const tid = typeof payload.tid === 'string' ? payload.tid : undefined;
+    const issuers = tid
+      ? [`https://login.microsoftonline.com/${tid}/v2.0`, `https://sts.windows.net/${tid}/`]
+      : [];
+    if (!issuers.includes(payload.iss as string)) {
+      throw new TokenValidationError(`Untrusted token issuer: ${String(payload.iss)}`);
+    }
+
+    const { allowedTenants = [], requiredScopes = [] } = this.options;
+    if (allowedTenants.length > 0 && !allowedTenants.includes(tid!)) {
+      throw new TokenValidationError(`Tenant ${tid} is not allowed`);
+    }
+
+    const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+    if (!audiences.some((aud) => this.options.audiences.includes(aud as string))) {
+      throw new TokenValidationError(`Token audience ${String(payload.aud)} is not accepted`);
+    }
+
+    const scopes = [
+      ...(typeof payload.scp === 'string' ? payload.scp.split(' ') : []),
+      ...(Array.isArray(payload.roles) ? (payload.roles as string[]) : []),
+    ];
+    const missing = requiredScopes.filter((scope) => !scopes.includes(scope));
+    if (missing.length > 0) {
+      throw new TokenValidationError(`Token lacks required scopes: ${missing.join(', ')}`, 403);
+    }
+
+    return {
+      oid: payload.oid as string | undefined,
+      tid,
+      upn: (payload.upn ?? payload.preferred_username) as string | undefined,
+      appId: (payload.azp ?? payload.appid) as string | undefined,
+      scopes,
+      expiresAt: payload.exp,
+      claims: payload,
+    };
+  }
+
+  private async getKey(kid: string): Promise<KeyObject> {
+    if (this.keys.size === 0 || Date.now() - this.loadedAt > JWKS_CACHE_TTL) {
+      await this.loadKeys();
+    } else if (!this.keys.has(kid) && Date.now() - this.loadedAt > JWKS_REFRESH_INTERVAL) {
+      // Entra rotates its signing keys; pick up new ones, but not on every unknown kid
+      await this.loadKeys();
+    }
+
+    const key = this.keys.get(kid);
+    if (!key) {
+      throw new TokenValidationError(`Unknown token signing key: ${kid}`);
+    }
+    return key;
+  }
+
+  private loadKeys(): Promise<void> {
+    // Concurrent requests share one load
+    this.loading ??= this.fetchKeySet()
+      .then((keySet) => {
+        const keys = new Map<string, KeyObject>();
+        for (const jwk of keySet.keys || []) {
+          if (jwk.kid && jwk.kty === 'RSA' && (!jwk.use || jwk.use === 'sig')) {
+            keys.set(jwk.kid, createPublicKey({ key: jwk, format: 'jwk' }));
+          }
+        }
+        this.keys = keys;
+        this.loadedAt = Date.now();
+        logger.info(`Loaded ${keys.size} token signing keys`);
+      })
+      .catch((error) => {
+        throw new SigningKeysUnavailableError(
+          `Token signing keys could not be loaded: ${(error as Error).message}`
+        );
+      })
+      .finally(() => {
+        this.loading = null;
+      });
+    return this.loading;
+  }
+
+  private async fetchKeySet(): Promise<JsonWebKeySet> {
+    if (this.options.jwksPath) {
+      return JSON.parse(await readFile(this.options.jwksPath, 'utf8'));
+    }
+
+    const response = await fetch(this.options.jwksUri!);
+    if (!response.ok) {
+      throw new Error(`Failed to load token signing keys: ${response.status}`);
+    }
+    return response.json();
+  }
+}
+
+export interface OnBehalfOfOptions {
+  clientId: string;
+  clientSecret: string;
+  tenantId: string; // Used when a token carries no tid claim
+  scope?: string;
+}
+
+/**
+ * Exchanges validated tokens for the server's API for Graph tokens with the on-behalf-of flow,
+ * since Graph only accepts tokens issued for Graph. Exchanged tokens are cached per incoming
+ * token until shortly before they expire.
+ */
+export class OnBehalfOfTokenExchanger {
+  private cache = new Map<string, { accessToken: string; expiresAt: number }>();
+
+  constructor(private options: OnBehalfOfOptions) {}
+
+  async getGraphToken(assertion: string, tenantId?: string): Promise<string> {
+    const key = createHash('sha256').update(assertion).digest('hex');
+    const cached = this.cache.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.accessToken;
+    }
+
+    const { clientId, clientSecret, scope = 'https://graph.microsoft.com/.default' } = this.options;
+    const result = await exchangeTokenOnBehalfOf(
+      assertion,
+      clientId,
+      clientSecret,
+      tenantId || this.options.tenantId,
+      scope
+    );
+
+    const now = Date.now();
+    for (const [cachedKey, entry] of this.cache) {
+      if (entry.expiresAt <= now) {
+        this.cache.delete(cachedKey);
+      }
+    }
+    if (this.cache.size >= MAX_CACHED_GRAPH_TOKENS) {
+      // Maps keep insertion order, so this drops the oldest entry
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+    this.cache.set(key, {
+      accessToken: result.access_token,
+      expiresAt: now + result.expires_in * 1000 - GRAPH_TOKEN_EXPIRY_MARGIN,
+    });
+    return result.access_token;
+  }
+}
+
+/**
+ * Creates middleware that requires a Microsoft access token in the Authorization header as a
+ * Bearer token. With a validator the token is checked locally and its claims are attached to
+ * the request; without one, invalid tokens only fail once Graph rejects them. With an exchanger
+ * a validated token is swapped for a Graph token, which is what tools then call Graph with.
+ */
+export function createMicrosoftBearerTokenAuthMiddleware(
+  validator?: MicrosoftTokenValidator,
+  exchanger?: OnBehalfOfTokenExchanger
+) {
+  return async (
+    req: Request & { microsoftAuth?: MicrosoftAuth },
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    const authHeader = req.headers.authorization;
+
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      res.status(401).json({ error: 'Missing or invalid access token' });
+      return;
+    }
+
+    let accessToken = authHeader.substring(7);
+
+    // Extract refresh token from a custom header (if provided)
+    let refreshToken = (req.headers['x-microsoft-refresh-token'] as string) || '';
+
+    let claims: MicrosoftTokenClaims | undefined;
+    if (validator) {
+      try {
+        claims = await validator.validate(accessToken);
+        if (exchanger) {
+          accessToken = await exchanger.getGraphToken(accessToken, claims.tid);
+          // A refresh token for the server's API cannot renew the exchanged Graph token
+          refreshToken = '';
+        }
+      } catch (error) {
+        const message = (error as Error).message;
+        if (!(error instanceof TokenValidationError)) {
+          // The token was not judged, so do not tell the client to get a new one
+          logger.error(`Could not validate access token: ${message}`);
+          const unavailable = error instanceof SigningKeysUnavailableError;
+          res.status(unavailable ? 503 : 500).json({
+            error: unavailable ? 'temporarily_unavailable' : 'server_error',
+            error_description: unavailable ? message : 'Access token could not be processed',
+          });
+          return;
+        }
+
+        const status = error.status;
+        logger.warn(`Rejected access token: ${message}`);
+        const code = status === 403 ? 'insufficient_scope' : 'invalid_token';
+        res.setHeader('WWW-Authenticate', `Bearer error="${code}"`);
+        res.status(status).json({ error: code, error_description: message });
+        return;
+      }
+    }
+
+    // Store tokens in request for later use
+    req.microsoftAuth = {
+      accessToken,
+      refreshToken,
+      claims,
+    };
+
+    next();
+  };
+}
+
+/**
+ * Microsoft Bearer Token Auth Middleware without local validation; the token is passed on to
+ * Graph as-is and token refresh is handled in the GraphClient
+ */
+export const microsoftBearerTokenAuthMiddleware = createMicrosoftBearerTokenAuthMiddleware();
 
 /**
  * Exchange authorization code for access token
@@ -117,3 +457,53 @@ export async function refreshAccessToken(
 
   return response.json();
 }
+
+/**
+ * Exchange an access token for the server's API for a token for another resource (on-behalf-of
+ * flow). A rejected assertion, for example one the user never consented for, is reported as a
+ * TokenValidationError so the client is asked for a new token.
+ */
+export async function exchangeTokenOnBehalfOf(
+  assertion: string,
+  clientId: string,
+  clientSecret: string,
+  tenantId: string,
+  scope: string
+): Promise<{
+  access_token: string;
+  token_type: string;
+  scope: string;
+  expires_in: number;
+}> {
+  const response = await fetch(`https://login.microsoftonline.com/${tenantId}/oauth2/v2.0/token`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: new URLSearchParams({
+      grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
+      assertion,
+      requested_token_use: 'on_behalf_of',
+      scope,
+      client_id: clientId,
+      client_secret: clientSecret,
+    }),
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    logger.error(`Failed to exchange token on behalf of the caller: ${error}`);
+    if (response.status === 400) {
+      let description = error;
+      try {
+        description = JSON.parse(error).error_description || error;
+      } catch {
+        // Not JSON; report the raw body
+      }
+      throw new TokenValidationError(`Token could not be exchanged for Graph: ${description}`);
+    }
+    throw new Error(`Failed to exchange token on behalf of the caller: ${error}`);
+  }
+
+  return response.json();
+}
@@ -1,12 +1,36 @@
 import { ProxyOAuthServerProvider } from '@modelcontextprotocol/sdk/server/auth/providers/proxyProvider.js';
 import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import {
+  InsufficientScopeError,
+  InvalidTokenError,
+  ServerError,
+} from '@modelcontextprotocol/sdk/server/auth/errors.js';
 import logger from './logger.js';
 import AuthManager from './auth.js';
+import { TokenValidationError, type MicrosoftTokenValidator } from './lib/microsoft-auth.js';
+import type { ClientRegistry } from './client-registry.js';
+
+/**
+ * Maps validation failures onto the OAuth errors the SDK's bearer auth middleware answers with
+ * 401, 403 or 500; anything else would escape its status mapping
+ */
+function toOAuthError(error: unknown): Error {
+  if (error instanceof TokenValidationError) {
+    return error.status === 403
+      ? new InsufficientScopeError(error.message)
+      : new InvalidTokenError(error.message);
+  }
+  return new ServerError((error as Error).message);
+}
 
 export class MicrosoftOAuthProvider extends ProxyOAuthServerProvider {
   private authManager: AuthManager;
 
-  constructor(authManager: AuthManager) {
+  constructor(
+    authManager: AuthManager,
+    clientRegistry: ClientRegistry,
+    validator?: MicrosoftTokenValidator
+  ) {
     const tenantId = process.env.MS365_MCP_TENANT_ID || 'common';
     const clientId = process.env.MS365_MCP_CLIENT_ID || '084a3e9f-a9f4-43f7-89f9-d229cf97853e';
 
@@ -17,6 +41,20 @@ export class MicrosoftOAuthProvider extends ProxyOAuthServerProvider {
         revocationUrl: `https://login.microsoftonline.com/${tenantId}/oauth2/v2.0/logout`,
       },
       verifyAccessToken: async (token: string): Promise<AuthInfo> => {
+        // Validate locally when configured instead of calling Graph for every verification
+        if (validator) {
+          const claims = await validator.validate(token).catch((error) => {
+            throw toOAuthError(error);
+          });
+          return {
+            token,
+            clientId: claims.appId || clientId,
+            scopes: claims.scopes,
+            expiresAt: claims.expiresAt,
+            extra: { oid: claims.oid, tid: claims.tid, upn: claims.upn },
+          };
+        }
+
         try {
           const response = await fetch('https://graph.microsoft.com/v1.0/me', {
             headers: {
@@ -28,27 +66,25 @@ export class MicrosoftOAuthProvider extends ProxyOAuthServerProvider {
             const userData = await response.json();
             logger.info(`OAuth token verified for user: ${userData.userPrincipalName}`);
 
-            await authManager.setOAuthToken(token);
+            // Tokens are scoped per request by GraphClient.runWithTokens; storing the token on
+            // the shared AuthManager here would leak it to every other HTTP user.
 
             return {
               token,
               clientId,
               scopes: [],
             };
+          } else if (response.status === 401) {
+            throw new TokenValidationError(`Token verification failed: ${response.status}`);
           } else {
             throw new Error(`Token verification failed: ${response.status}`);
           }
         } catch (error) {
           logger.error(`OAuth token verification error: ${error}`);
-          throw error;
+          throw toOAuthError(error);
         }
       },
-      getClient: async (client_id: string) => {
-        return {
-          client_id,
-          redirect_uris: ['http://localhost:3000/callback'],
-        };
-      },
+      getClient: async (client_id: string) => clientRegistry.get(client_id),
     });
 
     this.authManager = authManager;
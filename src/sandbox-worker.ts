@@ -0,0 +1,185 @@
+import { parentPort, workerData } from 'worker_threads';
+import { Script, createContext } from 'vm';
+
+export type SandboxLogLevel = 'log' | 'info' | 'warn' | 'error';
+
+export interface SandboxWorkerData {
+  code: string;
+  methods: string[]; // dotted m365 client paths, e.g. "mail.list"
+  skills: boolean; // Whether skills.run is available
+  timeout: number;
+}
+
+export type SandboxWorkerMessage =
+  | { type: 'call'; id: number; method: string; args: unknown[]; account?: string }
+  | { type: 'runSkill'; id: number; nameOrId: unknown; params: unknown }
+  | { type: 'log'; level: SandboxLogLevel; message: string; timestamp: string }
+  | { type: 'done'; result: unknown }
+  | { type: 'failed'; message: string; stack?: string };
+
+export type SandboxParentMessage =
+  | { type: 'result'; id: number; value: unknown }
+  | { type: 'error'; id: number; message: string };
+
+const port = parentPort!;
+const pendingCalls = new Map<
+  number,
+  { resolve: (value: unknown) => void; reject: (e: Error) => void }
+>();
+let nextCallId = 0;
+
+function send(message: SandboxWorkerMessage): void {
+  port.postMessage(message);
+}
+
+// Sends a request to the parent thread and settles with its reply
+function request(message: (id: number) => SandboxWorkerMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const id = ++nextCallId;
+    pendingCalls.set(id, { resolve, reject });
+    send(message(id));
+  });
+}
+
+port.on('message', (message: SandboxParentMessage) => {
+  const pending = pendingCalls.get(message.id);
+  if (!pending) {
+    return;
+  }
+
+  pendingCalls.delete(message.id);
+  if (message.type === 'result') {
+    pending.resolve(message.value);
+  } else {
+    pending.reject(new Error(message.message));
+  }
+});
+
+/**
+ * Builds the sandbox m365 object; every method forwards its call to the parent thread,
+ * which owns the GraphClient and the caller's tokens. m365.as(account) returns the same
+ * object bound to another signed-in account (UPN or homeAccountId).
+ */
+function createM365Proxy(methods: string[], account?: string): Record<string, unknown> {
+  const m365: Record<string, unknown> = {};
+  if (account === undefined) {
+    m365.as = (selected: unknown) => {
+      if (typeof selected !== 'string' || selected === '') {
+        throw new TypeError('m365.as() expects a UPN or home account ID');
+      }
+      return createM365Proxy(methods, selected);
+    };
+  }
+
+  for (const method of methods) {
+    const segments = method.split('.');
+    let target = m365;
+    for (const segment of segments.slice(0, -1)) {
+      target[segment] = target[segment] || {};
+      target = target[segment] as Record<string, unknown>;
+    }
+
+    target[segments[segments.length - 1]] = (...args: unknown[]) =>
+      request((id) => ({ type: 'call', id, method, args, account }));
+  }
+
+  return m365;
+}
+
+function formatLogArgs(args: unknown[]): string {
+  return args
+    .map((arg) => {
+      if (typeof arg === 'string') {
+        return arg;
+      }
+      try {
+        return JSON.stringify(arg) ?? String(arg);
+      } catch {
+        return String(arg);
+      }
+    })
+    .join(' ');
+}
+
+function createConsole(): Record<SandboxLogLevel, (...args: unknown[]) => void> {
+  const log =
+    (level: SandboxLogLevel) =>
+    (...args: unknown[]) =>
+      send({
+        type: 'log',
+        level,
+        message: formatLogArgs(args),
+        timestamp: new Date().toISOString(),
+      });
+
+  return { log: log('log'), info: log('info'), warn: log('warn'), error: log('error') };
+}
+
+async function run(): Promise<void> {
+  const { code, methods, skills, timeout } = workerData as SandboxWorkerData;
+
+  // Create sandbox context with limited globals
+  const sandbox = {
+    m365: createM365Proxy(methods),
+    // Runs another stored skill in its own sandbox, see SkillRunner
+    skills: skills
+      ? {
+          run: (nameOrId: unknown, params?: unknown) =>
+            request((id) => ({ type: 'runSkill', id, nameOrId, params })),
+        }
+      : undefined,
+    console: createConsole(),
+    setTimeout: undefined, // Disable setTimeout
+    setInterval: undefined, // Disable setInterval
+    setImmediate: undefined, // Disable setImmediate
+    process: undefined, // Disable process access
+    require: undefined, // Disable require
+    __dirname: undefined,
+    __filename: undefined,
+    global: undefined,
+    Promise, // Allow Promises
+    Array,
+    Object,
+    String,
+    Number,
+    Boolean,
+    Date,
+    Math,
+    JSON,
+    Set,
+    Map,
+  };
+
+  const context = createContext(sandbox);
+
+  // Wrap code in async function to support await
+  const wrappedCode = `
+    (async function() {
+      ${code}
+    })()
+  `;
+
+  try {
+    const script = new Script(wrappedCode, {
+      filename: 'user-code.js',
+    });
+
+    // The vm timeout only covers synchronous code; the parent terminates the worker
+    // when asynchronous code runs past the deadline
+    const result = await (script.runInContext(context, { timeout }) as Promise<unknown>);
+
+    // Results cross the thread boundary, so reduce them to plain JSON data
+    send({
+      type: 'done',
+      result: result === undefined ? undefined : JSON.parse(JSON.stringify(result)),
+    });
+  } catch (error) {
+    send({
+      type: 'failed',
+      message: (error as Error)?.message ?? String(error),
+      stack: (error as Error)?.stack,
+    });
+  }
+}
+
+run();
@@ -1,65 +1,133 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
 import { mcpAuthRouter } from '@modelcontextprotocol/sdk/server/auth/router.js';
 import express, { Request, Response } from 'express';
-import crypto from 'crypto';
+import { createHash } from 'crypto';
 import logger, { enableConsoleLogging } from './logger.js';
 import { registerAuthTools } from './auth-tools.js';
 import { registerGraphTools } from './graph-tools.js';
 import GraphClient from './graph-client.js';
 import AuthManager, { buildScopesFromEndpoints } from './auth.js';
 import { MicrosoftOAuthProvider } from './oauth-provider.js';
+import { SessionManager } from './session-manager.js';
+import { createSkillStore } from './skills-storage.js';
+import type { SkillStore, SkillStoreBackend } from './skill-store.js';
+import { SkillScheduler } from './skill-scheduler.js';
 import {
+  createMicrosoftBearerTokenAuthMiddleware,
   exchangeCodeForToken,
-  microsoftBearerTokenAuthMiddleware,
+  loadTokenValidationOptions,
+  MicrosoftTokenClaims,
+  MicrosoftTokenValidator,
+  OnBehalfOfTokenExchanger,
   refreshAccessToken,
 } from './lib/microsoft-auth.js';
+import { ClientRegistrationError, ClientRegistry } from './client-registry.js';
 import type { CommandOptions } from './cli.ts';
 
-// Store registered clients in memory (in production, use a database)
-interface RegisteredClient {
-  client_id: string;
-  client_name: string;
-  redirect_uris: string[];
-  grant_types: string[];
-  response_types: string[];
-  scope?: string;
-  token_endpoint_auth_method: string;
-  created_at: number;
+/**
+ * Identifies the caller a session is bound to: the user of a validated token, otherwise the
+ * token itself, since unvalidated claims could be forged. Without validation a client has to
+ * start a new session once its token is refreshed.
+ */
+function sessionPrincipal(auth?: {
+  accessToken: string;
+  claims?: MicrosoftTokenClaims;
+}): string | undefined {
+  if (!auth) {
+    return undefined;
+  }
+  if (auth.claims?.oid) {
+    return `oid:${auth.claims.oid}`;
+  }
+  return `token:${createHash('sha256').update(auth.accessToken).digest('hex')}`;
 }
 
-const registeredClients = new Map<string, RegisteredClient>();
-
 class MicrosoftGraphServer {
   private authManager: AuthManager;
   private options: CommandOptions;
   private graphClient: GraphClient;
   private server: McpServer | null;
+  private skillStore: SkillStore | undefined;
+  private skillScheduler: SkillScheduler | undefined;
+  private version: string;
 
   constructor(authManager: AuthManager, options: CommandOptions = {}) {
     this.authManager = authManager;
     this.options = options;
     this.graphClient = new GraphClient(authManager);
     this.server = null;
+    this.version = '0.0.0';
   }
 
   async initialize(version: string): Promise<void> {
-    this.server = new McpServer({
-      name: 'Microsoft365MCP',
-      version,
-    });
+    this.version = version;
+    // One store shared by every MCP server instance (HTTP sessions each get their own)
+    this.skillStore = await createSkillStore(
+      this.options.skillStore as SkillStoreBackend | undefined,
+      this.options.skillStorePath
+    );
+    this.skillScheduler = new SkillScheduler(
+      this.skillStore,
+      this.graphClient,
+      undefined,
+      this.options.readOnly,
+      this.options.appOnly
+    );
+    this.server = await this.createMcpServer();
+  }
+
+  /**
+   * Creates an McpServer with all tools registered. Stdio uses a single instance, while HTTP
+   * mode creates one per session.
+   */
+  private async createMcpServer(): Promise<McpServer> {
+    const server = new McpServer(
+      {
+        name: 'Microsoft365MCP',
+        version: this.version,
+      },
+      // Logging lets code execution stream sandbox console output to the client
+      { capabilities: { logging: {} } }
+    );
 
-    const shouldRegisterAuthTools = !this.options.http || this.options.enableAuthTools;
+    const shouldRegisterAuthTools =
+      !this.options.appOnly && (!this.options.http || this.options.enableAuthTools);
     if (shouldRegisterAuthTools) {
-      registerAuthTools(this.server, this.authManager);
+      registerAuthTools(server, this.authManager);
     }
     await registerGraphTools(
-      this.server,
+      server,
       this.graphClient,
       this.options.readOnly,
       this.options.enabledTools,
-      this.options.orgMode
+      this.options.orgMode,
+      this.options.appOnly,
+      this.options.lazyTools,
+      this.options.skillsAsTools,
+      this.skillStore,
+      this.skillScheduler
+    );
+
+    return server;
+  }
+
+  /**
+   * Runs an MCP request with the caller's bearer tokens scoped to it, so tool calls made while
+   * serving one HTTP user can never pick up another user's tokens. With token validation the
+   * access token is the Graph token the middleware exchanged the caller's token for.
+   */
+  private handleWithRequestTokens<T>(
+    req: Request & { microsoftAuth?: { accessToken: string; refreshToken: string } },
+    handler: () => Promise<T>
+  ): Promise<T> {
+    if (!req.microsoftAuth) {
+      return handler();
+    }
+    return this.graphClient.runWithTokens(
+      req.microsoftAuth.accessToken,
+      req.microsoftAuth.refreshToken,
+      handler
     );
   }
 
@@ -86,6 +154,12 @@ class MicrosoftGraphServer {
       logger.info('Server running in READ-ONLY mode. Write operations are disabled.');
     }
 
+    if (this.options.disableScheduler) {
+      logger.info('Skill scheduler disabled, scheduled skills will not run');
+    } else {
+      await this.skillScheduler!.start();
+    }
+
     if (this.options.http) {
       const port = typeof this.options.http === 'string' ? parseInt(this.options.http) : 3000;
 
@@ -100,8 +174,9 @@ class MicrosoftGraphServer {
         res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
         res.header(
           'Access-Control-Allow-Headers',
-          'Origin, X-Requested-With, Content-Type, Accept, Authorization, mcp-protocol-version'
+          'Origin, X-Requested-With, Content-Type, Accept, Authorization, mcp-protocol-version, mcp-session-id, last-event-id'
         );
+        res.header('Access-Control-Expose-Headers', 'mcp-session-id');
 
         // Handle preflight requests
         if (req.method === 'OPTIONS') {
@@ -112,7 +187,42 @@ class MicrosoftGraphServer {
         next();
       });
 
-      const oauthProvider = new MicrosoftOAuthProvider(this.authManager);
+      // Bearer tokens are checked locally before any tool runs when validation is enabled
+      const tokenValidator = this.options.validateTokens
+        ? new MicrosoftTokenValidator(loadTokenValidationOptions(this.options.jwksFile))
+        : undefined;
+      let tokenExchanger: OnBehalfOfTokenExchanger | undefined;
+      if (tokenValidator) {
+        // Validated tokens are for this server's API, so tools call Graph with a token
+        // exchanged on behalf of the caller, which needs the confidential client's secret
+        const clientSecret = process.env.MS365_MCP_CLIENT_SECRET;
+        if (!clientSecret) {
+          throw new Error(
+            'Token validation needs MS365_MCP_CLIENT_SECRET to exchange tokens for Graph tokens'
+          );
+        }
+        tokenExchanger = new OnBehalfOfTokenExchanger({
+          clientId: process.env.MS365_MCP_CLIENT_ID || '084a3e9f-a9f4-43f7-89f9-d229cf97853e',
+          clientSecret,
+          tenantId: process.env.MS365_MCP_TENANT_ID || 'common',
+        });
+        logger.info('Validating bearer tokens against Entra ID signing keys');
+        logger.warn(
+          "Tokens from the built-in /authorize and /token endpoints are Graph tokens and fail validation; clients need a token for this server's API"
+        );
+      }
+      const microsoftBearerTokenAuthMiddleware = createMicrosoftBearerTokenAuthMiddleware(
+        tokenValidator,
+        tokenExchanger
+      );
+
+      // Dynamically registered OAuth clients; /authorize and /token only serve these
+      const clientRegistry = new ClientRegistry();
+      const oauthProvider = new MicrosoftOAuthProvider(
+        this.authManager,
+        clientRegistry,
+        tokenValidator
+      );
 
       // OAuth Authorization Server Discovery
       app.get('/.well-known/oauth-authorization-server', async (req, res) => {
@@ -151,35 +261,51 @@ class MicrosoftGraphServer {
         });
       });
 
-      // Dynamic Client Registration endpoint
+      // Dynamic Client Registration endpoint (RFC 7591)
       app.post('/register', async (req, res) => {
-        const body = req.body;
-
-        // Generate a client ID
-        const clientId = crypto.randomUUID();
-
-        // Store the client registration
-        registeredClients.set(clientId, {
-          client_id: clientId,
-          client_name: body.client_name || 'MCP Client',
-          redirect_uris: body.redirect_uris || [],
-          grant_types: body.grant_types || ['authorization_code', 'refresh_token'],
-          response_types: body.response_types || ['code'],
-          scope: body.scope,
-          token_endpoint_auth_method: 'none',
-          created_at: Date.now(),
-        });
+        try {
+          const { client, registrationAccessToken } = await clientRegistry.register(req.body);
+          const protocol = req.secure ? 'https' : 'http';
 
-        // Return the client registration response
-        res.status(201).json({
-          client_id: clientId,
-          client_name: body.client_name || 'MCP Client',
-          redirect_uris: body.redirect_uris || [],
-          grant_types: body.grant_types || ['authorization_code', 'refresh_token'],
-          response_types: body.response_types || ['code'],
-          scope: body.scope,
-          token_endpoint_auth_method: 'none',
-        });
+          res.status(201).json({
+            ...client,
+            registration_access_token: registrationAccessToken,
+            registration_client_uri: `${protocol}://${req.get('host')}/register/${client.client_id}`,
+          });
+        } catch (error) {
+          if (error instanceof ClientRegistrationError) {
+            res.status(400).json({ error: error.code, error_description: error.message });
+            return;
+          }
+          logger.error('Client registration error:', error);
+          res.status(500).json({
+            error: 'server_error',
+            error_description: 'Internal server error during client registration',
+          });
+        }
+      });
+
+      // Client deletion with the registration access token (RFC 7592)
+      app.delete('/register/:clientId', async (req, res) => {
+        const authHeader = req.headers.authorization;
+        const token = authHeader?.startsWith('Bearer ') ? authHeader.substring(7) : '';
+
+        try {
+          if (token && (await clientRegistry.delete(req.params.clientId, token))) {
+            res.sendStatus(204);
+            return;
+          }
+          res.status(401).json({
+            error: 'invalid_token',
+            error_description: 'Unknown client or invalid registration access token',
+          });
+        } catch (error) {
+          logger.error('Client deletion error:', error);
+          res.status(500).json({
+            error: 'server_error',
+            error_description: 'Internal server error during client deletion',
+          });
+        }
       });
 
       // Authorization endpoint - redirects to Microsoft
@@ -191,10 +317,29 @@ class MicrosoftGraphServer {
           `https://login.microsoftonline.com/${tenantId}/oauth2/v2.0/authorize`
         );
 
+        // Never redirect to a URI the client did not register; answer here instead
+        const client = await clientRegistry.get(url.searchParams.get('client_id') || '');
+        if (!client) {
+          res.status(400).json({
+            error: 'invalid_client',
+            error_description: 'Unknown or expired client_id',
+          });
+          return;
+        }
+        const redirectUri =
+          url.searchParams.get('redirect_uri') ||
+          (client.redirect_uris.length === 1 ? client.redirect_uris[0] : '');
+        if (!clientRegistry.isRedirectUriAllowed(client, redirectUri)) {
+          res.status(400).json({
+            error: 'invalid_request',
+            error_description: 'redirect_uri is not registered for this client',
+          });
+          return;
+        }
+
         // Only forward parameters that Microsoft OAuth 2.0 v2.0 supports
         const allowedParams = [
           'response_type',
-          'redirect_uri',
           'scope',
           'state',
           'response_mode',
@@ -214,6 +359,7 @@ class MicrosoftGraphServer {
 
         // Use our Microsoft app's client_id
         microsoftAuthUrl.searchParams.set('client_id', clientId);
+        microsoftAuthUrl.searchParams.set('redirect_uri', redirectUri);
 
         // Ensure we have the minimal required scopes if none provided
         if (!microsoftAuthUrl.searchParams.get('scope')) {
@@ -259,7 +405,27 @@ class MicrosoftGraphServer {
             return;
           }
 
+          // Codes and refresh tokens are only redeemed for registered clients
+          const client = body.client_id
+            ? await clientRegistry.get(body.client_id as string)
+            : undefined;
+          if (!client) {
+            res.status(401).json({
+              error: 'invalid_client',
+              error_description: 'Unknown or expired client_id',
+            });
+            return;
+          }
+
           if (body.grant_type === 'authorization_code') {
+            if (!clientRegistry.isRedirectUriAllowed(client, body.redirect_uri as string)) {
+              res.status(400).json({
+                error: 'invalid_grant',
+                error_description: 'redirect_uri is not registered for this client',
+              });
+              return;
+            }
+
             const tenantId = process.env.MS365_MCP_TENANT_ID || 'common';
             const clientId =
               process.env.MS365_MCP_CLIENT_ID || '084a3e9f-a9f4-43f7-89f9-d229cf97853e';
@@ -282,6 +448,7 @@ class MicrosoftGraphServer {
               tenantId,
               body.code_verifier as string | undefined
             );
+            await clientRegistry.markUsed(client.client_id);
             res.json(result);
           } else if (body.grant_type === 'refresh_token') {
             const tenantId = process.env.MS365_MCP_TENANT_ID || 'common';
@@ -304,6 +471,7 @@ class MicrosoftGraphServer {
               clientSecret,
               tenantId
             );
+            await clientRegistry.markUsed(client.client_id);
             res.json(result);
           } else {
             res.status(400).json({
@@ -327,91 +495,58 @@ class MicrosoftGraphServer {
         })
       );
 
-      // Microsoft Graph MCP endpoints with bearer token auth
-      // Handle both GET and POST methods as required by MCP Streamable HTTP specification
-      app.get(
-        '/mcp',
-        microsoftBearerTokenAuthMiddleware,
-        async (
-          req: Request & { microsoftAuth?: { accessToken: string; refreshToken: string } },
-          res: Response
-        ) => {
-          try {
-            // Set OAuth tokens in the GraphClient if available
-            if (req.microsoftAuth) {
-              this.graphClient.setOAuthTokens(
-                req.microsoftAuth.accessToken,
-                req.microsoftAuth.refreshToken
-              );
-            }
-
-            const transport = new StreamableHTTPServerTransport({
-              sessionIdGenerator: undefined, // Stateless mode
-            });
+      // Microsoft Graph MCP endpoints with bearer token auth and stateful sessions.
+      // POST carries client messages, GET opens the server-to-client SSE stream and
+      // DELETE terminates the session, as required by the MCP Streamable HTTP specification.
+      const sessionTimeoutMinutes = this.options.sessionTimeout
+        ? Number(this.options.sessionTimeout)
+        : 30;
+      if (!Number.isFinite(sessionTimeoutMinutes) || sessionTimeoutMinutes <= 0) {
+        throw new Error(
+          `Invalid session timeout: ${this.options.sessionTimeout} (expected a positive number of minutes)`
+        );
+      }
+      const sessionManager = new SessionManager(() => this.createMcpServer(), {
+        idleTimeoutMs: sessionTimeoutMinutes * 60 * 1000,
+      });
 
-            res.on('close', () => {
-              transport.close();
+      const handleMcpRequest = async (
+        req: Request & {
+          microsoftAuth?: {
+            accessToken: string;
+            refreshToken: string;
+            claims?: MicrosoftTokenClaims;
+          };
+        },
+        res: Response
+      ) => {
+        try {
+          await this.handleWithRequestTokens(req, () =>
+            sessionManager.handleRequest(
+              req,
+              res,
+              req.method === 'POST' ? req.body : undefined,
+              sessionPrincipal(req.microsoftAuth)
+            )
+          );
+        } catch (error) {
+          logger.error(`Error handling MCP ${req.method} request:`, error);
+          if (!res.headersSent) {
+            res.status(500).json({
+              jsonrpc: '2.0',
+              error: {
+                code: -32603,
+                message: 'Internal server error',
+              },
+              id: null,
             });
-
-            await this.server!.connect(transport);
-            await transport.handleRequest(req as any, res as any, undefined);
-          } catch (error) {
-            logger.error('Error handling MCP GET request:', error);
-            if (!res.headersSent) {
-              res.status(500).json({
-                jsonrpc: '2.0',
-                error: {
-                  code: -32603,
-                  message: 'Internal server error',
-                },
-                id: null,
-              });
-            }
           }
         }
-      );
-
-      app.post(
-        '/mcp',
-        microsoftBearerTokenAuthMiddleware,
-        async (
-          req: Request & { microsoftAuth?: { accessToken: string; refreshToken: string } },
-          res: Response
-        ) => {
-          try {
-            // Set OAuth tokens in the GraphClient if available
-            if (req.microsoftAuth) {
-              this.graphClient.setOAuthTokens(
-                req.microsoftAuth.accessToken,
-                req.microsoftAuth.refreshToken
-              );
-            }
+      };
 
-            const transport = new StreamableHTTPServerTransport({
-              sessionIdGenerator: undefined, // Stateless mode
-            });
-
-            res.on('close', () => {
-              transport.close();
-            });
-
-            await this.server!.connect(transport);
-            await transport.handleRequest(req as any, res as any, req.body);
-          } catch (error) {
-            logger.error('Error handling MCP POST request:', error);
-            if (!res.headersSent) {
-              res.status(500).json({
-                jsonrpc: '2.0',
-                error: {
-                  code: -32603,
-                  message: 'Internal server error',
-                },
-                id: null,
-              });
-            }
-          }
-        }
-      );
+      app.get('/mcp', microsoftBearerTokenAuthMiddleware, handleMcpRequest);
+      app.post('/mcp', microsoftBearerTokenAuthMiddleware, handleMcpRequest);
+      app.delete('/mcp', microsoftBearerTokenAuthMiddleware, handleMcpRequest);
 
       // Health check endpoint
       app.get('/', (req, res) => {
@@ -0,0 +1,235 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+  EventStore,
+  StreamableHTTPServerTransport,
+} from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest, JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import type { Request, Response } from 'express';
+import { randomUUID } from 'crypto';
+import logger from './logger.js';
+
+const SESSION_ID_HEADER = 'mcp-session-id';
+const DEFAULT_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+const DEFAULT_MAX_EVENTS_PER_STREAM = 1000;
+
+interface SessionManagerOptions {
+  idleTimeoutMs?: number;
+  maxEventsPerStream?: number;
+}
+
+interface McpSession {
+  id: string;
+  transport: StreamableHTTPServerTransport;
+  server: McpServer;
+  eventStore: InMemoryEventStore;
+  lastActivity: number;
+  principal?: string; // Who initialized the session; only they may use it
+}
+
+/**
+ * Bounded in-memory event store that lets clients resume SSE streams with Last-Event-ID.
+ * One store is created per session so its history is dropped together with the session.
+ */
+export class InMemoryEventStore implements EventStore {
+  private streams = new Map<string, { eventId: string; message: JSONRPCMessage }[]>();
+  private eventStreams = new Map<string, string>();
+  private counter = 0;
+  private maxEventsPerStream: number;
+
+  constructor(maxEventsPerStream = DEFAULT_MAX_EVENTS_PER_STREAM) {
+    this.maxEventsPerStream = maxEventsPerStream;
+  }
+
+  async storeEvent(streamId: string, message: JSONRPCMessage): Promise<string> {
+    const eventId = `${streamId}_${++this.counter}`;
+    const events = this.streams.get(streamId) || [];
+
+    events.push({ eventId, message });
+    this.eventStreams.set(eventId, streamId);
+
+    // Drop the oldest events once the stream exceeds its budget
+    while (events.length > this.maxEventsPerStream) {
+      const dropped = events.shift()!;
+      this.eventStreams.delete(dropped.eventId);
+    }
+
+    this.streams.set(streamId, events);
+    return eventId;
+  }
+
+  async replayEventsAfter(
+    lastEventId: string,
+    { send }: { send: (eventId: string, message: JSONRPCMessage) => Promise<void> }
+  ): Promise<string> {
+    const streamId = this.eventStreams.get(lastEventId);
+    if (!streamId) {
+      logger.warn(`Cannot resume stream: unknown event ID ${lastEventId}`);
+      return '';
+    }
+
+    const events = this.streams.get(streamId) || [];
+    const index = events.findIndex((event) => event.eventId === lastEventId);
+    for (const event of events.slice(index + 1)) {
+      await send(event.eventId, event.message);
+    }
+
+    return streamId;
+  }
+}
+
+/**
+ * SessionManager - Stateful Streamable HTTP sessions
+ *
+ * Each session owns its own transport and McpServer, keyed by the Mcp-Session-Id header.
+ * POST carries client messages, GET opens the server-to-client SSE stream (resumable through
+ * the session's event store) and DELETE terminates the session. Idle sessions are expired.
+ * A session is bound to the principal that initialized it and is not found for anyone else.
+ */
+export class SessionManager {
+  private sessions = new Map<string, McpSession>();
+  private createServer: () => Promise<McpServer>;
+  private idleTimeoutMs: number;
+  private maxEventsPerStream: number;
+  private expiryTimer: ReturnType<typeof setInterval>;
+
+  constructor(createServer: () => Promise<McpServer>, options: SessionManagerOptions = {}) {
+    this.createServer = createServer;
+    this.idleTimeoutMs = options.idleTimeoutMs ?? DEFAULT_IDLE_TIMEOUT_MS;
+    this.maxEventsPerStream = options.maxEventsPerStream ?? DEFAULT_MAX_EVENTS_PER_STREAM;
+
+    const sweepInterval = Math.max(Math.min(this.idleTimeoutMs / 2, 60 * 1000), 1000);
+    this.expiryTimer = setInterval(() => {
+      this.expireIdleSessions().catch((error) => {
+        logger.error('Failed to expire idle MCP sessions:', error);
+      });
+    }, sweepInterval);
+    this.expiryTimer.unref();
+  }
+
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  async handleRequest(
+    req: Request,
+    res: Response,
+    parsedBody?: unknown,
+    principal?: string
+  ): Promise<void> {
+    const sessionId = req.headers[SESSION_ID_HEADER] as string | undefined;
+
+    if (sessionId) {
+      const session = this.sessions.get(sessionId);
+      if (!session) {
+        this.sendError(res, 404, -32001, 'Session not found');
+        return;
+      }
+
+      // Answered like an unknown session so session IDs cannot be probed
+      if (session.principal !== principal) {
+        logger.warn(`Rejected request for MCP session ${sessionId} from another principal`);
+        this.sendError(res, 404, -32001, 'Session not found');
+        return;
+      }
+
+      session.lastActivity = Date.now();
+      await session.transport.handleRequest(req, res, parsedBody);
+      return;
+    }
+
+    if (req.method === 'POST' && this.isInitialization(parsedBody)) {
+      const transport = await this.createSessionTransport(principal);
+      await transport.handleRequest(req, res, parsedBody);
+
+      // Initialization was rejected, so no session was registered for this transport
+      if (!transport.sessionId) {
+        await transport.close();
+      }
+      return;
+    }
+
+    this.sendError(res, 400, -32000, 'Bad Request: Mcp-Session-Id header is required');
+  }
+
+  async closeSession(sessionId: string): Promise<boolean> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return false;
+    }
+
+    await session.transport.close();
+    return true;
+  }
+
+  async expireIdleSessions(now = Date.now()): Promise<number> {
+    const expired = [...this.sessions.values()].filter(
+      (session) => now - session.lastActivity > this.idleTimeoutMs
+    );
+
+    for (const session of expired) {
+      logger.info(`Expiring idle MCP session ${session.id}`);
+      await this.closeSession(session.id);
+    }
+
+    return expired.length;
+  }
+
+  async close(): Promise<void> {
+    clearInterval(this.expiryTimer);
+    for (const sessionId of [...this.sessions.keys()]) {
+      await this.closeSession(sessionId);
+    }
+  }
+
+  private async createSessionTransport(principal?: string): Promise<StreamableHTTPServerTransport> {
+    const server = await this.createServer();
+    const eventStore = new InMemoryEventStore(this.maxEventsPerStream);
+
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      eventStore,
+      onsessioninitialized: (sessionId) => {
+        this.sessions.set(sessionId, {
+          id: sessionId,
+          transport,
+          server,
+          eventStore,
+          lastActivity: Date.now(),
+          principal,
+        });
+        logger.info(`MCP session initialized: ${sessionId} (${this.sessions.size} active)`);
+      },
+    });
+
+    await server.connect(transport);
+
+    // Chain onto the protocol's close handler so terminated sessions are forgotten
+    const protocolOnClose = transport.onclose;
+    transport.onclose = () => {
+      protocolOnClose?.();
+      if (transport.sessionId && this.sessions.delete(transport.sessionId)) {
+        logger.info(`MCP session closed: ${transport.sessionId}`);
+      }
+    };
+
+    return transport;
+  }
+
+  private isInitialization(body: unknown): boolean {
+    if (Array.isArray(body)) {
+      return body.some((message) => isInitializeRequest(message));
+    }
+    return isInitializeRequest(body);
+  }
+
+  private sendError(res: Response, status: number, code: number, message: string): void {
+    res.status(status).json({
+      jsonrpc: '2.0',
+      error: {
+        code,
+        message,
+      },
+      id: null,
+    });
+  }
+}
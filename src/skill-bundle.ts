@@ -0,0 +1,377 @@
+import { createHash } from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import JSZip from 'jszip';
+import { z } from 'zod';
+import { SkillStore } from './skill-store.js';
+import { canonicalJson } from './skill-stats.js';
+import { skillParameterDefinitionsSchema } from './skill-parameters.js';
+import { runSkillTests, skillTestCaseSchema } from './skill-tests.js';
+import { M365Skill } from './types/skill.js';
+import GraphClient from './graph-client.js';
+import { version } from './version.js';
+
+// Bumped when the bundle layout changes; bundles with another format are rejected
+export const SKILL_BUNDLE_FORMAT = 1;
+
+export type SkillConflictResolution = 'skip' | 'rename' | 'overwrite';
+
+/**
+ * A skill as it travels in a bundle: no ID, usage or built-in flag, since those belong to the
+ * store it came from
+ */
+export type BundledSkill = Omit<
+  M365Skill,
+  'id' | 'usageCount' | 'lastUsedAt' | 'isBuiltin' | 'builtinHash'
+>;
+
+export interface SkillBundleManifest {
+  format: number;
+  exportedAt: string;
+  exportedBy: string;
+  skills: {
+    name: string;
+    version?: number;
+    checksum: string; // sha256 of the skill's canonical JSON
+    file?: string; // Path of the skill inside a zip bundle
+  }[];
+}
+
+export interface SkillBundle {
+  manifest: SkillBundleManifest;
+  skills: BundledSkill[];
+}
+
+export interface ExportSkillsOptions {
+  skillIds?: string[]; // IDs or names; exported whether public or not
+  includePrivate?: boolean; // Without skillIds only public skills are exported unless this is set
+}
+
+export interface ImportSkillsOptions {
+  onConflict?: SkillConflictResolution;
+  author?: string; // Recorded on the revisions the import creates
+}
+
+export interface SkillImportResult {
+  imported: {
+    name: string;
+    id: string;
+    action: 'created' | 'renamed' | 'overwritten';
+    renamedFrom?: string;
+  }[];
+  skipped: { name: string; reason: string }[];
+}
+
+const bundledSkillSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().min(1),
+  category: z.enum([
+    'mail',
+    'calendar',
+    'teams',
+    'files',
+    'sharepoint',
+    'planner',
+    'todo',
+    'general',
+  ]),
+  code: z.string().min(1),
+  parameters: skillParameterDefinitionsSchema.optional(),
+  returnType: z.string().optional(),
+  author: z.string().optional(),
+  tags: z.array(z.string()).optional(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  isPublic: z.boolean(),
+  version: z.number().int().optional(),
+  tests: z.array(skillTestCaseSchema).optional(),
+});
+
+const manifestSchema = z.object({
+  format: z.number().int(),
+  exportedAt: z.string(),
+  exportedBy: z.string(),
+  skills: z.array(
+    z.object({
+      name: z.string(),
+      version: z.number().int().optional(),
+      checksum: z.string(),
+      file: z.string().optional(),
+    })
+  ),
+});
+
+function checksum(skill: BundledSkill): string {
+  return createHash('sha256').update(canonicalJson(skill)).digest('hex');
+}
+
+function toBundledSkill(skill: M365Skill): BundledSkill {
+  return {
+    name: skill.name,
+    description: skill.description,
+    category: skill.category,
+    code: skill.code,
+    parameters: skill.parameters,
+    returnType: skill.returnType,
+    author: skill.author,
+    tags: skill.tags,
+    createdAt: skill.createdAt,
+    updatedAt: skill.updatedAt,
+    isPublic: skill.isPublic,
+    version: skill.version,
+    tests: skill.tests,
+  };
+}
+
+/**
+ * Build a bundle of skills. Without skillIds every public, non-built-in skill is included.
+ */
+export async function exportSkills(
+  store: SkillStore,
+  options: ExportSkillsOptions = {}
+): Promise<SkillBundle> {
+  let skills: M365Skill[];
+  if (options.skillIds && options.skillIds.length > 0) {
+    skills = [];
+    for (const idOrName of options.skillIds) {
+      const skill = (await store.get(idOrName)) ?? (await store.getByName(idOrName));
+      if (!skill) {
+        throw new Error(`Skill not found: ${idOrName}`);
+      }
+      skills.push(skill);
+    }
+  } else {
+    skills = (await store.list({ isBuiltin: false })).filter(
+      (skill) => options.includePrivate || skill.isPublic
+    );
+  }
+
+  const bundled = skills
+    .map(toBundledSkill)
+    .sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+
+  return {
+    manifest: {
+      format: SKILL_BUNDLE_FORMAT,
+      exportedAt: new Date().toISOString(),
+      exportedBy: `ms-365-mcp-server@${version}`,
+      skills: bundled.map((skill) => ({
+        name: skill.name,
+        version: skill.version,
+        checksum: checksum(skill),
+      })),
+    },
+    skills: bundled,
+  };
+}
+
+/**
+ * Validate the structure of a bundle and the checksum of every skill in it
+ */
+export function parseSkillBundle(data: unknown): SkillBundle {
+  const parsed = z
+    .object({ manifest: manifestSchema, skills: z.array(z.unknown()) })
+    .safeParse(data);
+  if (!parsed.success) {
+    throw new Error(`Invalid skill bundle: ${parsed.error.issues[0].message}`);
+  }
+
+  const { manifest } = parsed.data;
+  if (manifest.format !== SKILL_BUNDLE_FORMAT) {
+    throw new Error(
+      `Unsupported skill bundle format ${manifest.format} (expected ${SKILL_BUNDLE_FORMAT})`
+    );
+  }
+  if (manifest.skills.length !== parsed.data.skills.length) {
+    throw new Error(
+      `Invalid skill bundle: manifest lists ${manifest.skills.length} skills but the bundle contains ${parsed.data.skills.length}`
+    );
+  }
+
+  const skills = parsed.data.skills.map((raw, index) => {
+    const entry = manifest.skills[index];
+    const skill = bundledSkillSchema.safeParse(raw);
+    if (!skill.success) {
+      const issue = skill.error.issues[0];
+      throw new Error(
+        `Invalid skill '${entry.name}' in bundle: ${issue.path.join('.')} ${issue.message}`
+      );
+    }
+    if (skill.data.name !== entry.name || checksum(skill.data) !== entry.checksum) {
+      throw new Error(`Checksum mismatch for skill '${entry.name}': the bundle was modified`);
+    }
+    return skill.data;
+  });
+
+  return { manifest, skills };
+}
+
+/**
+ * Write a bundle as JSON, or as a zip with a manifest.json and one file per skill when the path
+ * ends in .zip
+ */
+export async function writeSkillBundle(bundle: SkillBundle, filePath: string): Promise<void> {
+  await fs.mkdir(path.dirname(path.resolve(filePath)), { recursive: true });
+
+  if (path.extname(filePath).toLowerCase() !== '.zip') {
+    await fs.writeFile(filePath, JSON.stringify(bundle, null, 2));
+    return;
+  }
+
+  const zip = new JSZip();
+  const manifest: SkillBundleManifest = {
+    ...bundle.manifest,
+    skills: bundle.manifest.skills.map((entry, index) => ({
+      ...entry,
+      file: `skills/${String(index + 1).padStart(3, '0')}-${entry.name.replace(/[^a-zA-Z0-9_-]/g, '-')}.json`,
+    })),
+  };
+  manifest.skills.forEach((entry, index) => {
+    zip.file(entry.file!, JSON.stringify(bundle.skills[index], null, 2));
+  });
+  zip.file('manifest.json', JSON.stringify(manifest, null, 2));
+
+  await fs.writeFile(
+    filePath,
+    await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' })
+  );
+}
+
+/**
+ * Read and verify a bundle written by writeSkillBundle. Zip bundles are recognized by their
+ * content, not their extension.
+ */
+export async function readSkillBundle(filePath: string): Promise<SkillBundle> {
+  const data = await fs.readFile(filePath);
+
+  // Zip files start with the local file header signature "PK\x03\x04"
+  if (data.length < 4 || data.readUInt32LE(0) !== 0x04034b50) {
+    try {
+      return parseSkillBundle(JSON.parse(data.toString('utf8')));
+    } catch (error) {
+      if (error instanceof SyntaxError) {
+        throw new Error(`Invalid skill bundle: ${filePath} is neither JSON nor a zip file`);
+      }
+      throw error;
+    }
+  }
+
+  const zip = await JSZip.loadAsync(data);
+  const manifestFile = zip.file('manifest.json');
+  if (!manifestFile) {
+    throw new Error('Invalid skill bundle: manifest.json is missing');
+  }
+  const manifest = manifestSchema.parse(JSON.parse(await manifestFile.async('string')));
+
+  const skills: unknown[] = [];
+  for (const entry of manifest.skills) {
+    const file = entry.file ? zip.file(entry.file) : null;
+    if (!file) {
+      throw new Error(`Invalid skill bundle: file for skill '${entry.name}' is missing`);
+    }
+    skills.push(JSON.parse(await file.async('string')));
+  }
+
+  return parseSkillBundle({ manifest, skills });
+}
+
+async function availableName(store: SkillStore, name: string): Promise<string> {
+  for (let n = 2; ; n++) {
+    const candidate = `${name}-${n}`;
+    if (!(await store.getByName(candidate))) {
+      return candidate;
+    }
+  }
+}
+
+/**
+ * Save the skills of a verified bundle. Imported skills get new IDs and start with no usage.
+ * Name collisions are skipped, saved under a free "<name>-<n>" name, or saved as a new
+ * revision of the existing skill, depending on onConflict. Built-in skills are never overwritten.
+ * Bundled tests are kept and must pass before a skill is saved; they only use their mocks, so
+ * graphClient never calls Graph.
+ */
+export async function importSkills(
+  store: SkillStore,
+  bundle: SkillBundle,
+  graphClient: GraphClient,
+  options: ImportSkillsOptions = {}
+): Promise<SkillImportResult> {
+  const onConflict = options.onConflict ?? 'skip';
+  const result: SkillImportResult = { imported: [], skipped: [] };
+
+  for (const bundled of bundle.skills) {
+    // Timestamps and the version number are assigned by the target store
+    const skill: Partial<M365Skill> & Pick<M365Skill, 'name' | 'code'> = {
+      name: bundled.name,
+      description: bundled.description,
+      category: bundled.category,
+      code: bundled.code,
+      parameters: bundled.parameters,
+      returnType: bundled.returnType,
+      author: bundled.author,
+      tags: bundled.tags,
+      isPublic: bundled.isPublic,
+      tests: bundled.tests,
+    };
+
+    const validation = store.validateCode(skill.code);
+    if (!validation.valid) {
+      result.skipped.push({
+        name: skill.name,
+        reason: `Code validation failed: ${validation.errors.join(', ')}`,
+      });
+      continue;
+    }
+
+    if (skill.tests?.length) {
+      const report = await runSkillTests(skill, graphClient);
+      if (!report.passed) {
+        result.skipped.push({
+          name: skill.name,
+          reason: `Skill tests failed (${report.failed} of ${report.total})`,
+        });
+        continue;
+      }
+    }
+
+    const existing = await store.getByName(skill.name);
+    if (!existing) {
+      const saved = await store.save({ ...skill, isBuiltin: false }, { author: options.author });
+      result.imported.push({ name: saved.name, id: saved.id, action: 'created' });
+      continue;
+    }
+
+    if (onConflict === 'skip') {
+      result.skipped.push({ name: skill.name, reason: 'A skill with this name already exists' });
+    } else if (onConflict === 'rename') {
+      const name = await availableName(store, skill.name);
+      const saved = await store.save(
+        { ...skill, name, isBuiltin: false },
+        { author: options.author }
+      );
+      result.imported.push({
+        name: saved.name,
+        id: saved.id,
+        action: 'renamed',
+        renamedFrom: skill.name,
+      });
+    } else if (existing.isBuiltin) {
+      result.skipped.push({ name: skill.name, reason: 'Built-in skills cannot be overwritten' });
+    } else {
+      const saved = await store.save(
+        {
+          ...skill,
+          id: existing.id,
+          createdAt: existing.createdAt,
+          usageCount: existing.usageCount,
+          isBuiltin: false,
+        },
+        { author: options.author }
+      );
+      result.imported.push({ name: saved.name, id: saved.id, action: 'overwritten' });
+    }
+  }
+
+  return result;
+}
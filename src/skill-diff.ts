@@ -0,0 +1,99 @@
+import { M365Skill } from './types/skill.js';
+
+export interface SkillFieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface SkillDiff {
+  changes: SkillFieldChange[];
+  codeDiff: string;
+}
+
+const COMPARED_FIELDS: (keyof M365Skill)[] = [
+  'name',
+  'description',
+  'category',
+  'parameters',
+  'returnType',
+  'tags',
+  'isPublic',
+  'tests',
+];
+
+/**
+ * Line-based unified diff (LCS) with `context` unchanged lines around each hunk
+ */
+export function diffLines(from: string, to: string, context = 3): string {
+  const a = from.split('\n');
+  const b = to.split('\n');
+
+  // lcs[i][j] = length of the longest common subsequence of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: { op: ' ' | '-' | '+'; text: string; aLine: number; bLine: number }[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push({ op: ' ', text: a[i], aLine: i++, bLine: j++ });
+    } else if (i < a.length && (j === b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      lines.push({ op: '-', text: a[i], aLine: i++, bLine: j });
+    } else {
+      lines.push({ op: '+', text: b[j], aLine: i, bLine: j++ });
+    }
+  }
+
+  const output: string[] = [];
+  let index = 0;
+  while (index < lines.length) {
+    if (lines[index].op === ' ') {
+      index++;
+      continue;
+    }
+
+    // Grow the hunk until the next change is more than 2 * context lines away
+    const start = Math.max(0, index - context);
+    let end = index;
+    while (end < lines.length) {
+      let next = end;
+      while (next < lines.length && lines[next].op === ' ') next++;
+      if (next === lines.length || next - end > 2 * context) break;
+      end = next + 1;
+    }
+    end = Math.min(lines.length, end + context);
+
+    const hunk = lines.slice(start, end);
+    const aCount = hunk.filter((l) => l.op !== '+').length;
+    const bCount = hunk.filter((l) => l.op !== '-').length;
+    output.push(
+      `@@ -${hunk[0].aLine + 1},${aCount} +${hunk[0].bLine + 1},${bCount} @@`,
+      ...hunk.map((l) => `${l.op}${l.text}`)
+    );
+    index = end;
+  }
+
+  return output.join('\n');
+}
+
+/**
+ * Compares two skill snapshots: metadata changes per field plus a unified diff of the code
+ */
+export function diffSkills(from: M365Skill, to: M365Skill): SkillDiff {
+  const changes: SkillFieldChange[] = [];
+  for (const field of COMPARED_FIELDS) {
+    if (JSON.stringify(from[field]) !== JSON.stringify(to[field])) {
+      changes.push({ field, from: from[field], to: to[field] });
+    }
+  }
+
+  return { changes, codeDiff: diffLines(from.code, to.code) };
+}
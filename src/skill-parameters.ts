@@ -0,0 +1,111 @@
+import { z } from 'zod';
+import { SkillParameter } from './types/skill.js';
+
+export interface SkillParameterError {
+  parameter: string;
+  message: string;
+}
+
+export type SkillParameterValidation =
+  | { valid: true; params: Record<string, unknown> }
+  | { valid: false; errors: SkillParameterError[] };
+
+/**
+ * Parameter definitions as skills are created, updated and imported with, keyed by name
+ */
+export const skillParameterDefinitionsSchema = z.record(
+  z.object({
+    type: z.enum(['string', 'number', 'boolean', 'object', 'array']),
+    description: z.string(),
+    required: z.boolean(),
+    default: z.any().optional(),
+  })
+);
+
+function parameterTypeSchema(type: SkillParameter['type']): z.ZodTypeAny {
+  switch (type) {
+    case 'string':
+      return z.string();
+    case 'number':
+      return z.number();
+    case 'boolean':
+      return z.boolean();
+    case 'object':
+      return z.record(z.unknown());
+    case 'array':
+      return z.array(z.unknown());
+    default:
+      throw new Error(`Unsupported skill parameter type: ${type}`);
+  }
+}
+
+/**
+ * Converts a skill's parameter definitions into a zod schema. Defaults are applied for
+ * omitted parameters; parameters the skill does not declare are passed through unchanged.
+ */
+export function buildSkillParamsSchema(
+  parameters: Record<string, SkillParameter> = {}
+): z.ZodObject<z.ZodRawShape> {
+  const shape: z.ZodRawShape = {};
+
+  for (const [name, parameter] of Object.entries(parameters)) {
+    let schema = parameterTypeSchema(parameter.type).describe(parameter.description);
+    if (parameter.default !== undefined) {
+      schema = schema.default(parameter.default);
+    } else if (!parameter.required) {
+      schema = schema.optional();
+    }
+    shape[name] = schema;
+  }
+
+  return z.object(shape).passthrough();
+}
+
+/**
+ * Validates caller-supplied params against a skill's parameter definitions
+ */
+export function validateSkillParams(
+  parameters: Record<string, SkillParameter> | undefined,
+  params: Record<string, unknown> = {}
+): SkillParameterValidation {
+  const parsed = buildSkillParamsSchema(parameters).safeParse(params);
+  if (parsed.success) {
+    return { valid: true, params: parsed.data };
+  }
+
+  return {
+    valid: false,
+    errors: parsed.error.issues.map((issue) => ({
+      parameter: issue.path.join('.'),
+      message: issue.message,
+    })),
+  };
+}
+
+/**
+ * JSON Schema for a skill's params object, as shown by get-m365-skill
+ */
+export function skillParametersToJsonSchema(
+  parameters: Record<string, SkillParameter> = {}
+): Record<string, unknown> {
+  const properties: Record<string, unknown> = {};
+  const required: string[] = [];
+
+  for (const [name, parameter] of Object.entries(parameters)) {
+    properties[name] = {
+      type: parameter.type,
+      description: parameter.description,
+      ...(parameter.default !== undefined && { default: parameter.default }),
+    };
+    if (parameter.required && parameter.default === undefined) {
+      required.push(name);
+    }
+  }
+
+  return {
+    type: 'object',
+    properties,
+    ...(required.length > 0 && { required }),
+    additionalProperties: true,
+  };
+}
@@ -0,0 +1,180 @@
+import {
+  ExecutionError,
+  ExecutionResult,
+  executeM365Code,
+  SandboxLogEntry,
+} from './code-execution.js';
+import { SkillStore } from './skill-store.js';
+import { validateSkillParams } from './skill-parameters.js';
+import { hashParams } from './skill-stats.js';
+import { M365Skill, SkillExecution } from './types/skill.js';
+import GraphClient from './graph-client.js';
+import logger from './logger.js';
+
+// How deep skills.run calls may nest, counting the skill that was started
+export const MAX_SKILL_DEPTH = 5;
+
+const DEFAULT_TIMEOUT = 30000;
+
+export interface SkillRunOptions {
+  timeout?: number; // milliseconds for the whole run, including skills it calls
+  onLog?: (entry: SandboxLogEntry) => void;
+}
+
+export interface SkillRunResult extends ExecutionResult {
+  executionTime: number;
+}
+
+/**
+ * SkillRunner - runs stored skills in the sandbox and records their usage and executions.
+ * Skill code can call other skills through skills.run(nameOrId, params); each called skill
+ * runs in its own sandbox, has its params validated and its usage counted, and shares the
+ * time budget of the skill that started the chain. In read-only mode no skill in the chain can
+ * make m365 calls that change data, and in app-only mode their /me calls need a userId.
+ */
+export class SkillRunner {
+  constructor(
+    private storage: SkillStore,
+    private graphClient: GraphClient,
+    private readOnly = false,
+    private appOnly = false
+  ) {}
+
+  /**
+   * Run a skill with params that were already validated against its parameter definitions
+   */
+  async run(
+    skill: M365Skill,
+    params: Record<string, unknown>,
+    options: SkillRunOptions = {}
+  ): Promise<SkillRunResult> {
+    const deadline = Date.now() + (options.timeout || DEFAULT_TIMEOUT);
+    return this.execute(skill, params, [skill], deadline, options.onLog);
+  }
+
+  private async execute(
+    skill: M365Skill,
+    params: Record<string, unknown>,
+    chain: M365Skill[],
+    deadline: number,
+    onLog?: (entry: SandboxLogEntry) => void
+  ): Promise<SkillRunResult> {
+    logger.info(`Executing skill: ${skill.name} (${skill.id})`);
+
+    // Wrap code with parameter injection
+    const wrappedCode = `
+      const params = ${JSON.stringify(params)};
+      ${skill.code}
+    `;
+
+    const startTime = Date.now();
+    const execution: SkillExecution = {
+      skillId: skill.id,
+      startedAt: new Date(startTime).toISOString(),
+      durationMs: 0,
+      success: false,
+      paramsHash: hashParams(params),
+    };
+
+    let executed: ExecutionResult;
+    try {
+      executed = await executeM365Code(wrappedCode, this.graphClient, {
+        timeout: deadline - startTime,
+        onLog,
+        readOnly: this.readOnly,
+        appOnly: this.appOnly,
+        runSkill: (nameOrId, nestedParams) =>
+          this.runNested(nameOrId, nestedParams, chain, deadline),
+      });
+      execution.success = true;
+      execution.resultSize = Buffer.byteLength(JSON.stringify(executed.result) ?? '');
+    } catch (error) {
+      execution.error = (error as Error).message;
+      throw error;
+    } finally {
+      execution.durationMs = Date.now() - startTime;
+      await this.recordExecution(execution);
+    }
+
+    await this.storage.incrementUsage(skill.id);
+    logger.info(`Skill executed successfully: ${skill.name} (${execution.durationMs}ms)`);
+
+    return { ...executed, executionTime: execution.durationMs };
+  }
+
+  /**
+   * Handles skills.run from inside a running skill. Errors are thrown back into the calling
+   * skill's code, where they can be caught.
+   */
+  private async runNested(
+    nameOrId: unknown,
+    params: unknown,
+    chain: M365Skill[],
+    deadline: number
+  ): Promise<ExecutionResult> {
+    if (typeof nameOrId !== 'string') {
+      throw new Error('skills.run expects a skill name or ID');
+    }
+
+    const skill = (await this.storage.get(nameOrId)) ?? (await this.storage.getByName(nameOrId));
+    if (!skill) {
+      throw new Error(`Skill not found: ${nameOrId}`);
+    }
+
+    const path = [...chain, skill].map((s) => s.name).join(' -> ');
+    if (chain.some((s) => s.id === skill.id)) {
+      throw new Error(`Skill cycle detected: ${path}`);
+    }
+    if (chain.length >= MAX_SKILL_DEPTH) {
+      throw new Error(`Skill calls nested deeper than ${MAX_SKILL_DEPTH} levels: ${path}`);
+    }
+
+    if (params !== undefined && (typeof params !== 'object' || params === null)) {
+      throw new Error(`Invalid parameters for skill '${skill.name}': params must be an object`);
+    }
+    const validation = validateSkillParams(
+      skill.parameters,
+      params as Record<string, unknown> | undefined
+    );
+    if (!validation.valid) {
+      const details = validation.errors.map((e) => `${e.parameter}: ${e.message}`).join('; ');
+      throw new Error(`Invalid parameters for skill '${skill.name}': ${details}`);
+    }
+
+    if (Date.now() >= deadline) {
+      throw new Error('Execution timeout');
+    }
+
+    // Output of called skills is tagged with their name in the caller's logs
+    const tag = (entry: SandboxLogEntry) => ({
+      ...entry,
+      message: `[${skill.name}] ${entry.message}`,
+    });
+    try {
+      const { result, logs } = await this.execute(
+        skill,
+        validation.params,
+        [...chain, skill],
+        deadline
+      );
+      return { result, logs: logs.map(tag) };
+    } catch (error) {
+      const logs = (error as ExecutionError).logs;
+      if (logs) {
+        (error as ExecutionError).logs = logs.map(tag);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Recording statistics must never turn a finished run into a failure
+   */
+  private async recordExecution(execution: SkillExecution): Promise<void> {
+    try {
+      await this.storage.recordExecution(execution);
+    } catch (error) {
+      logger.warn(`Failed to record execution of skill ${execution.skillId}:`, error);
+    }
+  }
+}
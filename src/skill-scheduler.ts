@@ -0,0 +1,342 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { nextCronRun, parseCron } from './cron.js';
+import { ExecutionError } from './code-execution.js';
+import { SkillStore } from './skill-store.js';
+import { SkillRunner } from './skill-runner.js';
+import { validateSkillParams } from './skill-parameters.js';
+import { isNotFound, writeFileAtomic } from './skills-storage.js';
+import { ScheduledRun, SkillSchedule } from './types/skill.js';
+import GraphClient from './graph-client.js';
+import logger from './logger.js';
+
+// Stored results per schedule; older runs are dropped as new ones are recorded
+export const MAX_SCHEDULE_RESULTS = 50;
+
+// How often the scheduler checks for due schedules
+const TICK_INTERVAL = 30 * 1000;
+
+export interface ScheduleInput {
+  id?: string; // Set to update an existing schedule; fields left out keep their values
+  skillId?: string;
+  cron?: string;
+  params?: Record<string, unknown>;
+  timeout?: number;
+  enabled?: boolean;
+  account?: string; // homeAccountId to run as; only taken when the schedule is created
+}
+
+/**
+ * SkillScheduler - runs skills on cron schedules while the server is up. Schedules are kept in
+ * schedules.json and the results of each schedule in results/<schedule-id>.json, so an agent can
+ * read them later without running the skill again. Runs missed while the server was down are
+ * not made up; the schedule continues at its next matching time. Each schedule runs as the
+ * account that created it, whichever account is selected at the time.
+ */
+export class SkillScheduler {
+  private schedulesFile: string;
+  private resultsDir: string;
+  private runner: SkillRunner;
+  private timer: ReturnType<typeof setInterval> | undefined;
+  private running = new Set<string>();
+  private writes: Promise<void> = Promise.resolve();
+  private initialized = false;
+
+  constructor(
+    private storage: SkillStore,
+    private graphClient: GraphClient,
+    dataDir = './data/schedules',
+    readOnly = false,
+    appOnly = false
+  ) {
+    this.schedulesFile = path.join(dataDir, 'schedules.json');
+    this.resultsDir = path.join(dataDir, 'results');
+    this.runner = new SkillRunner(storage, graphClient, readOnly, appOnly);
+  }
+
+  async init(): Promise<void> {
+    if (this.initialized) return;
+    await fs.mkdir(this.resultsDir, { recursive: true });
+    this.initialized = true;
+  }
+
+  /**
+   * Check for due schedules every TICK_INTERVAL until stop() is called
+   */
+  async start(): Promise<void> {
+    await this.init();
+
+    // Skip runs that fell due while the server was down
+    const now = new Date();
+    await this.update((schedules) => {
+      let skipped = false;
+      for (const schedule of schedules) {
+        if (schedule.nextRunAt && new Date(schedule.nextRunAt) < now) {
+          schedule.nextRunAt = nextCronRun(schedule.cron, now).toISOString();
+          skipped = true;
+        }
+      }
+      return skipped;
+    });
+
+    this.timer = setInterval(() => {
+      this.tick().catch((error) => logger.error('Skill scheduler tick failed:', error));
+    }, TICK_INTERVAL);
+    // The scheduler alone must not keep the process alive
+    this.timer.unref();
+    logger.info('Skill scheduler started');
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  async list(skillId?: string): Promise<SkillSchedule[]> {
+    const schedules = await this.readSchedules();
+    return skillId ? schedules.filter((s) => s.skillId === skillId) : schedules;
+  }
+
+  async get(id: string): Promise<SkillSchedule | null> {
+    return (await this.readSchedules()).find((s) => s.id === id) ?? null;
+  }
+
+  /**
+   * Create or update a schedule. The cron expression and params are validated against the
+   * skill before anything is stored.
+   */
+  async save(input: ScheduleInput): Promise<SkillSchedule> {
+    await this.init();
+
+    const previous = input.id ? await this.get(input.id) : null;
+    if (input.id && !previous) {
+      throw new Error(`Schedule not found: ${input.id}`);
+    }
+
+    const skillId = input.skillId ?? previous?.skillId;
+    const cronExpression = input.cron ?? previous?.cron;
+    if (!skillId || !cronExpression) {
+      throw new Error('A new schedule needs a skill and a cron expression');
+    }
+
+    const skill = await this.storage.get(skillId);
+    if (!skill) {
+      throw new Error(`Skill not found: ${skillId}`);
+    }
+
+    const cron = parseCron(cronExpression);
+    const params = input.params ?? previous?.params;
+    const validation = validateSkillParams(skill.parameters, params);
+    if (!validation.valid) {
+      const details = validation.errors.map((e) => `${e.parameter}: ${e.message}`).join('; ');
+      throw new Error(`Invalid parameters for skill '${skill.name}': ${details}`);
+    }
+
+    let saved: SkillSchedule | undefined;
+    await this.update((schedules) => {
+      const now = new Date();
+      const existing = input.id ? schedules.find((s) => s.id === input.id) : undefined;
+      if (input.id && !existing) {
+        throw new Error(`Schedule not found: ${input.id}`);
+      }
+
+      const enabled = input.enabled ?? existing?.enabled ?? true;
+      saved = {
+        ...existing,
+        id: existing?.id ?? randomUUID(),
+        skillId: skill.id,
+        cron: cronExpression,
+        params,
+        timeout: input.timeout ?? existing?.timeout,
+        enabled,
+        account: existing ? existing.account : input.account,
+        createdAt: existing?.createdAt ?? now.toISOString(),
+        updatedAt: now.toISOString(),
+        nextRunAt: enabled ? nextCronRun(cron, now).toISOString() : undefined,
+      };
+
+      if (existing) {
+        schedules[schedules.indexOf(existing)] = saved;
+      } else {
+        schedules.push(saved);
+      }
+    });
+
+    logger.info(
+      `Skill '${skill.name}' scheduled: ${cronExpression} (next run ${saved!.nextRunAt})`
+    );
+    return saved!;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    let deleted = false;
+    await this.update((schedules) => {
+      const index = schedules.findIndex((s) => s.id === id);
+      if (index >= 0) {
+        schedules.splice(index, 1);
+        deleted = true;
+      }
+    });
+
+    if (deleted) {
+      await fs.rm(this.resultsPath(id), { force: true });
+    }
+    return deleted;
+  }
+
+  /**
+   * Remove the schedules of a deleted skill
+   */
+  async deleteForSkill(skillId: string): Promise<number> {
+    const schedules = await this.list(skillId);
+    for (const schedule of schedules) {
+      await this.delete(schedule.id);
+    }
+    return schedules.length;
+  }
+
+  /**
+   * Stored results of a schedule, newest first
+   */
+  async listResults(scheduleId: string, limit = MAX_SCHEDULE_RESULTS): Promise<ScheduledRun[]> {
+    try {
+      const results = JSON.parse(
+        await fs.readFile(this.resultsPath(scheduleId), 'utf-8')
+      ) as ScheduledRun[];
+      return results.slice(-limit).reverse();
+    } catch (error) {
+      if (isNotFound(error)) {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Run every enabled schedule that is due at `now`. Called by the timer; exposed for tests.
+   */
+  async tick(now = new Date()): Promise<ScheduledRun[]> {
+    const due: SkillSchedule[] = [];
+    await this.update((schedules) => {
+      for (const schedule of schedules) {
+        if (
+          schedule.enabled &&
+          schedule.nextRunAt &&
+          new Date(schedule.nextRunAt) <= now &&
+          !this.running.has(schedule.id)
+        ) {
+          // Claim the run before starting it, so the next tick does not start it again
+          schedule.lastRunAt = now.toISOString();
+          schedule.nextRunAt = nextCronRun(schedule.cron, now).toISOString();
+          due.push(schedule);
+        }
+      }
+      return due.length > 0;
+    });
+
+    return Promise.all(due.map((schedule) => this.runSchedule(schedule)));
+  }
+
+  private async runSchedule(schedule: SkillSchedule): Promise<ScheduledRun> {
+    this.running.add(schedule.id);
+    const startTime = Date.now();
+    const run: ScheduledRun = {
+      scheduleId: schedule.id,
+      skillId: schedule.skillId,
+      startedAt: new Date(startTime).toISOString(),
+      durationMs: 0,
+      success: false,
+    };
+
+    try {
+      const skill = await this.storage.get(schedule.skillId);
+      if (!skill) {
+        throw new Error(`Skill not found: ${schedule.skillId}`);
+      }
+      run.skillName = skill.name;
+
+      // Parameter definitions may have changed since the schedule was created
+      const validation = validateSkillParams(skill.parameters, schedule.params);
+      if (!validation.valid) {
+        const details = validation.errors.map((e) => `${e.parameter}: ${e.message}`).join('; ');
+        throw new Error(`Invalid parameters for skill '${skill.name}': ${details}`);
+      }
+
+      const { result, logs } = await this.graphClient.runAsAccount(schedule.account, () =>
+        this.runner.run(skill, validation.params, { timeout: schedule.timeout })
+      );
+      run.success = true;
+      run.result = result;
+      run.logs = logs;
+    } catch (error) {
+      logger.error(`Scheduled run of skill ${schedule.skillId} failed:`, error);
+      run.error = (error as Error).message;
+      run.logs = (error as ExecutionError).logs;
+    } finally {
+      run.durationMs = Date.now() - startTime;
+      this.running.delete(schedule.id);
+    }
+
+    try {
+      await this.recordRun(run);
+    } catch (error) {
+      logger.warn(`Failed to store result of schedule ${schedule.id}:`, error);
+    }
+    return run;
+  }
+
+  private async recordRun(run: ScheduledRun): Promise<void> {
+    await this.update(async (schedules) => {
+      const schedule = schedules.find((s) => s.id === run.scheduleId);
+      if (!schedule) {
+        return; // Deleted while running
+      }
+      schedule.lastSuccess = run.success;
+
+      const results = (await this.listResults(run.scheduleId)).reverse();
+      results.push(run);
+      await writeFileAtomic(
+        this.resultsPath(run.scheduleId),
+        JSON.stringify(results.slice(-MAX_SCHEDULE_RESULTS), null, 2)
+      );
+    });
+  }
+
+  private resultsPath(scheduleId: string): string {
+    return path.join(this.resultsDir, `${scheduleId}.json`);
+  }
+
+  private async readSchedules(): Promise<SkillSchedule[]> {
+    try {
+      return JSON.parse(await fs.readFile(this.schedulesFile, 'utf-8')) as SkillSchedule[];
+    } catch (error) {
+      if (isNotFound(error)) {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Read-modify-write of schedules.json, serialized so concurrent changes are not lost. A change
+   * that returns false leaves the file untouched.
+   */
+  private update(
+    change: (schedules: SkillSchedule[]) => boolean | void | Promise<boolean | void>
+  ): Promise<void> {
+    const write = this.writes.then(async () => {
+      await this.init();
+      const schedules = await this.readSchedules();
+      if ((await change(schedules)) === false) {
+        return;
+      }
+      await writeFileAtomic(this.schedulesFile, JSON.stringify(schedules, null, 2));
+    });
+    // A failed change must not block later ones
+    this.writes = write.catch(() => undefined);
+    return write;
+  }
+}
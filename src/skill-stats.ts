@@ -0,0 +1,59 @@
+import { createHash } from 'crypto';
+import { SkillExecution, SkillStats } from './types/skill.js';
+
+// Executions kept per skill; older runs are dropped as new ones are recorded
+export const MAX_EXECUTION_HISTORY = 200;
+
+/**
+ * JSON with object keys sorted and undefined values dropped, so equal values serialize equally
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Short hash of a params object, independent of key order
+ */
+export function hashParams(params: Record<string, unknown>): string {
+  return createHash('sha256').update(canonicalJson(params)).digest('hex').slice(0, 16);
+}
+
+/**
+ * Nearest-rank percentile of an ascending list
+ */
+function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) {
+    return null;
+  }
+  return sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)];
+}
+
+/**
+ * Summarize recorded executions (oldest first) into success rate and duration percentiles
+ */
+export function summarizeExecutions(executions: SkillExecution[]): SkillStats {
+  const successes = executions.filter((e) => e.success).length;
+  const durations = executions.map((e) => e.durationMs).sort((a, b) => a - b);
+  const last = executions[executions.length - 1];
+  const lastFailure = [...executions].reverse().find((e) => !e.success);
+
+  return {
+    runs: executions.length,
+    successes,
+    failures: executions.length - successes,
+    successRate: executions.length > 0 ? successes / executions.length : null,
+    p50DurationMs: percentile(durations, 50),
+    p95DurationMs: percentile(durations, 95),
+    lastRunAt: last?.startedAt,
+    lastError: lastFailure?.error,
+  };
+}
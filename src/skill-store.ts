@@ -0,0 +1,113 @@
+import { analyzeCode, CodeValidation } from './code-analysis.js';
+import { M365Skill, SkillExecution, SkillFilters, SkillRevision } from './types/skill.js';
+
+export interface SaveOptions {
+  author?: string; // Recorded on the revision, defaults to the skill's author
+  rolledBackFrom?: number;
+}
+
+export type SkillStoreBackend = 'file' | 'sqlite';
+
+/**
+ * SkillStore - persistence for skills and their revisions. Implemented by the JSON file store
+ * (SkillStorage) and the SQLite store (SqliteSkillStore).
+ */
+export interface SkillStore {
+  init(): Promise<void>;
+  save(skill: Partial<M365Skill>, options?: SaveOptions): Promise<M365Skill>;
+  get(id: string): Promise<M365Skill | null>;
+  getByName(name: string): Promise<M365Skill | null>;
+  list(filters?: SkillFilters): Promise<M365Skill[]>;
+  delete(id: string): Promise<boolean>;
+  incrementUsage(id: string): Promise<void>;
+  search(query: string): Promise<M365Skill[]>;
+  listVersions(id: string): Promise<SkillRevision[]>;
+  getVersion(id: string, version: number): Promise<SkillRevision | null>;
+  rollback(id: string, version: number, author?: string): Promise<M365Skill>;
+  /**
+   * Store a skill and its revisions exactly as given, without bumping the version or timestamps
+   */
+  importSkill(skill: M365Skill, revisions: SkillRevision[]): Promise<void>;
+  /**
+   * Record a run of a skill; only the latest MAX_EXECUTION_HISTORY runs are kept
+   */
+  recordExecution(execution: SkillExecution): Promise<void>;
+  /**
+   * Recorded runs of a skill, oldest first
+   */
+  listExecutions(skillId: string): Promise<SkillExecution[]>;
+  validateCode(code: string): CodeValidation;
+}
+
+/**
+ * Validate skill code for security, see analyzeCode
+ */
+export function validateSkillCode(code: string): CodeValidation {
+  return analyzeCode(code);
+}
+
+/**
+ * Restore the code and metadata of an older revision. The restored state is saved as a new
+ * revision, so the rollback itself can be undone.
+ */
+export async function rollbackSkill(
+  store: SkillStore,
+  id: string,
+  version: number,
+  author?: string
+): Promise<M365Skill> {
+  const current = await store.get(id);
+  if (!current) {
+    throw new Error(`Skill not found: ${id}`);
+  }
+
+  const revision = await store.getVersion(id, version);
+  if (!revision) {
+    throw new Error(`Version ${version} of skill '${current.name}' not found`);
+  }
+
+  return store.save(
+    {
+      ...revision.skill,
+      id: current.id,
+      createdAt: current.createdAt,
+      usageCount: current.usageCount,
+      isBuiltin: current.isBuiltin,
+    },
+    { author, rolledBackFrom: version }
+  );
+}
+
+/**
+ * Copy every skill with its revisions and execution history from one store to another. Skills
+ * whose ID already exists in the target are left alone, so the migration can be re-run safely.
+ */
+export async function migrateSkills(
+  source: SkillStore,
+  target: SkillStore
+): Promise<{ imported: number; skipped: number }> {
+  let imported = 0;
+  let skipped = 0;
+
+  for (const skill of await source.list()) {
+    if (await target.get(skill.id)) {
+      skipped++;
+      continue;
+    }
+
+    const revisions = await source.listVersions(skill.id);
+    if (revisions.length === 0) {
+      // Skills saved before versioning start their history in the target store
+      skill.version = 1;
+      revisions.push({ version: 1, savedAt: skill.updatedAt, author: skill.author, skill });
+    }
+
+    await target.importSkill(skill, revisions);
+    for (const execution of await source.listExecutions(skill.id)) {
+      await target.recordExecution(execution);
+    }
+    imported++;
+  }
+
+  return { imported, skipped };
+}
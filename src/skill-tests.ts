@@ -0,0 +1,229 @@
+import { isDeepStrictEqual } from 'util';
+import { z } from 'zod';
+import { ExecutionError, executeM365Code, SandboxLogEntry } from './code-execution.js';
+import { validateSkillParams } from './skill-parameters.js';
+import { M365Skill, SkillTestCase, SkillTestMock } from './types/skill.js';
+import GraphClient from './graph-client.js';
+import logger from './logger.js';
+
+// Per test case; tests never wait on Graph, so this only catches runaway code
+const DEFAULT_TEST_TIMEOUT = 10000;
+
+export const skillTestCaseSchema = z.object({
+  name: z.string().min(1),
+  params: z.record(z.any()).optional(),
+  mocks: z
+    .array(
+      z.object({
+        method: z.string().min(1),
+        response: z.any().optional(),
+        error: z.string().optional(),
+      })
+    )
+    .optional(),
+  expect: z
+    .object({
+      result: z.any().optional(),
+      match: z.any().optional(),
+      error: z.string().optional(),
+      calls: z.array(z.string()).optional(),
+    })
+    .optional(),
+});
+
+export interface SkillTestCall {
+  method: string;
+  args: unknown[];
+}
+
+export interface SkillTestResult {
+  name: string;
+  passed: boolean;
+  durationMs: number;
+  failures: string[];
+  result?: unknown;
+  error?: string;
+  calls: SkillTestCall[];
+  logs: SandboxLogEntry[];
+}
+
+export interface SkillTestReport {
+  skillName: string;
+  passed: boolean;
+  total: number;
+  failed: number;
+  results: SkillTestResult[];
+}
+
+export interface SkillTestOptions {
+  tests?: SkillTestCase[]; // Run these instead of the skill's own tests
+  timeout?: number; // milliseconds per test case
+}
+
+/**
+ * Whether `actual` contains everything in `expected`: objects may have extra properties, arrays
+ * must have the same length with every item matching, other values must be equal
+ */
+export function matchesExpected(actual: unknown, expected: unknown): boolean {
+  if (Array.isArray(expected)) {
+    return (
+      Array.isArray(actual) &&
+      actual.length === expected.length &&
+      expected.every((item, index) => matchesExpected(actual[index], item))
+    );
+  }
+  if (expected && typeof expected === 'object') {
+    if (!actual || typeof actual !== 'object' || Array.isArray(actual)) {
+      return false;
+    }
+    return Object.entries(expected).every(([key, value]) =>
+      matchesExpected((actual as Record<string, unknown>)[key], value)
+    );
+  }
+  return isDeepStrictEqual(actual, expected);
+}
+
+/**
+ * Answers m365 calls from a test's mocks and records them. Mocks for a method are used in
+ * order and the last one is repeated.
+ */
+function createMockClient(mocks: SkillTestMock[] = []) {
+  const calls: SkillTestCall[] = [];
+  const unmocked = new Set<string>();
+  const served = new Map<string, number>();
+
+  const call = async (method: string, args: unknown[]): Promise<unknown> => {
+    calls.push({ method, args });
+
+    const candidates = mocks.filter((mock) => mock.method === method);
+    if (candidates.length === 0) {
+      unmocked.add(method);
+      throw new Error(`No mock for m365 call: ${method}`);
+    }
+
+    const count = served.get(method) ?? 0;
+    served.set(method, count + 1);
+    const mock = candidates[Math.min(count, candidates.length - 1)];
+    if (mock.error !== undefined) {
+      throw new Error(mock.error);
+    }
+    // Responses cross into the sandbox as JSON, like real Graph responses
+    return mock.response === undefined ? undefined : JSON.parse(JSON.stringify(mock.response));
+  };
+
+  return { call, calls, unmocked };
+}
+
+async function runTestCase(
+  skill: Pick<M365Skill, 'name' | 'code' | 'parameters'>,
+  test: SkillTestCase,
+  graphClient: GraphClient,
+  timeout: number
+): Promise<SkillTestResult> {
+  const startTime = Date.now();
+  const mockClient = createMockClient(test.mocks);
+  const outcome: SkillTestResult = {
+    name: test.name,
+    passed: false,
+    durationMs: 0,
+    failures: [],
+    calls: mockClient.calls,
+    logs: [],
+  };
+
+  let succeeded = false;
+  const validation = validateSkillParams(skill.parameters, test.params);
+  if (!validation.valid) {
+    const details = validation.errors.map((e) => `${e.parameter}: ${e.message}`).join('; ');
+    outcome.error = `Invalid parameters for skill '${skill.name}': ${details}`;
+  } else {
+    const wrappedCode = `
+      const params = ${JSON.stringify(validation.params)};
+      ${skill.code}
+    `;
+    try {
+      const { result, logs } = await executeM365Code(wrappedCode, graphClient, {
+        timeout,
+        callM365: mockClient.call,
+        runSkill: async (nameOrId, params) => ({
+          result: await mockClient.call(`skills.${String(nameOrId)}`, [params]),
+          logs: [],
+        }),
+      });
+      succeeded = true;
+      outcome.result = result;
+      outcome.logs = logs;
+    } catch (error) {
+      outcome.error = (error as Error).message;
+      outcome.logs = (error as ExecutionError).logs ?? [];
+    }
+  }
+
+  const expected = test.expect ?? {};
+  if (expected.error !== undefined) {
+    if (succeeded) {
+      outcome.failures.push(
+        `Expected an error containing '${expected.error}' but the skill succeeded`
+      );
+    } else if (!outcome.error?.includes(expected.error)) {
+      outcome.failures.push(
+        `Expected an error containing '${expected.error}' but got '${outcome.error}'`
+      );
+    }
+  } else if (!succeeded) {
+    outcome.failures.push(`Skill failed: ${outcome.error}`);
+  }
+
+  if (succeeded && 'result' in expected && !isDeepStrictEqual(outcome.result, expected.result)) {
+    outcome.failures.push(
+      `Expected result ${JSON.stringify(expected.result)} but got ${JSON.stringify(outcome.result)}`
+    );
+  }
+  if (succeeded && 'match' in expected && !matchesExpected(outcome.result, expected.match)) {
+    outcome.failures.push(
+      `Result ${JSON.stringify(outcome.result)} does not match ${JSON.stringify(expected.match)}`
+    );
+  }
+
+  const methods = mockClient.calls.map((c) => c.method);
+  if (expected.calls && !isDeepStrictEqual(methods, expected.calls)) {
+    outcome.failures.push(
+      `Expected calls ${JSON.stringify(expected.calls)} but got ${JSON.stringify(methods)}`
+    );
+  }
+  // A skill that catches the error of an unmocked call could otherwise pass by accident
+  if (succeeded) {
+    for (const method of mockClient.unmocked) {
+      outcome.failures.push(`No mock for m365 call: ${method}`);
+    }
+  }
+
+  outcome.passed = outcome.failures.length === 0;
+  outcome.durationMs = Date.now() - startTime;
+  return outcome;
+}
+
+/**
+ * Run a skill's test cases in the sandbox against a fake m365 client that answers every call
+ * from the test's mocks, so skills can be verified without calling Graph. Test cases run one
+ * after another and nothing is recorded in the skill's usage or execution history.
+ */
+export async function runSkillTests(
+  skill: Pick<M365Skill, 'name' | 'code' | 'parameters' | 'tests'>,
+  graphClient: GraphClient,
+  options: SkillTestOptions = {}
+): Promise<SkillTestReport> {
+  const tests = options.tests ?? skill.tests ?? [];
+  const results: SkillTestResult[] = [];
+
+  for (const test of tests) {
+    results.push(
+      await runTestCase(skill, test, graphClient, options.timeout || DEFAULT_TEST_TIMEOUT)
+    );
+  }
+
+  const failed = results.filter((r) => !r.passed).length;
+  logger.info(`Skill tests of ${skill.name}: ${results.length - failed}/${results.length} passed`);
+
+  return { skillName: skill.name, passed: failed === 0, total: results.length, failed, results };
+}
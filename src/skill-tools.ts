@@ -1,21 +1,254 @@
 import { z } from 'zod';
-import { TextContent } from '@modelcontextprotocol/sdk/types.js';
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import type { McpServer, RegisteredTool } from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+  CallToolResult,
+  ServerNotification,
+  ServerRequest,
+  TextContent,
+} from '@modelcontextprotocol/sdk/types.js';
 import { SkillStorage } from './skills-storage.js';
-import { executeM365Code } from './code-execution.js';
+import { SkillStore } from './skill-store.js';
+import { createLogStreamer, ExecutionError } from './code-execution.js';
+import { CodeDiagnostic, CodeValidation } from './code-analysis.js';
 import { loadBuiltinSkills } from './builtin-skills.js';
+import {
+  buildSkillParamsSchema,
+  skillParameterDefinitionsSchema,
+  skillParametersToJsonSchema,
+  validateSkillParams,
+} from './skill-parameters.js';
+import { diffSkills } from './skill-diff.js';
+import { MAX_EXECUTION_HISTORY, summarizeExecutions } from './skill-stats.js';
+import { SkillRunner } from './skill-runner.js';
+import { runSkillTests, skillTestCaseSchema } from './skill-tests.js';
+import { MAX_SCHEDULE_RESULTS, SkillScheduler } from './skill-scheduler.js';
+import {
+  exportSkills,
+  importSkills,
+  parseSkillBundle,
+  SkillConflictResolution,
+} from './skill-bundle.js';
+import { M365Skill, SkillFilters, SkillParameter, SkillTestCase } from './types/skill.js';
 import GraphClient from './graph-client.js';
 import logger from './logger.js';
 
+type SkillToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+/**
+ * Tool name a skill is exposed under in skills-as-tools mode, e.g. skill-summarizeTodaysEmails
+ */
+export function skillToolName(skill: Pick<M365Skill, 'name'>): string {
+  return `skill-${skill.name.replace(/[^a-zA-Z0-9_-]/g, '-')}`.slice(0, 64);
+}
+
+/**
+ * Warnings about code that passed validation, e.g. m365 calls that change data
+ */
+function warningsOf(validation: CodeValidation | undefined): CodeDiagnostic[] | undefined {
+  const warnings = validation?.diagnostics.filter((d) => d.severity === 'warning');
+  return warnings && warnings.length > 0 ? warnings : undefined;
+}
+
 /**
- * Register skill management tools with MCP server
+ * Register skill management tools with MCP server. With skillsAsTools every stored skill is
+ * also registered as its own tool, kept in sync as skills are created, updated and deleted.
+ * Schedules are managed through the given scheduler, which runs them only once started. In
+ * read-only mode skills run without m365 calls that change data, and in app-only mode their /me
+ * calls need a userId.
  */
-export async function registerSkillTools(server: any, graphClient: GraphClient): Promise<void> {
-  const storage = new SkillStorage();
+export async function registerSkillTools(
+  server: McpServer,
+  graphClient: GraphClient,
+  skillsAsTools: boolean = false,
+  storage: SkillStore = new SkillStorage(),
+  skillScheduler?: SkillScheduler,
+  readOnly: boolean = false,
+  appOnly: boolean = false
+): Promise<void> {
+  const scheduler =
+    skillScheduler ?? new SkillScheduler(storage, graphClient, undefined, readOnly, appOnly);
   await storage.init();
 
   // Load built-in skills
   await loadBuiltinSkills(storage);
 
+  const runner = new SkillRunner(storage, graphClient, readOnly, appOnly);
+
+  /**
+   * Validates params, runs the skill in the sandbox and records usage and execution stats
+   */
+  async function runSkill(
+    skill: M365Skill,
+    skillParams: Record<string, unknown> | undefined,
+    timeout: number | undefined,
+    streamLogs: boolean | undefined,
+    extra: SkillToolExtra
+  ): Promise<CallToolResult> {
+    try {
+      const validation = validateSkillParams(skill.parameters, skillParams);
+      if (!validation.valid) {
+        const content: TextContent = {
+          type: 'text',
+          text: JSON.stringify(
+            {
+              success: false,
+              error: `Invalid parameters for skill '${skill.name}'`,
+              details: validation.errors,
+              parametersSchema: skillParametersToJsonSchema(skill.parameters),
+            },
+            null,
+            2
+          ),
+        };
+        return { content: [content], isError: true };
+      }
+
+      const { result, logs, executionTime } = await runner.run(skill, validation.params, {
+        timeout,
+        onLog: streamLogs ? createLogStreamer(extra.sendNotification) : undefined,
+      });
+
+      const content: TextContent = {
+        type: 'text',
+        text: JSON.stringify(
+          {
+            success: true,
+            skillName: skill.name,
+            skillId: skill.id,
+            usageCount: skill.usageCount + 1,
+            executionTime,
+            result,
+            logs,
+          },
+          null,
+          2
+        ),
+      };
+
+      return { content: [content] };
+    } catch (error) {
+      logger.error('Error executing skill:', error);
+      const content: TextContent = {
+        type: 'text',
+        text: JSON.stringify(
+          {
+            success: false,
+            error: (error as Error).message,
+            stack: (error as Error).stack,
+            logs: (error as ExecutionError).logs,
+          },
+          null,
+          2
+        ),
+      };
+      return { content: [content], isError: true };
+    }
+  }
+
+  /**
+   * Runs the tests of a skill before it is saved. Returns the error result to send back when a
+   * test fails, or null when there are no tests or all pass.
+   */
+  async function checkSkillTests(
+    skill: Pick<M365Skill, 'name' | 'code' | 'parameters' | 'tests'>
+  ): Promise<CallToolResult | null> {
+    if (!skill.tests || skill.tests.length === 0) {
+      return null;
+    }
+
+    const report = await runSkillTests(skill, graphClient);
+    if (report.passed) {
+      return null;
+    }
+
+    const content: TextContent = {
+      type: 'text',
+      text: JSON.stringify(
+        {
+          success: false,
+          error: `Skill tests failed (${report.failed} of ${report.total}); the skill was not saved`,
+          tests: report,
+        },
+        null,
+        2
+      ),
+    };
+    return { content: [content], isError: true };
+  }
+
+  async function findSkill(skillIdOrName: string): Promise<M365Skill | null> {
+    return (await storage.get(skillIdOrName)) ?? (await storage.getByName(skillIdOrName));
+  }
+
+  // Per-skill tools, keyed by skill ID
+  const skillToolHandles = new Map<string, { name: string; handle: RegisteredTool }>();
+
+  function skillToolDescription(skill: M365Skill): string {
+    return `${skill.description} (saved ${skill.category} skill '${skill.name}')`;
+  }
+
+  function registerSkillTool(skill: M365Skill): void {
+    const name = skillToolName(skill);
+    if ([...skillToolHandles.values()].some((entry) => entry.name === name)) {
+      logger.warn(`Skipping tool for skill ${skill.name} (${skill.id}): ${name} already exists`);
+      return;
+    }
+
+    const handle = server.tool(
+      name,
+      skillToolDescription(skill),
+      buildSkillParamsSchema(skill.parameters).shape,
+      {
+        title: name,
+        readOnlyHint: false,
+      },
+      async (params: Record<string, unknown>, extra: SkillToolExtra) => {
+        // Look the skill up again so the tool always runs the latest saved code
+        const current = await storage.get(skill.id);
+        if (!current) {
+          const content: TextContent = {
+            type: 'text',
+            text: JSON.stringify(
+              { success: false, error: `Skill not found: ${skill.id}` },
+              null,
+              2
+            ),
+          };
+          return { content: [content], isError: true };
+        }
+        return runSkill(current, params, undefined, false, extra);
+      }
+    );
+    skillToolHandles.set(skill.id, { name, handle });
+  }
+
+  function removeSkillTool(skillId: string): void {
+    const entry = skillToolHandles.get(skillId);
+    if (entry) {
+      skillToolHandles.delete(skillId);
+      entry.handle.remove();
+    }
+  }
+
+  function syncSkillTool(skill: M365Skill): void {
+    if (!skillsAsTools) {
+      return;
+    }
+
+    const entry = skillToolHandles.get(skill.id);
+    if (entry && entry.name === skillToolName(skill)) {
+      entry.handle.update({
+        description: skillToolDescription(skill),
+        paramsSchema: buildSkillParamsSchema(skill.parameters).shape,
+      });
+      return;
+    }
+
+    removeSkillTool(skill.id);
+    registerSkillTool(skill);
+  }
+
   // 1. CREATE SKILL
   server.tool(
     'create-m365-skill',
@@ -35,17 +268,9 @@ export async function registerSkillTools(server: any, graphClient: GraphClient):
       code: z
         .string()
         .describe(
-          'JavaScript code as async function body. Has access to m365 client and params object. Example: const messages = await m365.mail.list({filter: "isRead eq false"}); return messages.value;'
+          'JavaScript code as async function body. Has access to m365 client, params object and skills.run(nameOrId, params) to call other saved skills. Example: const messages = await m365.mail.list({filter: "isRead eq false"}); return messages.value;'
         ),
-      parameters: z
-        .record(
-          z.object({
-            type: z.enum(['string', 'number', 'boolean', 'object', 'array']),
-            description: z.string(),
-            required: z.boolean(),
-            default: z.any().optional(),
-          })
-        )
+      parameters: skillParameterDefinitionsSchema
         .optional()
         .describe('Optional parameter definitions if skill accepts inputs'),
       tags: z
@@ -56,6 +281,12 @@ export async function registerSkillTools(server: any, graphClient: GraphClient):
         .boolean()
         .optional()
         .describe('Whether skill can be shared with other users (default: false)'),
+      tests: z
+        .array(skillTestCaseSchema)
+        .optional()
+        .describe(
+          'Test cases run offline against mocked m365 responses; the skill is only saved when all pass. See test-m365-skill.'
+        ),
     },
     {
       title: 'create-m365-skill',
@@ -63,14 +294,15 @@ export async function registerSkillTools(server: any, graphClient: GraphClient):
     },
     async (params) => {
       try {
-        const { name, description, category, code, parameters, tags, isPublic } = params as {
+        const { name, description, category, code, parameters, tags, isPublic, tests } = params as {
           name: string;
           description: string;
-          category: string;
+          category: M365Skill['category'];
           code: string;
-          parameters?: Record<string, any>;
+          parameters?: Record<string, SkillParameter>;
           tags?: string[];
           isPublic?: boolean;
+          tests?: SkillTestCase[];
         };
 
         // Validate code for security
@@ -83,6 +315,7 @@ export async function registerSkillTools(server: any, graphClient: GraphClient):
                 success: false,
                 error: 'Code validation failed',
                 details: validation.errors,
+                diagnostics: validation.diagnostics,
               },
               null,
               2
@@ -108,17 +341,24 @@ export async function registerSkillTools(server: any, graphClient: GraphClient):
           return { content: [content], isError: true };
         }
 
+        const failedTests = await checkSkillTests({ name, code, parameters, tests });
+        if (failedTests) {
+          return failedTests;
+        }
+
         const skill = await storage.save({
           name,
           description,
-          category: category as any,
+          category,
           code,
           parameters,
           tags,
           isPublic: isPublic || false,
+          tests,
         });
 
         logger.info(`Skill created: ${skill.name} (${skill.id})`);
+        syncSkillTool(skill);
 
         const content: TextContent = {
           type: 'text',
@@ -127,6 +367,7 @@ export async function registerSkillTools(server: any, graphClient: GraphClient):
               success: true,
               message: `Skill '${skill.name}' created successfully`,
               skillId: skill.id,
+              warnings: warningsOf(validation),
               skill: {
                 id: skill.id,
                 name: skill.name,
@@ -163,7 +404,7 @@ export async function registerSkillTools(server: any, graphClient: GraphClient):
   // 2. LIST SKILLS
   server.tool(
     'list-m365-skills',
-    'List all saved M365 skills with optional filtering. Shows skill metadata including usage statistics.',
+    'List all saved M365 skills with optional filtering. Shows skill metadata including usage statistics, success rate and p50/p95 duration of recent runs.',
     {
       category: z
         .string()
@@ -184,14 +425,17 @@ export async function registerSkillTools(server: any, graphClient: GraphClient):
     },
     async (params) => {
       try {
-        const skills = await storage.list(params as any);
+        const skills = await storage.list(params as SkillFilters);
+        const stats = await Promise.all(
+          skills.map(async (s) => summarizeExecutions(await storage.listExecutions(s.id)))
+        );
 
         const content: TextContent = {
           type: 'text',
           text: JSON.stringify(
             {
               count: skills.length,
-              skills: skills.map((s) => ({
+              skills: skills.map((s, i) => ({
                 id: s.id,
                 name: s.name,
                 description: s.description,
@@ -202,6 +446,12 @@ export async function registerSkillTools(server: any, graphClient: GraphClient):
                 isBuiltin: s.isBuiltin,
                 createdAt: s.createdAt,
                 updatedAt: s.updatedAt,
+                stats: {
+                  runs: stats[i].runs,
+                  successRate: stats[i].successRate,
+                  p50DurationMs: stats[i].p50DurationMs,
+                  p95DurationMs: stats[i].p95DurationMs,
+                },
               })),
             },
             null,
@@ -224,7 +474,7 @@ export async function registerSkillTools(server: any, graphClient: GraphClient):
   // 3. GET SKILL
   server.tool(
     'get-m365-skill',
-    'Get details of a specific skill including its full code. Can retrieve by ID or name.',
+    'Get details of a specific skill including its full code and the JSON Schema of its parameters. Can retrieve by ID or name.',
     {
       skillId: z
         .string()
@@ -269,6 +519,7 @@ export async function registerSkillTools(server: any, graphClient: GraphClient):
             {
               success: true,
               skill,
+              parametersSchema: skillParametersToJsonSchema(skill.parameters),
             },
             null,
             2
@@ -290,7 +541,7 @@ export async function registerSkillTools(server: any, graphClient: GraphClient):
   // 4. EXECUTE SKILL
   server.tool(
     'execute-m365-skill',
-    'Execute a saved skill with optional parameters. Automatically tracks usage statistics.',
+    'Execute a saved skill with optional parameters. Parameters are validated against the skill definition (defaults applied) before execution. Automatically tracks usage statistics.',
     {
       skillId: z.string().describe('Skill ID or name to execute'),
       params: z
@@ -301,21 +552,27 @@ export async function registerSkillTools(server: any, graphClient: GraphClient):
         .number()
         .optional()
         .describe('Execution timeout in milliseconds (default: 30000, max: 60000)'),
+      streamLogs: z
+        .boolean()
+        .optional()
+        .describe('Also stream console output as MCP logging notifications while the skill runs'),
     },
     {
       title: 'execute-m365-skill',
       readOnlyHint: false,
     },
-    async (params) => {
+    async (params: unknown, extra: SkillToolExtra) => {
       try {
         const {
           skillId,
           params: skillParams,
           timeout,
+          streamLogs,
         } = params as {
           skillId: string;
-          params?: Record<string, any>;
+          params?: Record<string, unknown>;
           timeout?: number;
+          streamLogs?: boolean;
         };
 
         // Get skill
@@ -332,55 +589,12 @@ export async function registerSkillTools(server: any, graphClient: GraphClient):
           return { content: [content], isError: true };
         }
 
-        logger.info(`Executing skill: ${skill.name} (${skill.id})`);
-
-        // Wrap code with parameter injection
-        const wrappedCode = `
-          const params = ${JSON.stringify(skillParams || {})};
-          ${skill.code}
-        `;
-
-        const startTime = Date.now();
-        const result = await executeM365Code(wrappedCode, graphClient, {
-          timeout: timeout || 30000,
-        });
-        const executionTime = Date.now() - startTime;
-
-        // Increment usage counter
-        await storage.incrementUsage(skill.id);
-
-        logger.info(`Skill executed successfully: ${skill.name} (${executionTime}ms)`);
-
-        const content: TextContent = {
-          type: 'text',
-          text: JSON.stringify(
-            {
-              success: true,
-              skillName: skill.name,
-              skillId: skill.id,
-              usageCount: skill.usageCount + 1,
-              executionTime,
-              result,
-            },
-            null,
-            2
-          ),
-        };
-
-        return { content: [content] };
+        return runSkill(skill, skillParams, timeout, streamLogs, extra);
       } catch (error) {
         logger.error('Error executing skill:', error);
         const content: TextContent = {
           type: 'text',
-          text: JSON.stringify(
-            {
-              success: false,
-              error: (error as Error).message,
-              stack: (error as Error).stack,
-            },
-            null,
-            2
-          ),
+          text: JSON.stringify({ success: false, error: (error as Error).message }, null, 2),
         };
         return { content: [content], isError: true };
       }
@@ -390,7 +604,7 @@ export async function registerSkillTools(server: any, graphClient: GraphClient):
   // 5. UPDATE SKILL
   server.tool(
     'update-m365-skill',
-    'Update an existing skill. Can modify any field except ID and usage statistics.',
+    'Update an existing skill. Can modify any field except ID and usage statistics. Every update is kept as a new version that can be restored with rollback-m365-skill.',
     {
       skillId: z.string().describe('Skill ID to update'),
       updates: z
@@ -411,10 +625,17 @@ export async function registerSkillTools(server: any, graphClient: GraphClient):
             ])
             .optional(),
           tags: z.array(z.string()).optional(),
-          parameters: z.record(z.any()).optional(),
+          parameters: skillParameterDefinitionsSchema.optional(),
           isPublic: z.boolean().optional(),
+          tests: z.array(skillTestCaseSchema).optional(),
         })
-        .describe('Fields to update'),
+        .describe(
+          'Fields to update. When the skill has tests they must pass with changed code or parameters.'
+        ),
+      author: z
+        .string()
+        .optional()
+        .describe('Who is making the change, recorded in the version history'),
     },
     {
       title: 'update-m365-skill',
@@ -422,7 +643,11 @@ export async function registerSkillTools(server: any, graphClient: GraphClient):
     },
     async (params) => {
       try {
-        const { skillId, updates } = params as { skillId: string; updates: Record<string, any> };
+        const { skillId, updates, author } = params as {
+          skillId: string;
+          updates: Partial<M365Skill>;
+          author?: string;
+        };
 
         const skill = await storage.get(skillId);
         if (!skill) {
@@ -433,17 +658,16 @@ export async function registerSkillTools(server: any, graphClient: GraphClient):
           return { content: [content], isError: true };
         }
 
-        // Validate code if updating
-        if (updates.code) {
-          const validation = storage.validateCode(updates.code);
-          if (!validation.valid) {
+        // Renames must keep names unique, as create does
+        if (updates.name && updates.name !== skill.name) {
+          const existing = await storage.getByName(updates.name);
+          if (existing && existing.id !== skill.id) {
             const content: TextContent = {
               type: 'text',
               text: JSON.stringify(
                 {
                   success: false,
-                  error: 'Code validation failed',
-                  details: validation.errors,
+                  error: `Skill with name '${updates.name}' already exists`,
                 },
                 null,
                 2
@@ -453,11 +677,39 @@ export async function registerSkillTools(server: any, graphClient: GraphClient):
           }
         }
 
+        // Validate code if updating
+        const validation = updates.code ? storage.validateCode(updates.code) : undefined;
+        if (validation && !validation.valid) {
+          const content: TextContent = {
+            type: 'text',
+            text: JSON.stringify(
+              {
+                success: false,
+                error: 'Code validation failed',
+                details: validation.errors,
+                diagnostics: validation.diagnostics,
+              },
+              null,
+              2
+            ),
+          };
+          return { content: [content], isError: true };
+        }
+
         // Apply updates
         Object.assign(skill, updates);
-        const updated = await storage.save(skill);
+
+        if (updates.code || updates.parameters || updates.tests) {
+          const failedTests = await checkSkillTests(skill);
+          if (failedTests) {
+            return failedTests;
+          }
+        }
+
+        const updated = await storage.save(skill, { author });
 
         logger.info(`Skill updated: ${updated.name} (${updated.id})`);
+        syncSkillTool(updated);
 
         const content: TextContent = {
           type: 'text',
@@ -465,11 +717,13 @@ export async function registerSkillTools(server: any, graphClient: GraphClient):
             {
               success: true,
               message: `Skill '${updated.name}' updated successfully`,
+              warnings: warningsOf(validation),
               skill: {
                 id: updated.id,
                 name: updated.name,
                 description: updated.description,
                 category: updated.category,
+                version: updated.version,
                 updatedAt: updated.updatedAt,
               },
             },
@@ -533,6 +787,8 @@ export async function registerSkillTools(server: any, graphClient: GraphClient):
         }
 
         logger.info(`Skill deleted: ${skillId}`);
+        removeSkillTool(skillId);
+        await scheduler.deleteForSkill(skillId);
 
         const content: TextContent = {
           type: 'text',
@@ -607,5 +863,701 @@ export async function registerSkillTools(server: any, graphClient: GraphClient):
     }
   );
 
-  logger.info('Skill management tools registered (7 tools)');
+  // 8. LIST SKILL VERSIONS
+  server.tool(
+    'list-m365-skill-versions',
+    'List the saved versions of a skill with their timestamps and authors. Every create, update and rollback adds a version.',
+    {
+      skillId: z.string().describe('Skill ID or name'),
+    },
+    {
+      title: 'list-m365-skill-versions',
+      readOnlyHint: true,
+    },
+    async (params: unknown) => {
+      try {
+        const { skillId } = params as { skillId: string };
+
+        const skill = await findSkill(skillId);
+        if (!skill) {
+          const content: TextContent = {
+            type: 'text',
+            text: JSON.stringify({ success: false, error: `Skill not found: ${skillId}` }, null, 2),
+          };
+          return { content: [content], isError: true };
+        }
+
+        const revisions = await storage.listVersions(skill.id);
+
+        const content: TextContent = {
+          type: 'text',
+          text: JSON.stringify(
+            {
+              success: true,
+              skillId: skill.id,
+              skillName: skill.name,
+              currentVersion: skill.version,
+              versions: revisions.map((r) => ({
+                version: r.version,
+                savedAt: r.savedAt,
+                author: r.author,
+                rolledBackFrom: r.rolledBackFrom,
+                name: r.skill.name,
+                description: r.skill.description,
+              })),
+            },
+            null,
+            2
+          ),
+        };
+
+        return { content: [content] };
+      } catch (error) {
+        logger.error('Error listing skill versions:', error);
+        const content: TextContent = {
+          type: 'text',
+          text: JSON.stringify({ success: false, error: (error as Error).message }, null, 2),
+        };
+        return { content: [content], isError: true };
+      }
+    }
+  );
+
+  // 9. DIFF SKILL VERSIONS
+  server.tool(
+    'diff-m365-skill-versions',
+    'Compare two versions of a skill. Returns the changed metadata fields and a unified diff of the code.',
+    {
+      skillId: z.string().describe('Skill ID or name'),
+      fromVersion: z.number().int().describe('Older version number'),
+      toVersion: z
+        .number()
+        .int()
+        .optional()
+        .describe('Newer version number (default: current version)'),
+    },
+    {
+      title: 'diff-m365-skill-versions',
+      readOnlyHint: true,
+    },
+    async (params: unknown) => {
+      try {
+        const { skillId, fromVersion, toVersion } = params as {
+          skillId: string;
+          fromVersion: number;
+          toVersion?: number;
+        };
+
+        const skill = await findSkill(skillId);
+        if (!skill) {
+          const content: TextContent = {
+            type: 'text',
+            text: JSON.stringify({ success: false, error: `Skill not found: ${skillId}` }, null, 2),
+          };
+          return { content: [content], isError: true };
+        }
+
+        const revisions = await storage.listVersions(skill.id);
+        const from = revisions.find((r) => r.version === fromVersion);
+        const to =
+          toVersion === undefined
+            ? { version: skill.version, skill }
+            : revisions.find((r) => r.version === toVersion);
+
+        const missing = !from ? fromVersion : !to ? toVersion : undefined;
+        if (missing !== undefined) {
+          const content: TextContent = {
+            type: 'text',
+            text: JSON.stringify(
+              {
+                success: false,
+                error: `Version ${missing} of skill '${skill.name}' not found`,
+                versions: revisions.map((r) => r.version),
+              },
+              null,
+              2
+            ),
+          };
+          return { content: [content], isError: true };
+        }
+
+        const content: TextContent = {
+          type: 'text',
+          text: JSON.stringify(
+            {
+              success: true,
+              skillId: skill.id,
+              fromVersion: from!.version,
+              toVersion: to!.version,
+              ...diffSkills(from!.skill, to!.skill),
+            },
+            null,
+            2
+          ),
+        };
+
+        return { content: [content] };
+      } catch (error) {
+        logger.error('Error diffing skill versions:', error);
+        const content: TextContent = {
+          type: 'text',
+          text: JSON.stringify({ success: false, error: (error as Error).message }, null, 2),
+        };
+        return { content: [content], isError: true };
+      }
+    }
+  );
+
+  // 10. ROLLBACK SKILL
+  server.tool(
+    'rollback-m365-skill',
+    'Restore the code and metadata of an earlier skill version. The restored state is saved as a new version, so a rollback can itself be undone.',
+    {
+      skillId: z.string().describe('Skill ID or name'),
+      version: z.number().int().describe('Version number to restore'),
+      author: z
+        .string()
+        .optional()
+        .describe('Who is making the change, recorded in the version history'),
+    },
+    {
+      title: 'rollback-m365-skill',
+      readOnlyHint: false,
+    },
+    async (params: unknown) => {
+      try {
+        const { skillId, version, author } = params as {
+          skillId: string;
+          version: number;
+          author?: string;
+        };
+
+        const skill = await findSkill(skillId);
+        if (!skill) {
+          const content: TextContent = {
+            type: 'text',
+            text: JSON.stringify({ success: false, error: `Skill not found: ${skillId}` }, null, 2),
+          };
+          return { content: [content], isError: true };
+        }
+
+        const restored = await storage.rollback(skill.id, version, author);
+        syncSkillTool(restored);
+
+        logger.info(`Skill rolled back: ${restored.name} (${restored.id}) to version ${version}`);
+
+        const content: TextContent = {
+          type: 'text',
+          text: JSON.stringify(
+            {
+              success: true,
+              message: `Skill '${restored.name}' restored from version ${version}`,
+              skill: {
+                id: restored.id,
+                name: restored.name,
+                version: restored.version,
+                rolledBackFrom: version,
+                updatedAt: restored.updatedAt,
+              },
+            },
+            null,
+            2
+          ),
+        };
+
+        return { content: [content] };
+      } catch (error) {
+        logger.error('Error rolling back skill:', error);
+        const content: TextContent = {
+          type: 'text',
+          text: JSON.stringify({ success: false, error: (error as Error).message }, null, 2),
+        };
+        return { content: [content], isError: true };
+      }
+    }
+  );
+
+  // 11. SKILL STATS
+  server.tool(
+    'get-m365-skill-stats',
+    `Get execution statistics for a skill: success rate, p50/p95 duration, the last error and its most recent runs (the last ${MAX_EXECUTION_HISTORY} runs are kept). Use it to find flaky or slow skills.`,
+    {
+      skillId: z.string().describe('Skill ID or name'),
+      recentRuns: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .describe('Number of most recent runs to include (default: 10)'),
+    },
+    {
+      title: 'get-m365-skill-stats',
+      readOnlyHint: true,
+    },
+    async (params: unknown) => {
+      try {
+        const { skillId, recentRuns = 10 } = params as { skillId: string; recentRuns?: number };
+
+        const skill = await findSkill(skillId);
+        if (!skill) {
+          const content: TextContent = {
+            type: 'text',
+            text: JSON.stringify({ success: false, error: `Skill not found: ${skillId}` }, null, 2),
+          };
+          return { content: [content], isError: true };
+        }
+
+        const executions = await storage.listExecutions(skill.id);
+
+        const content: TextContent = {
+          type: 'text',
+          text: JSON.stringify(
+            {
+              success: true,
+              skillId: skill.id,
+              skillName: skill.name,
+              usageCount: skill.usageCount,
+              lastUsedAt: skill.lastUsedAt,
+              stats: summarizeExecutions(executions),
+              recentExecutions: recentRuns > 0 ? executions.slice(-recentRuns).reverse() : [],
+            },
+            null,
+            2
+          ),
+        };
+
+        return { content: [content] };
+      } catch (error) {
+        logger.error('Error getting skill stats:', error);
+        const content: TextContent = {
+          type: 'text',
+          text: JSON.stringify({ success: false, error: (error as Error).message }, null, 2),
+        };
+        return { content: [content], isError: true };
+      }
+    }
+  );
+
+  // 12. EXPORT SKILLS
+  server.tool(
+    'export-m365-skills',
+    'Export skills as a versioned bundle (manifest with checksums plus the skills) to share them with other machines or teams. Without skillIds all public skills are exported. The bundle is returned inline; use the --export-skills command line option to write it to a file.',
+    {
+      skillIds: z
+        .array(z.string())
+        .optional()
+        .describe('Skill IDs or names to export (default: all public skills)'),
+      includePrivate: z
+        .boolean()
+        .optional()
+        .describe('Also export private skills when skillIds is not given (default: false)'),
+    },
+    {
+      title: 'export-m365-skills',
+      readOnlyHint: false,
+    },
+    async (params: unknown) => {
+      try {
+        const { skillIds, includePrivate } = params as {
+          skillIds?: string[];
+          includePrivate?: boolean;
+        };
+
+        // Bundles never touch the server's file system here; files are for the CLI only
+        const bundle = await exportSkills(storage, { skillIds, includePrivate });
+
+        const content: TextContent = {
+          type: 'text',
+          text: JSON.stringify({ success: true, bundle }, null, 2),
+        };
+
+        return { content: [content] };
+      } catch (error) {
+        logger.error('Error exporting skills:', error);
+        const content: TextContent = {
+          type: 'text',
+          text: JSON.stringify({ success: false, error: (error as Error).message }, null, 2),
+        };
+        return { content: [content], isError: true };
+      }
+    }
+  );
+
+  // 13. IMPORT SKILLS
+  server.tool(
+    'import-m365-skills',
+    'Import a skill bundle created by export-m365-skills. Checksums are verified before anything is saved. Bundle files are imported with the --import-skills command line option. Imported skills get new IDs; on a name collision the skill is skipped (default), saved under a new name (rename) or saved as a new version of the existing skill (overwrite).',
+    {
+      bundle: z.string().describe('Bundle JSON as returned by export-m365-skills'),
+      onConflict: z
+        .enum(['skip', 'rename', 'overwrite'])
+        .optional()
+        .describe('What to do when a skill with the same name exists (default: skip)'),
+      author: z.string().optional().describe('Recorded on the versions the import creates'),
+    },
+    {
+      title: 'import-m365-skills',
+      readOnlyHint: false,
+    },
+    async (params: unknown) => {
+      try {
+        const { bundle, onConflict, author } = params as {
+          bundle: string;
+          onConflict?: SkillConflictResolution;
+          author?: string;
+        };
+
+        const parsed = parseSkillBundle(JSON.parse(bundle));
+        const result = await importSkills(storage, parsed, graphClient, { onConflict, author });
+
+        for (const { id } of result.imported) {
+          const skill = await storage.get(id);
+          if (skill) {
+            syncSkillTool(skill);
+          }
+        }
+
+        const content: TextContent = {
+          type: 'text',
+          text: JSON.stringify({ success: true, ...result }, null, 2),
+        };
+
+        return { content: [content] };
+      } catch (error) {
+        logger.error('Error importing skills:', error);
+        const content: TextContent = {
+          type: 'text',
+          text: JSON.stringify({ success: false, error: (error as Error).message }, null, 2),
+        };
+        return { content: [content], isError: true };
+      }
+    }
+  );
+
+  /**
+   * Scheduled runs happen later, outside the caller's request, so they could not use its tokens
+   * and run as the server's signed-in account instead. Callers with their own tokens therefore
+   * can neither create schedules nor see or remove the ones the server's account owns.
+   */
+  function schedulesUnavailable(): CallToolResult {
+    const content: TextContent = {
+      type: 'text',
+      text: JSON.stringify(
+        {
+          success: false,
+          error:
+            'Schedules are not available with OAuth tokens, since scheduled runs cannot act as the caller',
+        },
+        null,
+        2
+      ),
+    };
+    return { content: [content], isError: true };
+  }
+
+  // 14. SCHEDULE SKILL
+  server.tool(
+    'schedule-m365-skill',
+    'Run a skill on a cron schedule while the server is running, storing every result for get-m365-schedule-results. Cron uses five fields in server local time (minute hour day-of-month month day-of-week), e.g. "0 8 * * 1-5" for 8:00 on weekdays; @hourly, @daily and @weekly also work. Pass scheduleId to change, pause (enabled: false) or remove an existing schedule.',
+    {
+      skillId: z
+        .string()
+        .optional()
+        .describe('Skill ID or name to schedule (required for a new schedule)'),
+      cron: z
+        .string()
+        .optional()
+        .describe('Cron expression, e.g. "0 8 * * *" (required for a new schedule)'),
+      params: z.record(z.any()).optional().describe('Parameters passed to the skill on every run'),
+      timeout: z
+        .number()
+        .optional()
+        .describe('Execution timeout in milliseconds (default: 30000, max: 60000)'),
+      enabled: z.boolean().optional().describe('Set to false to pause the schedule'),
+      scheduleId: z.string().optional().describe('Existing schedule to change or remove'),
+      remove: z
+        .boolean()
+        .optional()
+        .describe('Delete the schedule given by scheduleId with its stored results'),
+    },
+    {
+      title: 'schedule-m365-skill',
+      readOnlyHint: false,
+    },
+    async (params: unknown) => {
+      try {
+        const {
+          skillId,
+          cron,
+          params: skillParams,
+          timeout,
+          enabled,
+          scheduleId,
+          remove,
+        } = params as {
+          skillId?: string;
+          cron?: string;
+          params?: Record<string, unknown>;
+          timeout?: number;
+          enabled?: boolean;
+          scheduleId?: string;
+          remove?: boolean;
+        };
+
+        if (graphClient.usesClientTokens()) {
+          return schedulesUnavailable();
+        }
+
+        if (remove) {
+          const deleted = scheduleId ? await scheduler.delete(scheduleId) : false;
+          const content: TextContent = {
+            type: 'text',
+            text: JSON.stringify(
+              deleted
+                ? { success: true, message: 'Schedule removed', scheduleId }
+                : { success: false, error: `Schedule not found: ${scheduleId}` },
+              null,
+              2
+            ),
+          };
+          return deleted ? { content: [content] } : { content: [content], isError: true };
+        }
+
+        let skill: M365Skill | null = null;
+        if (skillId) {
+          skill = await findSkill(skillId);
+          if (!skill) {
+            const content: TextContent = {
+              type: 'text',
+              text: JSON.stringify(
+                { success: false, error: `Skill not found: ${skillId}` },
+                null,
+                2
+              ),
+            };
+            return { content: [content], isError: true };
+          }
+        }
+
+        const schedule = await scheduler.save({
+          id: scheduleId,
+          skillId: skill?.id,
+          cron,
+          params: skillParams,
+          timeout: timeout ? Math.min(timeout, 60000) : undefined,
+          enabled,
+          account: await graphClient.getCurrentAccountId(),
+        });
+
+        const content: TextContent = {
+          type: 'text',
+          text: JSON.stringify({ success: true, schedule }, null, 2),
+        };
+
+        return { content: [content] };
+      } catch (error) {
+        logger.error('Error scheduling skill:', error);
+        const content: TextContent = {
+          type: 'text',
+          text: JSON.stringify({ success: false, error: (error as Error).message }, null, 2),
+        };
+        return { content: [content], isError: true };
+      }
+    }
+  );
+
+  // 15. LIST SCHEDULES
+  server.tool(
+    'list-m365-schedules',
+    'List skill schedules with their cron expression, next and last run times and whether the last run succeeded.',
+    {
+      skillId: z.string().optional().describe('Only list schedules of this skill (ID or name)'),
+    },
+    {
+      title: 'list-m365-schedules',
+      readOnlyHint: true,
+    },
+    async (params: unknown) => {
+      try {
+        const { skillId } = params as { skillId?: string };
+
+        if (graphClient.usesClientTokens()) {
+          return schedulesUnavailable();
+        }
+
+        let schedules;
+        if (skillId) {
+          const skill = await findSkill(skillId);
+          schedules = skill ? await scheduler.list(skill.id) : [];
+        } else {
+          schedules = await scheduler.list();
+        }
+
+        const skillNames = new Map<string, string | undefined>();
+        for (const schedule of schedules) {
+          if (!skillNames.has(schedule.skillId)) {
+            skillNames.set(schedule.skillId, (await storage.get(schedule.skillId))?.name);
+          }
+        }
+
+        const content: TextContent = {
+          type: 'text',
+          text: JSON.stringify(
+            {
+              count: schedules.length,
+              schedules: schedules.map((schedule) => ({
+                ...schedule,
+                skillName: skillNames.get(schedule.skillId),
+              })),
+            },
+            null,
+            2
+          ),
+        };
+
+        return { content: [content] };
+      } catch (error) {
+        logger.error('Error listing schedules:', error);
+        const content: TextContent = {
+          type: 'text',
+          text: JSON.stringify({ success: false, error: (error as Error).message }, null, 2),
+        };
+        return { content: [content], isError: true };
+      }
+    }
+  );
+
+  // 16. SCHEDULE RESULTS
+  server.tool(
+    'get-m365-schedule-results',
+    `Get the stored results of scheduled skill runs, newest first, without running the skill again. The last ${MAX_SCHEDULE_RESULTS} runs of each schedule are kept.`,
+    {
+      scheduleId: z
+        .string()
+        .describe('Schedule ID from schedule-m365-skill or list-m365-schedules'),
+      limit: z
+        .number()
+        .int()
+        .min(1)
+        .optional()
+        .describe('Number of most recent results to return (default: 1)'),
+    },
+    {
+      title: 'get-m365-schedule-results',
+      readOnlyHint: true,
+    },
+    async (params: unknown) => {
+      try {
+        const { scheduleId, limit = 1 } = params as { scheduleId: string; limit?: number };
+
+        if (graphClient.usesClientTokens()) {
+          return schedulesUnavailable();
+        }
+
+        const schedule = await scheduler.get(scheduleId);
+        if (!schedule) {
+          const content: TextContent = {
+            type: 'text',
+            text: JSON.stringify(
+              { success: false, error: `Schedule not found: ${scheduleId}` },
+              null,
+              2
+            ),
+          };
+          return { content: [content], isError: true };
+        }
+
+        const content: TextContent = {
+          type: 'text',
+          text: JSON.stringify(
+            {
+              success: true,
+              schedule,
+              results: await scheduler.listResults(scheduleId, limit),
+            },
+            null,
+            2
+          ),
+        };
+
+        return { content: [content] };
+      } catch (error) {
+        logger.error('Error getting schedule results:', error);
+        const content: TextContent = {
+          type: 'text',
+          text: JSON.stringify({ success: false, error: (error as Error).message }, null, 2),
+        };
+        return { content: [content], isError: true };
+      }
+    }
+  );
+
+  // 17. TEST SKILL
+  server.tool(
+    'test-m365-skill',
+    'Run the test cases of a skill offline: the skill runs in the sandbox against a fake m365 client that answers every call from the mocked responses of the test, and its result is checked against the expectations. Nothing is sent to Microsoft Graph and usage statistics are not touched. Pass tests to try test cases before storing them with update-m365-skill.',
+    {
+      skillId: z.string().describe('Skill ID or name'),
+      tests: z
+        .array(skillTestCaseSchema)
+        .optional()
+        .describe(
+          'Test cases to run instead of the stored ones. Each has a name, params, mocks ([{method: "mail.list", response: {...}}], or error instead of response to make the call fail) and expect ({result}, {match} for a partial match, {error} or {calls: ["mail.list"]})'
+        ),
+    },
+    {
+      title: 'test-m365-skill',
+      readOnlyHint: true,
+    },
+    async (params: unknown) => {
+      try {
+        const { skillId, tests } = params as { skillId: string; tests?: SkillTestCase[] };
+
+        const skill = await findSkill(skillId);
+        if (!skill) {
+          const content: TextContent = {
+            type: 'text',
+            text: JSON.stringify({ success: false, error: `Skill not found: ${skillId}` }, null, 2),
+          };
+          return { content: [content], isError: true };
+        }
+
+        const report = await runSkillTests(skill, graphClient, { tests });
+
+        const content: TextContent = {
+          type: 'text',
+          text: JSON.stringify(
+            {
+              success: report.passed,
+              ...report,
+              message:
+                report.total === 0
+                  ? `Skill '${skill.name}' has no tests`
+                  : `${report.total - report.failed} of ${report.total} tests passed`,
+            },
+            null,
+            2
+          ),
+        };
+
+        return { content: [content] };
+      } catch (error) {
+        logger.error('Error testing skill:', error);
+        const content: TextContent = {
+          type: 'text',
+          text: JSON.stringify({ success: false, error: (error as Error).message }, null, 2),
+        };
+        return { content: [content], isError: true };
+      }
+    }
+  );
+
+  logger.info('Skill management tools registered (17 tools)');
+
+  if (skillsAsTools) {
+    for (const skill of await storage.list()) {
+      registerSkillTool(skill);
+    }
+    logger.info(`Registered ${skillToolHandles.size} skills as tools`);
+  }
 }
@@ -1,13 +1,59 @@
 import fs from 'fs/promises';
 import path from 'path';
 import { randomUUID } from 'crypto';
-import { M365Skill, SkillFilters } from './types/skill.js';
+import {
+  M365Skill,
+  SkillExecution,
+  SkillFilters,
+  SkillRevision,
+  SkillUsage,
+} from './types/skill.js';
+import { MAX_EXECUTION_HISTORY } from './skill-stats.js';
+import {
+  rollbackSkill,
+  SaveOptions,
+  SkillStore,
+  SkillStoreBackend,
+  validateSkillCode,
+} from './skill-store.js';
+import { CodeValidation } from './code-analysis.js';
 import logger from './logger.js';
 
+// Pending writes per skill file, shared by every SkillStorage instance in this process
+const skillLocks = new Map<string, Promise<void>>();
+
+// Skill ids come from randomUUID(); anything else could point outside the skills directory
+const SKILL_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function isSkillId(id: string): boolean {
+  return SKILL_ID_PATTERN.test(id);
+}
+
+export function isNotFound(error: unknown): boolean {
+  return !!error && typeof error === 'object' && 'code' in error && error.code === 'ENOENT';
+}
+
+/**
+ * Write to a temporary file and rename it into place, so readers and crashes never see a
+ * partially written file
+ */
+export async function writeFileAtomic(filePath: string, content: string): Promise<void> {
+  const tempPath = `${filePath}.${randomUUID()}.tmp`;
+  try {
+    await fs.writeFile(tempPath, content, 'utf-8');
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+}
+
 /**
- * SkillStorage - File-based storage for M365 Skills
+ * SkillStorage - File-based storage for M365 Skills. Every save also keeps a numbered revision
+ * under versions/<id>/ so earlier code can be inspected and restored. Usage counts live in
+ * usage/<id>.json and recent runs in executions/<id>.json, so runs never rewrite the skill.
  */
-export class SkillStorage {
+export class SkillStorage implements SkillStore {
   private skillsDir: string;
   private initialized = false;
 
@@ -31,10 +77,32 @@ export class SkillStorage {
     }
   }
 
+  /**
+   * Run fn with exclusive access to one skill's files
+   */
+  private async withLock<T>(id: string, fn: () => Promise<T>): Promise<T> {
+    const key = path.resolve(this.skillsDir, id);
+    const previous = skillLocks.get(key) ?? Promise.resolve();
+    const run = previous.then(fn);
+    const tail = run.then(
+      () => undefined,
+      () => undefined
+    );
+    skillLocks.set(key, tail);
+
+    try {
+      return await run;
+    } finally {
+      if (skillLocks.get(key) === tail) {
+        skillLocks.delete(key);
+      }
+    }
+  }
+
   /**
    * Save a skill (create or update)
    */
-  async save(skill: Partial<M365Skill>): Promise<M365Skill> {
+  async save(skill: Partial<M365Skill>, options: SaveOptions = {}): Promise<M365Skill> {
     await this.init();
 
     // Generate ID if new skill
@@ -57,31 +125,213 @@ export class SkillStorage {
     }
 
     const fullSkill = skill as M365Skill;
-    const filePath = path.join(this.skillsDir, `${fullSkill.id}.json`);
 
     try {
-      await fs.writeFile(filePath, JSON.stringify(fullSkill, null, 2), 'utf-8');
-      logger.info(`Skill saved: ${fullSkill.name} (${fullSkill.id})`);
-      return fullSkill;
+      return await this.withLock(fullSkill.id, () =>
+        this.writeSkillWithRevision(fullSkill, options)
+      );
     } catch (error) {
       logger.error(`Failed to save skill ${fullSkill.id}:`, error);
       throw error;
     }
   }
 
+  private async writeSkillWithRevision(
+    fullSkill: M365Skill,
+    options: SaveOptions
+  ): Promise<M365Skill> {
+    const revisions = await this.listVersions(fullSkill.id);
+    if (revisions.length === 0) {
+      // Skills stored before versioning get their current state recorded as the first revision
+      const stored = await this.get(fullSkill.id);
+      if (stored) {
+        const baseline: SkillRevision = {
+          version: 1,
+          savedAt: stored.updatedAt,
+          author: stored.author,
+          skill: { ...stored, version: 1 },
+        };
+        await this.writeRevision(baseline);
+        revisions.push(baseline);
+      }
+    }
+
+    const latest = revisions[revisions.length - 1];
+    fullSkill.version = (latest?.version ?? 0) + 1;
+
+    await this.writeSkillFile(fullSkill);
+    await this.writeRevision({
+      version: fullSkill.version,
+      savedAt: fullSkill.updatedAt,
+      author: options.author ?? fullSkill.author,
+      rolledBackFrom: options.rolledBackFrom,
+      skill: fullSkill,
+    });
+    logger.info(`Skill saved: ${fullSkill.name} (${fullSkill.id}) version ${fullSkill.version}`);
+    return fullSkill;
+  }
+
+  /**
+   * Path of a file or directory of one skill; every path built from a skill id goes through
+   * here, so ids from tool input can never escape the skills directory
+   */
+  private skillPath(id: string, ...segments: string[]): string {
+    if (!isSkillId(id)) {
+      throw new Error(`Invalid skill id: ${id}`);
+    }
+    return path.join(this.skillsDir, ...segments);
+  }
+
+  private async writeSkillFile(skill: M365Skill): Promise<void> {
+    const filePath = this.skillPath(skill.id, `${skill.id}.json`);
+    await writeFileAtomic(filePath, JSON.stringify(skill, null, 2));
+  }
+
+  private usagePath(id: string): string {
+    return this.skillPath(id, 'usage', `${id}.json`);
+  }
+
+  private async readUsage(id: string): Promise<SkillUsage | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.usagePath(id), 'utf-8')) as SkillUsage;
+    } catch (error) {
+      if (isNotFound(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Overlay the separately stored usage statistics; skills that were never run since the
+   * usage record was introduced keep the count from their own file
+   */
+  private async withUsage(skill: M365Skill): Promise<M365Skill> {
+    const usage = await this.readUsage(skill.id);
+    return usage ? { ...skill, ...usage } : skill;
+  }
+
+  private executionsPath(id: string): string {
+    return this.skillPath(id, 'executions', `${id}.json`);
+  }
+
+  async recordExecution(execution: SkillExecution): Promise<void> {
+    await this.init();
+
+    await this.withLock(execution.skillId, async () => {
+      const executions = [...(await this.listExecutions(execution.skillId)), execution];
+      const filePath = this.executionsPath(execution.skillId);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await writeFileAtomic(filePath, JSON.stringify(executions.slice(-MAX_EXECUTION_HISTORY)));
+    });
+  }
+
+  async listExecutions(skillId: string): Promise<SkillExecution[]> {
+    await this.init();
+
+    if (!isSkillId(skillId)) {
+      return [];
+    }
+
+    try {
+      return JSON.parse(
+        await fs.readFile(this.executionsPath(skillId), 'utf-8')
+      ) as SkillExecution[];
+    } catch (error) {
+      if (isNotFound(error)) {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  private versionsDir(id: string): string {
+    return this.skillPath(id, 'versions', id);
+  }
+
+  private async writeRevision(revision: SkillRevision): Promise<void> {
+    const dir = this.versionsDir(revision.skill.id);
+    await fs.mkdir(dir, { recursive: true });
+    await writeFileAtomic(
+      path.join(dir, `${revision.version}.json`),
+      JSON.stringify(revision, null, 2)
+    );
+  }
+
+  /**
+   * List the revisions of a skill, oldest first
+   */
+  async listVersions(id: string): Promise<SkillRevision[]> {
+    await this.init();
+
+    if (!isSkillId(id)) {
+      return [];
+    }
+
+    let files: string[];
+    try {
+      files = await fs.readdir(this.versionsDir(id));
+    } catch (error) {
+      if (isNotFound(error)) {
+        return [];
+      }
+      throw error;
+    }
+
+    const revisions: SkillRevision[] = [];
+    for (const file of files) {
+      if (!file.endsWith('.json')) continue;
+
+      const content = await fs.readFile(path.join(this.versionsDir(id), file), 'utf-8');
+      revisions.push(JSON.parse(content) as SkillRevision);
+    }
+
+    return revisions.sort((a, b) => a.version - b.version);
+  }
+
+  /**
+   * Get a single revision of a skill
+   */
+  async getVersion(id: string, version: number): Promise<SkillRevision | null> {
+    const revisions = await this.listVersions(id);
+    return revisions.find((r) => r.version === version) || null;
+  }
+
+  /**
+   * Restore an older revision as a new one
+   */
+  async rollback(id: string, version: number, author?: string): Promise<M365Skill> {
+    return rollbackSkill(this, id, version, author);
+  }
+
+  async importSkill(skill: M365Skill, revisions: SkillRevision[]): Promise<void> {
+    await this.init();
+    await this.withLock(skill.id, async () => {
+      await this.writeSkillFile(skill);
+      for (const revision of revisions) {
+        await this.writeRevision(revision);
+      }
+    });
+  }
+
   /**
    * Get a skill by ID
    */
   async get(id: string): Promise<M365Skill | null> {
     await this.init();
 
+    // Not an id, so not a skill; callers fall back to looking the skill up by name
+    if (!isSkillId(id)) {
+      return null;
+    }
+
     try {
-      const filePath = path.join(this.skillsDir, `${id}.json`);
+      const filePath = this.skillPath(id, `${id}.json`);
       const content = await fs.readFile(filePath, 'utf-8');
       const skill = JSON.parse(content) as M365Skill;
-      return skill;
+      return await this.withUsage(skill);
     } catch (error) {
-      if (error && typeof error === 'object' && 'code' in error && error.code === 'ENOENT') {
+      if (isNotFound(error)) {
         return null;
       }
       logger.error(`Failed to get skill ${id}:`, error);
@@ -112,7 +362,7 @@ export class SkillStorage {
 
         try {
           const content = await fs.readFile(path.join(this.skillsDir, file), 'utf-8');
-          const skill = JSON.parse(content) as M365Skill;
+          const skill = await this.withUsage(JSON.parse(content) as M365Skill);
 
           // Apply filters
           if (filters?.category && skill.category !== filters.category) continue;
@@ -145,13 +395,18 @@ export class SkillStorage {
   async delete(id: string): Promise<boolean> {
     await this.init();
 
+    const filePath = this.skillPath(id, `${id}.json`);
     try {
-      const filePath = path.join(this.skillsDir, `${id}.json`);
-      await fs.unlink(filePath);
+      await this.withLock(id, async () => {
+        await fs.unlink(filePath);
+        await fs.rm(this.versionsDir(id), { recursive: true, force: true });
+        await fs.rm(this.usagePath(id), { force: true });
+        await fs.rm(this.executionsPath(id), { force: true });
+      });
       logger.info(`Skill deleted: ${id}`);
       return true;
     } catch (error) {
-      if (error && typeof error === 'object' && 'code' in error && error.code === 'ENOENT') {
+      if (isNotFound(error)) {
         return false;
       }
       logger.error(`Failed to delete skill ${id}:`, error);
@@ -160,14 +415,25 @@ export class SkillStorage {
   }
 
   /**
-   * Increment usage counter
+   * Increment usage counter. Usage is recorded in usage/<id>.json and is not an edit, so the
+   * skill's updatedAt and version stay unchanged.
    */
   async incrementUsage(id: string): Promise<void> {
-    const skill = await this.get(id);
-    if (skill) {
-      skill.usageCount++;
-      await this.save(skill);
-    }
+    await this.init();
+
+    await this.withLock(id, async () => {
+      const skill = await this.get(id);
+      if (!skill) {
+        return;
+      }
+
+      const usage: SkillUsage = {
+        usageCount: skill.usageCount + 1,
+        lastUsedAt: new Date().toISOString(),
+      };
+      await fs.mkdir(path.dirname(this.usagePath(id)), { recursive: true });
+      await writeFileAtomic(this.usagePath(id), JSON.stringify(usage, null, 2));
+    });
   }
 
   /**
@@ -188,29 +454,28 @@ export class SkillStorage {
   /**
    * Validate skill code for security
    */
-  validateCode(code: string): { valid: boolean; errors: string[] } {
-    const errors: string[] = [];
-    const forbidden = [
-      'eval(',
-      'Function(',
-      'require(',
-      'import(',
-      '__dirname',
-      '__filename',
-      'process.exit',
-      'child_process',
-    ];
-
-    for (const pattern of forbidden) {
-      if (code.includes(pattern)) {
-        errors.push(`Forbidden pattern detected: ${pattern}`);
-      }
-    }
+  validateCode(code: string): CodeValidation {
+    return validateSkillCode(code);
+  }
+}
 
-    return {
-      valid: errors.length === 0,
-      errors,
-    };
+/**
+ * Create the configured skill store. The SQLite backend is loaded on demand so the native
+ * module is only required when it is used.
+ */
+export async function createSkillStore(
+  backend: SkillStoreBackend = 'file',
+  location?: string
+): Promise<SkillStore> {
+  switch (backend) {
+    case 'file':
+      return new SkillStorage(location);
+    case 'sqlite': {
+      const { SqliteSkillStore } = await import('./sqlite-skill-store.js');
+      return new SqliteSkillStore(location);
+    }
+    default:
+      throw new Error(`Unknown skill store backend: ${backend}. Use 'file' or 'sqlite'.`);
   }
 }
 
@@ -0,0 +1,461 @@
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import Database from 'better-sqlite3';
+import { M365Skill, SkillExecution, SkillFilters, SkillRevision } from './types/skill.js';
+import { MAX_EXECUTION_HISTORY } from './skill-stats.js';
+import { rollbackSkill, SaveOptions, SkillStore, validateSkillCode } from './skill-store.js';
+import { CodeValidation } from './code-analysis.js';
+import logger from './logger.js';
+
+interface SkillRow {
+  data: string;
+  usage_count: number;
+  last_used_at: string | null;
+}
+
+interface ExecutionRow {
+  skill_id: string;
+  started_at: string;
+  duration_ms: number;
+  success: number;
+  error: string | null;
+  params_hash: string;
+  result_size: number | null;
+}
+
+interface RevisionRow {
+  version: number;
+  saved_at: string;
+  author: string | null;
+  rolled_back_from: number | null;
+  data: string;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS skills (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    description TEXT NOT NULL,
+    category TEXT NOT NULL,
+    author TEXT,
+    is_public INTEGER NOT NULL DEFAULT 0,
+    is_builtin INTEGER NOT NULL DEFAULT 0,
+    usage_count INTEGER NOT NULL DEFAULT 0,
+    last_used_at TEXT,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_skills_name ON skills (name);
+  CREATE INDEX IF NOT EXISTS idx_skills_category ON skills (category);
+
+  CREATE TABLE IF NOT EXISTS skill_tags (
+    skill_id TEXT NOT NULL REFERENCES skills (id) ON DELETE CASCADE,
+    tag TEXT NOT NULL,
+    PRIMARY KEY (skill_id, tag)
+  );
+  CREATE INDEX IF NOT EXISTS idx_skill_tags_tag ON skill_tags (tag);
+
+  CREATE TABLE IF NOT EXISTS skill_versions (
+    skill_id TEXT NOT NULL REFERENCES skills (id) ON DELETE CASCADE,
+    version INTEGER NOT NULL,
+    saved_at TEXT NOT NULL,
+    author TEXT,
+    rolled_back_from INTEGER,
+    data TEXT NOT NULL,
+    PRIMARY KEY (skill_id, version)
+  );
+
+  CREATE TABLE IF NOT EXISTS skill_executions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    skill_id TEXT NOT NULL REFERENCES skills (id) ON DELETE CASCADE,
+    started_at TEXT NOT NULL,
+    duration_ms INTEGER NOT NULL,
+    success INTEGER NOT NULL,
+    error TEXT,
+    params_hash TEXT NOT NULL,
+    result_size INTEGER
+  );
+  CREATE INDEX IF NOT EXISTS idx_skill_executions_skill ON skill_executions (skill_id, id);
+`;
+
+/**
+ * SqliteSkillStore - SQLite storage for M365 Skills. Lookups by name, category and tag use
+ * indexes instead of reading every skill; the full skill is kept as JSON in the data column.
+ */
+export class SqliteSkillStore implements SkillStore {
+  private dbPath: string;
+  private db: Database.Database | null = null;
+
+  constructor(dbPath = './data/skills.db') {
+    this.dbPath = dbPath;
+  }
+
+  /**
+   * Open the database and create the schema
+   */
+  async init(): Promise<void> {
+    if (this.db) return;
+
+    try {
+      if (this.dbPath !== ':memory:') {
+        fs.mkdirSync(path.dirname(this.dbPath), { recursive: true });
+      }
+      const db = new Database(this.dbPath);
+      db.pragma('journal_mode = WAL');
+      db.pragma('foreign_keys = ON');
+      db.exec(SCHEMA);
+      const columns = db.prepare('PRAGMA table_info(skills)').all() as { name: string }[];
+      if (!columns.some((column) => column.name === 'last_used_at')) {
+        db.exec('ALTER TABLE skills ADD COLUMN last_used_at TEXT');
+      }
+      this.db = db;
+      logger.info(`Skill storage initialized at: ${this.dbPath} (sqlite)`);
+    } catch (error) {
+      logger.error('Failed to initialize skill storage:', error);
+      throw error;
+    }
+  }
+
+  private async database(): Promise<Database.Database> {
+    await this.init();
+    return this.db!;
+  }
+
+  close(): void {
+    this.db?.close();
+    this.db = null;
+  }
+
+  private static toSkill(row: SkillRow): M365Skill {
+    // Usage columns are updated in place, so they win over the JSON snapshot
+    const skill: M365Skill = {
+      ...(JSON.parse(row.data) as M365Skill),
+      usageCount: row.usage_count,
+    };
+    if (row.last_used_at) {
+      skill.lastUsedAt = row.last_used_at;
+    }
+    return skill;
+  }
+
+  private static toRevision(row: RevisionRow): SkillRevision {
+    return {
+      version: row.version,
+      savedAt: row.saved_at,
+      author: row.author ?? undefined,
+      rolledBackFrom: row.rolled_back_from ?? undefined,
+      skill: JSON.parse(row.data) as M365Skill,
+    };
+  }
+
+  private writeSkill(db: Database.Database, skill: M365Skill): void {
+    db.prepare(
+      `INSERT INTO skills (id, name, description, category, author, is_public, is_builtin, usage_count, data)
+       VALUES (@id, @name, @description, @category, @author, @isPublic, @isBuiltin, @usageCount, @data)
+       ON CONFLICT (id) DO UPDATE SET
+         name = excluded.name,
+         description = excluded.description,
+         category = excluded.category,
+         author = excluded.author,
+         is_public = excluded.is_public,
+         is_builtin = excluded.is_builtin,
+         data = excluded.data`
+    ).run({
+      id: skill.id,
+      name: skill.name,
+      description: skill.description,
+      category: skill.category,
+      author: skill.author ?? null,
+      isPublic: skill.isPublic ? 1 : 0,
+      isBuiltin: skill.isBuiltin ? 1 : 0,
+      usageCount: skill.usageCount,
+      data: JSON.stringify(skill),
+    });
+
+    db.prepare('DELETE FROM skill_tags WHERE skill_id = ?').run(skill.id);
+    const insertTag = db.prepare('INSERT OR IGNORE INTO skill_tags (skill_id, tag) VALUES (?, ?)');
+    for (const tag of skill.tags ?? []) {
+      insertTag.run(skill.id, tag);
+    }
+  }
+
+  private writeRevision(db: Database.Database, revision: SkillRevision): void {
+    db.prepare(
+      `INSERT OR REPLACE INTO skill_versions (skill_id, version, saved_at, author, rolled_back_from, data)
+       VALUES (?, ?, ?, ?, ?, ?)`
+    ).run(
+      revision.skill.id,
+      revision.version,
+      revision.savedAt,
+      revision.author ?? null,
+      revision.rolledBackFrom ?? null,
+      JSON.stringify(revision.skill)
+    );
+  }
+
+  /**
+   * Save a skill (create or update)
+   */
+  async save(skill: Partial<M365Skill>, options: SaveOptions = {}): Promise<M365Skill> {
+    const db = await this.database();
+
+    // Generate ID if new skill
+    if (!skill.id) {
+      skill.id = randomUUID();
+      skill.createdAt = new Date().toISOString();
+      skill.usageCount = 0;
+      if (skill.isBuiltin === undefined) {
+        skill.isBuiltin = false;
+      }
+    }
+
+    skill.updatedAt = new Date().toISOString();
+
+    if (!skill.name || !skill.description || !skill.code || !skill.category) {
+      throw new Error('Missing required skill fields: name, description, code, category');
+    }
+
+    const fullSkill = skill as M365Skill;
+
+    try {
+      db.transaction(() => {
+        const { latest } = db
+          .prepare('SELECT MAX(version) AS latest FROM skill_versions WHERE skill_id = ?')
+          .get(fullSkill.id) as { latest: number | null };
+
+        let previous = latest ?? 0;
+        if (latest === null) {
+          // Skills written without a revision get their current state recorded as the first one
+          const row = db
+            .prepare('SELECT data, usage_count, last_used_at FROM skills WHERE id = ?')
+            .get(fullSkill.id) as SkillRow | undefined;
+          if (row) {
+            const stored = SqliteSkillStore.toSkill(row);
+            this.writeRevision(db, {
+              version: 1,
+              savedAt: stored.updatedAt,
+              author: stored.author,
+              skill: { ...stored, version: 1 },
+            });
+            previous = 1;
+          }
+        }
+
+        fullSkill.version = previous + 1;
+        this.writeSkill(db, fullSkill);
+        this.writeRevision(db, {
+          version: fullSkill.version,
+          savedAt: fullSkill.updatedAt,
+          author: options.author ?? fullSkill.author,
+          rolledBackFrom: options.rolledBackFrom,
+          skill: fullSkill,
+        });
+      })();
+
+      logger.info(`Skill saved: ${fullSkill.name} (${fullSkill.id}) version ${fullSkill.version}`);
+      return fullSkill;
+    } catch (error) {
+      logger.error(`Failed to save skill ${fullSkill.id}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a skill by ID
+   */
+  async get(id: string): Promise<M365Skill | null> {
+    const db = await this.database();
+    const row = db
+      .prepare('SELECT data, usage_count, last_used_at FROM skills WHERE id = ?')
+      .get(id) as SkillRow | undefined;
+    return row ? SqliteSkillStore.toSkill(row) : null;
+  }
+
+  /**
+   * Get a skill by name
+   */
+  async getByName(name: string): Promise<M365Skill | null> {
+    const db = await this.database();
+    const row = db
+      .prepare(
+        'SELECT data, usage_count, last_used_at FROM skills WHERE name = ? ORDER BY usage_count DESC LIMIT 1'
+      )
+      .get(name) as SkillRow | undefined;
+    return row ? SqliteSkillStore.toSkill(row) : null;
+  }
+
+  /**
+   * List all skills with optional filtering, most used first
+   */
+  async list(filters?: SkillFilters): Promise<M365Skill[]> {
+    const db = await this.database();
+
+    const conditions: string[] = [];
+    const values: unknown[] = [];
+
+    if (filters?.category) {
+      conditions.push('category = ?');
+      values.push(filters.category);
+    }
+    if (filters?.author) {
+      conditions.push('author = ?');
+      values.push(filters.author);
+    }
+    if (filters?.isPublic !== undefined) {
+      conditions.push('is_public = ?');
+      values.push(filters.isPublic ? 1 : 0);
+    }
+    if (filters?.isBuiltin !== undefined) {
+      conditions.push('is_builtin = ?');
+      values.push(filters.isBuiltin ? 1 : 0);
+    }
+    if (filters?.tags && filters.tags.length > 0) {
+      conditions.push(
+        `id IN (SELECT skill_id FROM skill_tags WHERE tag IN (${filters.tags.map(() => '?').join(', ')}))`
+      );
+      values.push(...filters.tags);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = db
+      .prepare(
+        `SELECT data, usage_count, last_used_at FROM skills ${where} ORDER BY usage_count DESC, name`
+      )
+      .all(...values) as SkillRow[];
+
+    return rows.map((row) => SqliteSkillStore.toSkill(row));
+  }
+
+  /**
+   * Delete a skill along with its tags and history
+   */
+  async delete(id: string): Promise<boolean> {
+    const db = await this.database();
+    const result = db.prepare('DELETE FROM skills WHERE id = ?').run(id);
+    if (result.changes > 0) {
+      logger.info(`Skill deleted: ${id}`);
+    }
+    return result.changes > 0;
+  }
+
+  /**
+   * Increment usage counter. A single UPDATE, so concurrent runs never lose counts; usage is
+   * not an edit, so no revision is recorded.
+   */
+  async incrementUsage(id: string): Promise<void> {
+    const db = await this.database();
+    db.prepare(
+      'UPDATE skills SET usage_count = usage_count + 1, last_used_at = ? WHERE id = ?'
+    ).run(new Date().toISOString(), id);
+  }
+
+  /**
+   * Search skills by query (searches name, description, tags)
+   */
+  async search(query: string): Promise<M365Skill[]> {
+    const db = await this.database();
+    const lowerQuery = query.toLowerCase();
+
+    const rows = db
+      .prepare(
+        `SELECT data, usage_count, last_used_at FROM skills
+         WHERE instr(lower(name), @query) > 0
+           OR instr(lower(description), @query) > 0
+           OR id IN (SELECT skill_id FROM skill_tags WHERE instr(lower(tag), @query) > 0)
+         ORDER BY usage_count DESC, name`
+      )
+      .all({ query: lowerQuery }) as SkillRow[];
+
+    return rows.map((row) => SqliteSkillStore.toSkill(row));
+  }
+
+  /**
+   * List the revisions of a skill, oldest first
+   */
+  async listVersions(id: string): Promise<SkillRevision[]> {
+    const db = await this.database();
+    const rows = db
+      .prepare(
+        'SELECT version, saved_at, author, rolled_back_from, data FROM skill_versions WHERE skill_id = ? ORDER BY version'
+      )
+      .all(id) as RevisionRow[];
+    return rows.map((row) => SqliteSkillStore.toRevision(row));
+  }
+
+  /**
+   * Get a single revision of a skill
+   */
+  async getVersion(id: string, version: number): Promise<SkillRevision | null> {
+    const db = await this.database();
+    const row = db
+      .prepare(
+        'SELECT version, saved_at, author, rolled_back_from, data FROM skill_versions WHERE skill_id = ? AND version = ?'
+      )
+      .get(id, version) as RevisionRow | undefined;
+    return row ? SqliteSkillStore.toRevision(row) : null;
+  }
+
+  /**
+   * Restore an older revision as a new one
+   */
+  async rollback(id: string, version: number, author?: string): Promise<M365Skill> {
+    return rollbackSkill(this, id, version, author);
+  }
+
+  async importSkill(skill: M365Skill, revisions: SkillRevision[]): Promise<void> {
+    const db = await this.database();
+    db.transaction(() => {
+      this.writeSkill(db, skill);
+      for (const revision of revisions) {
+        this.writeRevision(db, revision);
+      }
+    })();
+  }
+
+  async recordExecution(execution: SkillExecution): Promise<void> {
+    const db = await this.database();
+    db.transaction(() => {
+      db.prepare(
+        `INSERT INTO skill_executions (skill_id, started_at, duration_ms, success, error, params_hash, result_size)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`
+      ).run(
+        execution.skillId,
+        execution.startedAt,
+        execution.durationMs,
+        execution.success ? 1 : 0,
+        execution.error ?? null,
+        execution.paramsHash,
+        execution.resultSize ?? null
+      );
+      db.prepare(
+        `DELETE FROM skill_executions WHERE skill_id = ? AND id NOT IN (
+           SELECT id FROM skill_executions WHERE skill_id = ? ORDER BY id DESC LIMIT ?
+         )`
+      ).run(execution.skillId, execution.skillId, MAX_EXECUTION_HISTORY);
+    })();
+  }
+
+  async listExecutions(skillId: string): Promise<SkillExecution[]> {
+    const db = await this.database();
+    const rows = db
+      .prepare('SELECT * FROM skill_executions WHERE skill_id = ? ORDER BY id')
+      .all(skillId) as ExecutionRow[];
+
+    return rows.map((row) => ({
+      skillId: row.skill_id,
+      startedAt: row.started_at,
+      durationMs: row.duration_ms,
+      success: row.success === 1,
+      error: row.error ?? undefined,
+      paramsHash: row.params_hash,
+      resultSize: row.result_size ?? undefined,
+    }));
+  }
+
+  /**
+   * Validate skill code for security
+   */
+  validateCode(code: string): CodeValidation {
+    return validateSkillCode(code);
+  }
+}
@@ -0,0 +1,206 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createCipheriv, createDecipheriv, randomBytes, randomUUID, scryptSync } from 'crypto';
+import logger from './logger.js';
+
+const APP_DIR_NAME = 'ms-365-mcp-server';
+const KEY_LENGTH = 32; // AES-256
+const IV_LENGTH = 12; // Recommended nonce size for GCM
+
+export interface TokenCacheOptions {
+  cacheDir: string;
+  key?: string; // 32 bytes, hex or base64 encoded
+  keyFile?: string; // File holding such a key
+  passphrase?: string; // Stretched with scrypt and a random salt per write
+  generatedKeyFile?: string; // Random key used without any of the above; never in cacheDir
+}
+
+interface EncryptedEnvelope {
+  version: 1;
+  cipher: 'aes-256-gcm';
+  kdf: 'none' | 'scrypt';
+  salt?: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+/**
+ * Per-user state directory: $XDG_STATE_HOME, %LOCALAPPDATA% on Windows, otherwise
+ * ~/.local/state
+ */
+export function defaultTokenCacheDir(): string {
+  const base =
+    process.env.XDG_STATE_HOME ||
+    (process.platform === 'win32' ? process.env.LOCALAPPDATA : undefined) ||
+    path.join(os.homedir(), '.local', 'state');
+  return path.join(base, APP_DIR_NAME);
+}
+
+/**
+ * Per-user config directory for the generated token cache key, kept apart from the cache so a
+ * copy or backup of the cache directory alone cannot be decrypted: $XDG_CONFIG_HOME, %APPDATA%
+ * on Windows, otherwise ~/.config
+ */
+export function defaultTokenCacheKeyFile(): string {
+  const base =
+    process.env.XDG_CONFIG_HOME ||
+    (process.platform === 'win32' ? process.env.APPDATA : undefined) ||
+    path.join(os.homedir(), '.config');
+  return path.join(base, APP_DIR_NAME, 'token-cache.key');
+}
+
+export function loadTokenCacheOptions(cacheDir?: string): TokenCacheOptions {
+  return {
+    cacheDir: cacheDir || process.env.MS365_MCP_TOKEN_CACHE_DIR || defaultTokenCacheDir(),
+    key: process.env.MS365_MCP_TOKEN_CACHE_KEY || undefined,
+    keyFile: process.env.MS365_MCP_TOKEN_CACHE_KEY_FILE || undefined,
+    passphrase: process.env.MS365_MCP_TOKEN_CACHE_PASSPHRASE || undefined,
+    generatedKeyFile: defaultTokenCacheKeyFile(),
+  };
+}
+
+function parseKey(value: string, source: string): Buffer {
+  const trimmed = value.trim();
+  const key = /^[0-9a-f]{64}$/i.test(trimmed)
+    ? Buffer.from(trimmed, 'hex')
+    : Buffer.from(trimmed, 'base64');
+  if (key.length !== KEY_LENGTH) {
+    throw new Error(`${source} must be a ${KEY_LENGTH}-byte key, hex or base64 encoded`);
+  }
+  return key;
+}
+
+/**
+ * Write a file only the current user can read, atomically. The mode is set again after writing
+ * since an existing file keeps its permissions and the umask can narrow the requested ones.
+ */
+export function writePrivateFile(filePath: string, content: string): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true, mode: 0o700 });
+  const tempPath = `${filePath}.${randomUUID()}.tmp`;
+  try {
+    fs.writeFileSync(tempPath, content, { mode: 0o600 });
+    fs.chmodSync(tempPath, 0o600);
+    fs.renameSync(tempPath, filePath);
+  } catch (error) {
+    fs.rmSync(tempPath, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * EncryptedFileCache - AES-256-GCM encrypted file used for the MSAL token cache when the OS
+ * keychain is not available. The key comes from MS365_MCP_TOKEN_CACHE_KEY, a key file or a
+ * passphrase; without any of them a random key is generated once into the config directory,
+ * never next to the cache it protects.
+ */
+export class EncryptedFileCache {
+  constructor(
+    private filePath: string,
+    private options: TokenCacheOptions
+  ) {}
+
+  exists(): boolean {
+    return fs.existsSync(this.filePath);
+  }
+
+  read(): string | undefined {
+    if (!this.exists()) {
+      return undefined;
+    }
+
+    const envelope = JSON.parse(fs.readFileSync(this.filePath, 'utf8')) as EncryptedEnvelope;
+    if (envelope.version !== 1 || envelope.cipher !== 'aes-256-gcm') {
+      throw new Error(`Unsupported token cache format in ${this.filePath}`);
+    }
+
+    const salt = envelope.salt ? Buffer.from(envelope.salt, 'base64') : undefined;
+    const decipher = createDecipheriv(
+      'aes-256-gcm',
+      this.getKey(envelope.kdf, salt),
+      Buffer.from(envelope.iv, 'base64')
+    );
+    decipher.setAuthTag(Buffer.from(envelope.tag, 'base64'));
+    try {
+      return Buffer.concat([
+        decipher.update(Buffer.from(envelope.data, 'base64')),
+        decipher.final(),
+      ]).toString('utf8');
+    } catch {
+      throw new Error(
+        `Token cache ${this.filePath} could not be decrypted; check the token cache key or passphrase`
+      );
+    }
+  }
+
+  write(content: string): void {
+    const kdf = this.options.passphrase ? 'scrypt' : 'none';
+    const salt = kdf === 'scrypt' ? randomBytes(16) : undefined;
+    const iv = randomBytes(IV_LENGTH);
+    const cipher = createCipheriv('aes-256-gcm', this.getKey(kdf, salt), iv);
+    const data = Buffer.concat([cipher.update(content, 'utf8'), cipher.final()]);
+
+    const envelope: EncryptedEnvelope = {
+      version: 1,
+      cipher: 'aes-256-gcm',
+      kdf,
+      salt: salt?.toString('base64'),
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64'),
+    };
+    writePrivateFile(this.filePath, JSON.stringify(envelope));
+  }
+
+  delete(): void {
+    fs.rmSync(this.filePath, { force: true });
+  }
+
+  /**
+   * Move an unreadable cache aside so the next write does not destroy it; returns the new path
+   */
+  backUp(): string {
+    const backupPath = `${this.filePath}.${Date.now()}.bak`;
+    fs.renameSync(this.filePath, backupPath);
+    return backupPath;
+  }
+
+  private getKey(kdf: EncryptedEnvelope['kdf'], salt?: Buffer): Buffer {
+    const { key, keyFile, passphrase, cacheDir, generatedKeyFile } = this.options;
+
+    if (kdf === 'scrypt') {
+      if (!passphrase || !salt) {
+        throw new Error(
+          'The token cache was encrypted with a passphrase; set MS365_MCP_TOKEN_CACHE_PASSPHRASE'
+        );
+      }
+      return scryptSync(passphrase, salt, KEY_LENGTH);
+    }
+    if (key) {
+      return parseKey(key, 'MS365_MCP_TOKEN_CACHE_KEY');
+    }
+    if (keyFile) {
+      return parseKey(fs.readFileSync(keyFile, 'utf8'), `Token cache key file ${keyFile}`);
+    }
+
+    if (!generatedKeyFile) {
+      throw new Error(
+        'No token cache key configured; set MS365_MCP_TOKEN_CACHE_KEY, MS365_MCP_TOKEN_CACHE_KEY_FILE or MS365_MCP_TOKEN_CACHE_PASSPHRASE'
+      );
+    }
+    if (path.resolve(path.dirname(generatedKeyFile)) === path.resolve(cacheDir)) {
+      throw new Error(
+        `The token cache key ${generatedKeyFile} must not be kept in the token cache directory; set XDG_CONFIG_HOME or configure a key`
+      );
+    }
+    if (!fs.existsSync(generatedKeyFile)) {
+      writePrivateFile(generatedKeyFile, randomBytes(KEY_LENGTH).toString('base64'));
+      logger.info(`Generated token cache key in ${generatedKeyFile}`);
+    }
+    return parseKey(
+      fs.readFileSync(generatedKeyFile, 'utf8'),
+      `Token cache key file ${generatedKeyFile}`
+    );
+  }
+}
@@ -1,3 +1,5 @@
+import type { SandboxLogEntry } from '../code-execution.js';
+
 /**
  * Skill Parameter Definition
  */
@@ -24,8 +26,116 @@ export interface M365Skill {
   createdAt: string;
   updatedAt: string;
   usageCount: number;
+  lastUsedAt?: string;
   isPublic: boolean;
   isBuiltin?: boolean;
+  builtinHash?: string; // Hash of the shipped built-in definition this skill was loaded from
+  version?: number; // Current revision number, see SkillRevision
+  tests?: SkillTestCase[]; // Run offline by test-m365-skill and before saves
+}
+
+/**
+ * Skill Test Mock - the response (or error) of an m365 call during a skill test
+ */
+export interface SkillTestMock {
+  method: string; // Dotted m365 method path, e.g. "mail.list", or "skills.<name>" for skills.run
+  response?: unknown;
+  error?: string; // Makes the call throw with this message
+}
+
+/**
+ * Skill Test Case - runs a skill against mocked m365 responses and checks its output. Mocks for
+ * the same method answer successive calls in order; the last one answers any further calls.
+ */
+export interface SkillTestCase {
+  name: string;
+  params?: Record<string, unknown>;
+  mocks?: SkillTestMock[];
+  expect?: {
+    result?: unknown; // The result must equal this
+    match?: unknown; // The result must contain these properties; arrays are matched item by item
+    error?: string; // The skill must fail with an error containing this text
+    calls?: string[]; // The m365 methods the skill must call, in order
+  };
+}
+
+/**
+ * Skill Usage - execution statistics, stored apart from the skill so runs are not edits
+ */
+export interface SkillUsage {
+  usageCount: number;
+  lastUsedAt?: string;
+}
+
+/**
+ * Skill Execution - one recorded run of a skill
+ */
+export interface SkillExecution {
+  skillId: string;
+  startedAt: string;
+  durationMs: number;
+  success: boolean;
+  error?: string;
+  paramsHash: string; // Groups runs by input without storing the parameters themselves
+  resultSize?: number; // Bytes of the JSON result
+}
+
+/**
+ * Skill Stats - summary of a skill's recorded executions
+ */
+export interface SkillStats {
+  runs: number;
+  successes: number;
+  failures: number;
+  successRate: number | null; // 0..1, null when the skill has never run
+  p50DurationMs: number | null;
+  p95DurationMs: number | null;
+  lastRunAt?: string;
+  lastError?: string;
+}
+
+/**
+ * Skill Schedule - runs a skill whenever its cron expression matches while the server is up
+ */
+export interface SkillSchedule {
+  id: string;
+  skillId: string;
+  cron: string;
+  params?: Record<string, unknown>;
+  timeout?: number; // milliseconds
+  enabled: boolean;
+  account?: string; // homeAccountId of the account that created the schedule and runs it
+  createdAt: string;
+  updatedAt: string;
+  nextRunAt?: string; // Unset while disabled
+  lastRunAt?: string;
+  lastSuccess?: boolean;
+}
+
+/**
+ * Scheduled Run - the stored outcome of one scheduled execution
+ */
+export interface ScheduledRun {
+  scheduleId: string;
+  skillId: string;
+  skillName?: string;
+  startedAt: string;
+  durationMs: number;
+  success: boolean;
+  result?: unknown;
+  error?: string;
+  logs?: SandboxLogEntry[];
+}
+
+/**
+ * Skill Revision - a snapshot kept for every save of a skill
+ */
+export interface SkillRevision {
+  version: number;
+  savedAt: string;
+  author?: string;
+  rolledBackFrom?: number; // Set when the revision was created by rolling back to an older one
+  skill: M365Skill;
 }
 
 /**
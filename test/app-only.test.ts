@@ -0,0 +1,193 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { registerGraphTools } from '../src/graph-tools.js';
+import { getApplicationPermissions } from '../src/application-permissions.js';
+import AuthManager, { buildScopesFromEndpoints } from '../src/auth.js';
+import type { GraphClient } from '../src/graph-client.js';
+
+const { acquireTokenByClientCredential } = vi.hoisted(() => ({
+  acquireTokenByClientCredential: vi.fn(),
+}));
+
+vi.mock('@azure/msal-node', () => ({
+  PublicClientApplication: vi.fn(() => ({})),
+  ConfidentialClientApplication: vi.fn(() => ({ acquireTokenByClientCredential })),
+}));
+
+vi.mock('keytar', () => ({
+  default: {
+    getPassword: vi.fn(),
+    setPassword: vi.fn(),
+    deletePassword: vi.fn(),
+  },
+}));
+
+vi.mock('../src/generated/client.js', () => {
+  return {
+    api: {
+      endpoints: [
+        {
+          alias: 'list-mail-messages',
+          method: 'get',
+          path: '/me/messages',
+          parameters: [],
+        },
+        {
+          alias: 'send-chat-message',
+          method: 'post',
+          path: '/chats/:chatId/messages',
+          parameters: [],
+        },
+        {
+          alias: 'list-users',
+          method: 'get',
+          path: '/users',
+          parameters: [],
+        },
+      ],
+    },
+  };
+});
+
+// Built-ins would otherwise be written to the default skill store under ./data
+vi.mock('../src/builtin-skills.js', () => ({
+  loadBuiltinSkills: vi.fn(),
+}));
+
+vi.mock('../src/logger.js', () => {
+  return {
+    default: {
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    },
+  };
+});
+
+describe('App-only mode', () => {
+  describe('registerGraphTools', () => {
+    let mockServer: { tool: ReturnType<typeof vi.fn> };
+    let graphClient: {
+      graphRequest: ReturnType<typeof vi.fn>;
+      runAsAccount: (account: string | undefined, fn: () => unknown) => unknown;
+    };
+
+    function registeredTool(name: string) {
+      return mockServer.tool.mock.calls.find((call) => call[0] === name);
+    }
+
+    beforeEach(() => {
+      vi.clearAllMocks();
+      mockServer = { tool: vi.fn() };
+      graphClient = {
+        graphRequest: vi.fn().mockResolvedValue({ content: [{ type: 'text', text: '{}' }] }),
+        runAsAccount: (_account, fn) => fn(),
+      };
+    });
+
+    it('should rewrite /me tools to /users/:userId with a required userId parameter', async () => {
+      await registerGraphTools(
+        mockServer,
+        graphClient as unknown as GraphClient,
+        false,
+        undefined,
+        true,
+        true
+      );
+
+      const [, , schema, , handler] = registeredTool('list-mail-messages')!;
+      expect(schema.userId).toBeDefined();
+      expect(schema.userId.isOptional()).toBe(false);
+      expect(schema.account).toBeUndefined();
+
+      await handler({ userId: 'adele@contoso.com' });
+      expect(graphClient.graphRequest).toHaveBeenCalledWith(
+        '/users/adele%40contoso.com/messages',
+        expect.objectContaining({ method: 'GET' })
+      );
+    });
+
+    it('should skip tools without an application permission', async () => {
+      await registerGraphTools(
+        mockServer,
+        graphClient as unknown as GraphClient,
+        false,
+        undefined,
+        true,
+        true
+      );
+
+      expect(registeredTool('send-chat-message')).toBeUndefined();
+      expect(registeredTool('list-users')![2].userId).toBeUndefined();
+    });
+
+    it('should leave delegated tools untouched outside of app-only mode', async () => {
+      await registerGraphTools(mockServer, graphClient as unknown as GraphClient, false, '', true);
+
+      expect(registeredTool('send-chat-message')).toBeDefined();
+      expect(registeredTool('list-mail-messages')![2].userId).toBeUndefined();
+      expect(registeredTool('list-mail-messages')![2].account).toBeDefined();
+    });
+  });
+
+  describe('application permissions', () => {
+    it('should map delegated scopes to application permissions', () => {
+      expect(getApplicationPermissions({ scopes: ['Mail.Read.Shared', 'User.Read'] })).toEqual([
+        'Mail.Read',
+        'User.Read.All',
+      ]);
+      expect(getApplicationPermissions({ workScopes: ['ChatMessage.Send'] })).toBeNull();
+    });
+
+    it('should report the union of application permissions', () => {
+      const permissions = buildScopesFromEndpoints(true, true);
+
+      expect(permissions).toContain('Mail.ReadWrite');
+      expect(permissions).toContain('Files.ReadWrite.All');
+      expect(permissions).not.toContain('ChatMessage.Send');
+      expect(permissions).not.toContain('Files.ReadWrite');
+    });
+  });
+
+  describe('AuthManager', () => {
+    const originalTenantId = process.env.MS365_MCP_TENANT_ID;
+
+    afterEach(() => {
+      process.env.MS365_MCP_TENANT_ID = originalTenantId;
+    });
+
+    it('should require a specific tenant', () => {
+      process.env.MS365_MCP_TENANT_ID = 'common';
+      const authManager = new AuthManager(undefined, []);
+
+      expect(() => authManager.enableAppOnlyMode({ clientSecret: 'secret' })).toThrow(
+        'specific tenant'
+      );
+    });
+
+    it('should acquire .default tokens with client credentials', async () => {
+      process.env.MS365_MCP_TENANT_ID = 'contoso.onmicrosoft.com';
+      acquireTokenByClientCredential.mockResolvedValue({
+        accessToken: 'app-token',
+        expiresOn: new Date(Date.now() + 3600 * 1000),
+      });
+
+      const authManager = new AuthManager(undefined, ['Mail.Read']);
+      authManager.enableAppOnlyMode({ clientSecret: 'secret' });
+
+      expect(authManager.isAppOnlyMode()).toBe(true);
+      expect(await authManager.getToken()).toBe('app-token');
+      expect(await authManager.getToken()).toBe('app-token');
+      expect(acquireTokenByClientCredential).toHaveBeenCalledTimes(1);
+      expect(acquireTokenByClientCredential).toHaveBeenCalledWith({
+        scopes: ['https://graph.microsoft.com/.default'],
+      });
+    });
+
+    it('should require a secret or certificate', () => {
+      process.env.MS365_MCP_TENANT_ID = 'contoso.onmicrosoft.com';
+      const authManager = new AuthManager(undefined, []);
+
+      expect(() => authManager.enableAppOnlyMode({})).toThrow('MS365_MCP_CLIENT_SECRET');
+    });
+  });
+});
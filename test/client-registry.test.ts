@@ -0,0 +1,131 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import fs from 'fs/promises';
+import { ClientRegistry } from '../src/client-registry.js';
+
+vi.mock('../src/logger.js', () => ({
+  default: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+const testDataDir = './test-data/client-registry';
+
+describe('ClientRegistry', () => {
+  afterEach(async () => {
+    vi.useRealTimers();
+    await fs.rm(testDataDir, { recursive: true, force: true });
+  });
+
+  it('should persist registered clients across instances', async () => {
+    const { client, registrationAccessToken } = await new ClientRegistry(testDataDir).register({
+      client_name: 'Inspector',
+      redirect_uris: ['http://localhost:6274/oauth/callback'],
+    });
+
+    expect(client).toMatchObject({
+      client_name: 'Inspector',
+      grant_types: ['authorization_code'],
+      response_types: ['code'],
+      token_endpoint_auth_method: 'none',
+    });
+    expect(client).not.toHaveProperty('registration_token_hash');
+    expect(registrationAccessToken).toBeTruthy();
+
+    const reloaded = new ClientRegistry(testDataDir);
+    expect(await reloaded.get(client.client_id)).toEqual(client);
+    expect(await reloaded.get('unknown')).toBeUndefined();
+  });
+
+  it('should reject invalid metadata with RFC 7591 error codes', async () => {
+    const registry = new ClientRegistry(testDataDir);
+    const rejected = async (metadata: unknown) => {
+      try {
+        await registry.register(metadata);
+        return 'accepted';
+      } catch (error) {
+        return `${(error as { code: string }).code}: ${(error as Error).message}`;
+      }
+    };
+
+    expect(await rejected({ redirect_uris: [] })).toBe(
+      'invalid_redirect_uri: At least one redirect URI is required'
+    );
+    expect(await rejected({ redirect_uris: ['http://evil.example.com/cb'] })).toBe(
+      'invalid_redirect_uri: Redirect URI must use https unless it points to localhost: http://evil.example.com/cb'
+    );
+    expect(await rejected({ redirect_uris: ['javascript:alert(1)'] })).toBe(
+      'invalid_redirect_uri: Redirect URI scheme is not allowed: javascript:alert(1)'
+    );
+    expect(await rejected({ redirect_uris: ['https://app.example.com/cb#x'] })).toMatch(/fragment/);
+    expect(
+      await rejected({ redirect_uris: ['https://app.example.com/cb'], grant_types: ['password'] })
+    ).toBe('invalid_client_metadata: Unsupported grant type: password');
+    expect(
+      await rejected({
+        redirect_uris: ['https://app.example.com/cb'],
+        token_endpoint_auth_method: 'client_secret_basic',
+      })
+    ).toMatch(/^invalid_client_metadata: Unsupported token endpoint auth method/);
+    expect(await rejected({ redirect_uris: ['cursor://anysphere.cursor/callback'] })).toBe(
+      'accepted'
+    );
+  });
+
+  it('should match registered redirect URIs exactly, except for loopback ports', async () => {
+    const registry = new ClientRegistry(testDataDir);
+    const { client } = await registry.register({
+      redirect_uris: ['https://app.example.com/cb', 'http://127.0.0.1/callback'],
+    });
+
+    expect(registry.isRedirectUriAllowed(client, 'https://app.example.com/cb')).toBe(true);
+    expect(registry.isRedirectUriAllowed(client, 'https://app.example.com/cb/../x')).toBe(false);
+    expect(registry.isRedirectUriAllowed(client, 'https://evil.example.com/cb')).toBe(false);
+    expect(registry.isRedirectUriAllowed(client, 'http://127.0.0.1:51234/callback')).toBe(true);
+    expect(registry.isRedirectUriAllowed(client, 'http://127.0.0.1:51234/other')).toBe(false);
+  });
+
+  it('should delete clients only with their registration access token', async () => {
+    const registry = new ClientRegistry(testDataDir);
+    const { client, registrationAccessToken } = await registry.register({
+      redirect_uris: ['https://app.example.com/cb'],
+    });
+
+    expect(await registry.delete(client.client_id, 'wrong-token')).toBe(false);
+    expect(await registry.get(client.client_id)).toBeDefined();
+
+    expect(await registry.delete(client.client_id, registrationAccessToken)).toBe(true);
+    expect(await registry.get(client.client_id)).toBeUndefined();
+  });
+
+  it('should make room by evicting the oldest client that was never used', async () => {
+    const registry = new ClientRegistry(testDataDir, undefined, 2);
+    const metadata = { redirect_uris: ['https://app.example.com/cb'] };
+    const { client: used } = await registry.register(metadata);
+    const { client: unused } = await registry.register(metadata);
+    await registry.markUsed(used.client_id);
+
+    const { client: latest } = await registry.register(metadata);
+
+    expect(await registry.get(used.client_id)).toBeDefined();
+    expect(await registry.get(unused.client_id)).toBeUndefined();
+    expect(await registry.get(latest.client_id)).toEqual(latest);
+
+    await registry.markUsed(latest.client_id);
+    await expect(registry.register(metadata)).rejects.toThrow('Too many registered clients');
+  });
+
+  it('should expire clients after their TTL', async () => {
+    const registry = new ClientRegistry(testDataDir, 1000);
+    const { client } = await registry.register({ redirect_uris: ['https://app.example.com/cb'] });
+
+    vi.useFakeTimers({ now: Date.now() + 2000 });
+    expect(await registry.get(client.client_id)).toBeUndefined();
+
+    // Expired clients are dropped from the file on the next write
+    await registry.register({ redirect_uris: ['https://app.example.com/cb'] });
+    const stored = JSON.parse(await fs.readFile(`${testDataDir}/clients.json`, 'utf-8'));
+    expect(stored).toHaveLength(1);
+  });
+});
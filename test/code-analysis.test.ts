@@ -0,0 +1,149 @@
+import { describe, expect, it, vi } from 'vitest';
+import { analyzeCode } from '../src/code-analysis.js';
+import { BUILTIN_SKILLS } from '../src/builtin-skills.js';
+
+vi.mock('../src/generated/client.js', () => ({
+  api: {
+    endpoints: [
+      { alias: 'list-mail-messages', method: 'get', path: '/me/messages', parameters: [] },
+      { alias: 'send-mail', method: 'post', path: '/me/sendMail', parameters: [] },
+      { alias: 'list-plan-tasks', method: 'get', path: '/planner/plans/:id/tasks', parameters: [] },
+      {
+        alias: 'list-user-planner-plans',
+        method: 'get',
+        path: '/me/planner/plans',
+        parameters: [],
+      },
+      { alias: 'list-todo-task-lists', method: 'get', path: '/me/todo/lists', parameters: [] },
+      { alias: 'list-todo-tasks', method: 'get', path: '/me/todo/lists/:id/tasks', parameters: [] },
+    ],
+  },
+}));
+
+vi.mock('../src/logger.js', () => ({
+  default: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+function rules(code: string) {
+  return analyzeCode(code).diagnostics.map((d) => `${d.rule}@${d.line}:${d.column}`);
+}
+
+describe('analyzeCode', () => {
+  it('should ignore forbidden names in comments and strings', () => {
+    const result = analyzeCode(`
+      // We never call eval( or require( here
+      const note = "process.exit is not available";
+      return note;
+    `);
+
+    expect(result).toEqual({ valid: true, errors: [], diagnostics: [] });
+  });
+
+  it('should catch dynamic code generation however it is spelled', () => {
+    expect(rules('eval("1")')).toEqual(['dynamic-code@1:1']);
+    expect(rules('const F = Function; return new F("return 1")();')).toEqual(['dynamic-code@1:11']);
+    expect(rules('return import("fs");')).toEqual(['dynamic-code@1:8']);
+    expect(rules("return globalThis['ev' + 'al']('1');")).toEqual(['global-object@1:8']);
+  });
+
+  it('should catch prototype escapes', () => {
+    expect(rules('return this.constructor.constructor("return process")();')).toEqual([
+      'global-object@1:8',
+      'prototype-escape@1:13',
+      'prototype-escape@1:25',
+    ]);
+    expect(rules("return [].filter['const' + 'ructor']('return 1')();")).toEqual([
+      'prototype-escape@1:18',
+    ]);
+    expect(rules('const { constructor: F } = () => 1; return F;')).toEqual([
+      'prototype-escape@1:9',
+    ]);
+    expect(rules('return Reflect.get({}, `__proto__`);')).toEqual(['prototype-escape@1:24']);
+  });
+
+  it('should report globals the sandbox does not have', () => {
+    const result = analyzeCode('const fs = require("fs");\nprocess.exit(1);');
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual([
+      "Line 1, column 12: 'require' is not defined in the sandbox",
+      "Line 2, column 1: 'process' is not defined in the sandbox (process.exit)",
+    ]);
+  });
+
+  it('should accept ordinary code', () => {
+    const result = analyzeCode(`
+      class Counter {
+        constructor() { this.count = 0; }
+        add() { this.count++; return this; }
+      }
+      function unread({ value = [] }, ...rest) {
+        return value.filter((m) => !m.isRead).length + rest.length;
+      }
+      const messages = await m365.mail.listMailMessages({ top: params.top });
+      outer: for (const [key, value] of Object.entries({ a: 1 })) {
+        if (value) break outer;
+      }
+      try { JSON.parse('x'); } catch (error) { console.warn(error.message); }
+      return { unread: unread(messages), counter: new Counter().add().count, max: Math.max(1, 2) };
+    `);
+
+    expect(result.diagnostics).toEqual([]);
+  });
+
+  it('should check m365 calls against the sandbox client', () => {
+    const result = analyzeCode('const m = await m365.mail.lst();\nreturn m365.nope.list();');
+
+    expect(result.errors).toEqual([
+      'Line 1, column 17: Unknown m365 method: m365.mail.lst (did you mean m365.mail.list?)',
+      'Line 2, column 8: Unknown m365 method: m365.nope.list',
+    ]);
+    expect(rules('return skills.call("x");')).toEqual(['unknown-method@1:8']);
+    expect(rules('const mail = m365.mail; return mail.list.length;')).toEqual([]);
+  });
+
+  it('should report write operations, as errors in read-only mode', () => {
+    const code = 'await m365.mail.sendMail({ body: {} });\nawait m365.mail.send({});';
+
+    const result = analyzeCode(code);
+    expect(result.valid).toBe(true);
+    expect(result.diagnostics.map((d) => [d.rule, d.severity])).toEqual([
+      ['write-operation', 'warning'],
+      ['write-operation', 'warning'],
+    ]);
+
+    const readOnly = analyzeCode(code, { readOnly: true });
+    expect(readOnly.valid).toBe(false);
+    expect(readOnly.errors[0]).toBe(
+      'Line 1, column 7: m365.mail.sendMail changes data in Microsoft 365 and is not allowed in read-only mode'
+    );
+  });
+
+  it('should warn about m365 methods chosen at runtime', () => {
+    expect(analyzeCode('const name = "list"; return m365.mail[name]();').diagnostics).toEqual([
+      expect.objectContaining({ rule: 'unchecked-call', severity: 'warning', line: 1, column: 29 }),
+    ]);
+  });
+
+  it('should report syntax errors with their position', () => {
+    expect(analyzeCode('const x = (;').diagnostics).toEqual([
+      {
+        rule: 'syntax',
+        severity: 'error',
+        message: 'Syntax error: Unexpected token',
+        line: 1,
+        column: 12,
+      },
+    ]);
+  });
+
+  it('should accept every built-in skill', () => {
+    for (const skill of BUILTIN_SKILLS) {
+      expect(analyzeCode(skill.code!).errors, skill.name).toEqual([]);
+    }
+  });
+});
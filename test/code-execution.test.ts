@@ -0,0 +1,281 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  createLogStreamer,
+  ExecutionError,
+  executeM365Code,
+  SandboxLogEntry,
+} from '../src/code-execution.js';
+import type GraphClient from '../src/graph-client.js';
+
+vi.mock('../src/generated/client.js', () => ({
+  api: {
+    endpoints: [
+      {
+        alias: 'list-mail-messages',
+        method: 'get',
+        path: '/me/messages',
+        parameters: [{ name: 'top', type: 'Query' }],
+      },
+      {
+        alias: 'get-mail-message',
+        method: 'get',
+        path: '/me/messages/:messageId',
+        parameters: [{ name: 'messageId', type: 'Path' }],
+      },
+      {
+        alias: 'list-mail-folders',
+        method: 'get',
+        path: '/me/mailFolders',
+        parameters: [{ name: 'top', type: 'Query' }],
+      },
+      {
+        alias: 'list-plan-tasks',
+        method: 'get',
+        path: '/planner/plans/:plannerPlanId/tasks',
+        parameters: [{ name: 'plannerPlanId', type: 'Path' }],
+      },
+      {
+        alias: 'create-todo-task',
+        method: 'post',
+        path: '/me/todo/lists/:todoTaskListId/tasks',
+        parameters: [
+          { name: 'todoTaskListId', type: 'Path' },
+          { name: 'body', type: 'Body' },
+        ],
+      },
+    ],
+  },
+}));
+
+vi.mock('../src/logger.js', () => ({
+  default: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+describe('executeM365Code', () => {
+  let graphClient: { graphRequest: ReturnType<typeof vi.fn>; batch: ReturnType<typeof vi.fn> };
+
+  beforeEach(() => {
+    graphClient = {
+      graphRequest: vi.fn().mockResolvedValue({
+        content: [{ type: 'text', text: JSON.stringify({ value: [{ subject: 'Hello' }] }) }],
+      }),
+      batch: vi.fn(),
+    };
+  });
+
+  function execute(
+    code: string,
+    options?: {
+      timeout?: number;
+      maxMemory?: number;
+      onLog?: (entry: SandboxLogEntry) => void;
+      readOnly?: boolean;
+      appOnly?: boolean;
+    }
+  ) {
+    return executeM365Code(code, graphClient as unknown as GraphClient, options);
+  }
+
+  it('should proxy m365 calls to the parent GraphClient', async () => {
+    const { result } = await execute(`
+      const messages = await m365.mail.list({ top: 5 });
+      return messages.value.map((m) => m.subject);
+    `);
+
+    expect(result).toEqual(['Hello']);
+    expect(graphClient.graphRequest).toHaveBeenCalledWith('/me/messages?%24top=5', {
+      method: 'GET',
+      headers: {},
+    });
+  });
+
+  it('should expose generated endpoints by category with the tool parameter mapping', async () => {
+    await execute(`
+      await m365.mail.listMailFolders({ top: 2 });
+      await m365.planner.listPlanTasks({ plannerPlanId: 'plan 1' });
+      await m365.todo.createTodoTask({ todoTaskListId: 'tasks', body: { title: 'Call' } });
+    `);
+
+    expect(graphClient.graphRequest.mock.calls).toEqual([
+      ['/me/mailFolders?%24top=2', { method: 'GET', headers: {} }],
+      ['/planner/plans/plan%201/tasks', { method: 'GET', headers: {} }],
+      [
+        '/me/todo/lists/tasks/tasks',
+        { method: 'POST', headers: {}, body: JSON.stringify({ title: 'Call' }) },
+      ],
+    ]);
+  });
+
+  it('should keep the legacy positional methods working', async () => {
+    await execute('return await m365.mail.get("abc");');
+
+    expect(graphClient.graphRequest).toHaveBeenCalledWith('/me/messages/abc', {
+      method: 'GET',
+      headers: {},
+    });
+  });
+
+  it('should throw when a Graph request fails', async () => {
+    graphClient.graphRequest.mockResolvedValueOnce({
+      content: [{ type: 'text', text: JSON.stringify({ error: 'Not found' }) }],
+      isError: true,
+    });
+
+    await expect(execute('return await m365.mail.get("missing");')).rejects.toThrow('Not found');
+  });
+
+  it('should surface errors from proxied calls and user code', async () => {
+    graphClient.graphRequest.mockRejectedValueOnce(new Error('Graph unavailable'));
+
+    await expect(execute('return await m365.mail.get("1");')).rejects.toThrow('Graph unavailable');
+    await expect(execute('throw new Error("boom");')).rejects.toThrow('boom');
+  });
+
+  it('should capture console output with level and timestamp', async () => {
+    const onLog = vi.fn();
+    const { result, logs } = await execute(
+      `
+      console.log('fetched', { count: 2 });
+      console.warn('slow');
+      console.error(undefined);
+      return 'ok';
+    `,
+      { onLog }
+    );
+
+    expect(result).toBe('ok');
+    expect(logs.map(({ level, message }) => ({ level, message }))).toEqual([
+      { level: 'log', message: 'fetched {"count":2}' },
+      { level: 'warn', message: 'slow' },
+      { level: 'error', message: 'undefined' },
+    ]);
+    expect(new Date(logs[0].timestamp).getTime()).not.toBeNaN();
+    expect(onLog).toHaveBeenCalledTimes(3);
+  });
+
+  it('should bound the captured console output', async () => {
+    const { logs } = await execute(`
+      console.log('x'.repeat(5000));
+      for (let i = 0; i < 500; i++) console.log(i);
+    `);
+
+    expect(logs).toHaveLength(201);
+    expect(logs[0].message).toHaveLength(2000 + '... (truncated)'.length);
+    expect(logs[200].message).toBe('Further console output truncated');
+  });
+
+  it('should stream console output as MCP logging notifications', async () => {
+    const sendNotification = vi.fn().mockResolvedValue(undefined);
+
+    await execute('console.warn("careful");', { onLog: createLogStreamer(sendNotification) });
+
+    expect(sendNotification).toHaveBeenCalledWith({
+      method: 'notifications/message',
+      params: { level: 'warning', logger: 'm365-sandbox', data: 'careful' },
+    });
+  });
+
+  it('should attach captured logs to execution errors', async () => {
+    const error = (await execute('console.log("before"); throw new Error("boom");').catch(
+      (e) => e
+    )) as ExecutionError;
+
+    expect(error.message).toBe('boom');
+    expect(error.logs?.map((entry) => entry.message)).toEqual(['before']);
+  });
+
+  it('should reject writes at runtime in read-only mode however the method is reached', async () => {
+    const writes = [
+      'const s = m365.mail; await s.send({});',
+      'const { send } = m365.mail; await send({});',
+      'const k = "createTodoTask"; await m365.todo[k]({ todoTaskListId: "l1", body: {} });',
+      'await m365.as("bob@fabrikam.com").mail.delete("m1");',
+      'await m365.batch([{ url: "/me/messages" }, { method: "POST", url: "/me/sendMail" }]);',
+    ];
+
+    for (const code of writes) {
+      await expect(execute(code, { readOnly: true })).rejects.toThrow(
+        'is not allowed in read-only mode'
+      );
+    }
+    expect(graphClient.graphRequest).not.toHaveBeenCalled();
+    expect(graphClient.batch).not.toHaveBeenCalled();
+
+    graphClient.batch.mockResolvedValue([]);
+    await execute('await m365.mail.list(); return m365.batch([{ url: "/me/messages" }]);', {
+      readOnly: true,
+    });
+    expect(graphClient.graphRequest).toHaveBeenCalledTimes(1);
+    expect(graphClient.batch).toHaveBeenCalledTimes(1);
+  }, 20000);
+
+  it('should address /me endpoints as the given user in app-only mode', async () => {
+    await execute(
+      `return await m365.mail.listMailMessages({ userId: 'alice@contoso.com', top: 5 });`,
+      { appOnly: true }
+    );
+    await execute(`return await m365.planner.listPlanTasks({ plannerPlanId: 'p1' });`, {
+      appOnly: true,
+    });
+
+    expect(graphClient.graphRequest.mock.calls.map((call) => call[0])).toEqual([
+      '/users/alice%40contoso.com/messages?%24top=5',
+      '/planner/plans/p1/tasks',
+    ]);
+    await expect(execute(`return await m365.mail.list();`, { appOnly: true })).rejects.toThrow(
+      'list-mail-messages needs a userId in app-only mode'
+    );
+  });
+
+  it('should not expose process or require', async () => {
+    expect((await execute('return [typeof process, typeof require];')).result).toEqual([
+      'undefined',
+      'undefined',
+    ]);
+  });
+
+  it('should not expose the server environment to code escaping the vm context', async () => {
+    vi.stubEnv('MS365_MCP_CLIENT_SECRET', 'client-secret');
+    try {
+      const { result } = await execute(`
+        const proc = Object.constructor('return process')();
+        return { secret: proc.env.MS365_MCP_CLIENT_SECRET ?? null, keys: Object.keys(proc.env) };
+      `);
+      expect(result).toEqual({ secret: null, keys: [] });
+    } finally {
+      vi.unstubAllEnvs();
+    }
+  });
+
+  it('should terminate synchronous infinite loops', async () => {
+    await expect(execute('while (true) {}', { timeout: 200 })).rejects.toThrow();
+  });
+
+  it('should terminate asynchronous infinite loops on timeout', async () => {
+    const started = Date.now();
+
+    await expect(
+      execute('while (true) { await Promise.resolve(); }', { timeout: 300 })
+    ).rejects.toThrow('Execution timeout');
+
+    // The main thread stays responsive while the worker spins
+    expect(Date.now() - started).toBeLessThan(5000);
+    expect((await execute('return 1 + 1;')).result).toBe(2);
+  });
+
+  it('should enforce the memory limit', async () => {
+    await expect(
+      execute(
+        `
+        const chunks = [];
+        while (true) { chunks.push(new Array(100000).fill('x'.repeat(10))); }
+      `,
+        { timeout: 20000, maxMemory: 32 * 1024 * 1024 }
+      )
+    ).rejects.toThrow('memory limit of 32MB');
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { nextCronRun, parseCron } from '../src/cron.js';
+
+// Local times, matching how the scheduler evaluates expressions
+const at = (month: number, day: number, hour = 0, minute = 0) =>
+  new Date(2025, month - 1, day, hour, minute);
+
+describe('cron', () => {
+  it('should find the next matching minute', () => {
+    expect(nextCronRun('*/15 * * * *', at(3, 10, 9, 7))).toEqual(at(3, 10, 9, 15));
+    expect(nextCronRun('0 8 * * *', at(3, 10, 8, 0))).toEqual(at(3, 11, 8, 0));
+    expect(nextCronRun('@hourly', at(3, 10, 9, 30))).toEqual(at(3, 10, 10, 0));
+  });
+
+  it('should support ranges, lists and names for days and months', () => {
+    // 2025-03-14 is a Friday
+    expect(nextCronRun('30 7 * * mon-fri', at(3, 14, 8))).toEqual(at(3, 17, 7, 30));
+    expect(nextCronRun('0 9 1,15 * *', at(3, 2))).toEqual(at(3, 15, 9));
+    expect(nextCronRun('0 0 1 jan,jul *', at(3, 2))).toEqual(at(7, 1));
+    expect(nextCronRun('0 12 * * 7', at(3, 14))).toEqual(at(3, 16, 12));
+  });
+
+  it('should run on either restricted day field', () => {
+    // The 20th, or any Monday
+    expect(nextCronRun('0 0 20 * 1', at(3, 14, 1))).toEqual(at(3, 17));
+    expect(nextCronRun('0 0 20 * 1', at(3, 18, 1))).toEqual(at(3, 20));
+  });
+
+  it('should reject invalid expressions with the offending field', () => {
+    expect(() => parseCron('* * *')).toThrow('expected 5 fields');
+    expect(() => parseCron('60 * * * *')).toThrow('minute 60 is outside 0-59');
+    expect(() => parseCron('* * * foo *')).toThrow("'foo' is not a valid month");
+    expect(() => parseCron('*/0 * * * *')).toThrow("'0' is not a valid step for minute");
+    expect(() => parseCron('* 5-2 * * *')).toThrow('hour range 5-2 is reversed');
+    expect(() => nextCronRun('0 0 30 2 *', at(1, 1))).toThrow('never matches');
+  });
+});
@@ -0,0 +1,270 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import GraphClient, { BatchRequestItem } from '../src/graph-client.js';
+import type AuthManager from '../src/auth.js';
+
+vi.mock('../src/logger.js', () => ({
+  default: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+vi.mock('../src/auth.js', () => ({
+  default: vi.fn(),
+}));
+
+function mockResponse(status: number, body = '', headers: Record<string, string> = {}) {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: `Status ${status}`,
+    headers: new Headers(headers),
+    text: async () => body,
+  };
+}
+
+describe('GraphClient retry handling', () => {
+  let graphClient: GraphClient;
+
+  beforeEach(() => {
+    global.fetch = vi.fn();
+    const authManager = {
+      getToken: vi.fn().mockResolvedValue('mock-token'),
+    } as unknown as AuthManager;
+    graphClient = new GraphClient(authManager, { maxRetries: 3, baseDelayMs: 1, maxDelayMs: 5 });
+  });
+
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('should retry throttled GET requests and report the retry count in _meta', async () => {
+    vi.mocked(global.fetch)
+      .mockResolvedValueOnce(mockResponse(429, 'throttled', { 'Retry-After': '0' }) as Response)
+      .mockResolvedValueOnce(mockResponse(503, 'unavailable') as Response)
+      .mockResolvedValueOnce(mockResponse(200, JSON.stringify({ value: [1, 2] })) as Response);
+
+    const response = await graphClient.graphRequest('/me/messages');
+
+    expect(global.fetch).toHaveBeenCalledTimes(3);
+    expect(response.isError).toBeUndefined();
+    expect(response._meta).toEqual({ retries: 2 });
+    expect(JSON.parse(response.content[0].text)).toEqual({ value: [1, 2] });
+  });
+
+  it('should not add retry metadata when the first attempt succeeds', async () => {
+    vi.mocked(global.fetch).mockResolvedValueOnce(
+      mockResponse(200, JSON.stringify({ id: '1' })) as Response
+    );
+
+    const response = await graphClient.graphRequest('/me');
+
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+    expect(response._meta).toBeUndefined();
+  });
+
+  it('should give up after maxRetries and return an error', async () => {
+    vi.mocked(global.fetch).mockResolvedValue(mockResponse(504, 'timeout') as Response);
+
+    const response = await graphClient.graphRequest('/me/events');
+
+    expect(global.fetch).toHaveBeenCalledTimes(4);
+    expect(response.isError).toBe(true);
+    expect(response.content[0].text).toContain('gave up after 3 retries');
+  });
+
+  it('should retry non-idempotent requests on 429', async () => {
+    vi.mocked(global.fetch)
+      .mockResolvedValueOnce(mockResponse(429, 'throttled') as Response)
+      .mockResolvedValueOnce(mockResponse(202) as Response);
+
+    const response = await graphClient.graphRequest('/me/sendMail', { method: 'POST' });
+
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+    expect(response._meta).toEqual({ retries: 1 });
+  });
+
+  it('should not retry non-idempotent requests on 504 or 503 without Retry-After', async () => {
+    vi.mocked(global.fetch).mockResolvedValueOnce(mockResponse(504, 'timeout') as Response);
+    const gatewayTimeout = await graphClient.graphRequest('/me/events', { method: 'POST' });
+    expect(gatewayTimeout.isError).toBe(true);
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+
+    vi.mocked(global.fetch).mockResolvedValueOnce(mockResponse(503, 'unavailable') as Response);
+    const unavailable = await graphClient.graphRequest('/me/events', { method: 'PATCH' });
+    expect(unavailable.isError).toBe(true);
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should retry non-idempotent requests on 503 when Retry-After is present', async () => {
+    vi.mocked(global.fetch)
+      .mockResolvedValueOnce(mockResponse(503, 'unavailable', { 'Retry-After': '0' }) as Response)
+      .mockResolvedValueOnce(mockResponse(201, JSON.stringify({ id: 'new' })) as Response);
+
+    const response = await graphClient.graphRequest('/me/events', { method: 'POST' });
+
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+    expect(JSON.parse(response.content[0].text)).toEqual({ id: 'new' });
+  });
+
+  it('should cap Retry-After delays at maxDelayMs', async () => {
+    const setTimeoutSpy = vi.spyOn(global, 'setTimeout');
+    vi.mocked(global.fetch)
+      .mockResolvedValueOnce(mockResponse(429, 'throttled', { 'Retry-After': '120' }) as Response)
+      .mockResolvedValueOnce(mockResponse(200, '{}') as Response);
+
+    await graphClient.graphRequest('/me/messages');
+
+    expect(setTimeoutSpy).toHaveBeenCalledWith(expect.any(Function), 5);
+  });
+});
+
+describe('GraphClient batching', () => {
+  let graphClient: GraphClient;
+
+  function batchBodies(): { requests: Record<string, unknown>[] }[] {
+    return vi
+      .mocked(global.fetch)
+      .mock.calls.map((call) => JSON.parse((call[1] as { body: string }).body));
+  }
+
+  function echoBatch() {
+    vi.mocked(global.fetch).mockImplementation(async (_url, init) => {
+      const { requests } = JSON.parse((init as { body: string }).body);
+      const responses = requests.map((request: { id: string }) => ({
+        id: request.id,
+        status: 200,
+        body: { id: request.id },
+      }));
+      return mockResponse(200, JSON.stringify({ responses })) as Response;
+    });
+  }
+
+  beforeEach(() => {
+    global.fetch = vi.fn();
+    const authManager = {
+      getToken: vi.fn().mockResolvedValue('mock-token'),
+    } as unknown as AuthManager;
+    graphClient = new GraphClient(authManager, { maxRetries: 0 });
+  });
+
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('should send requests to the $batch endpoint and return responses in input order', async () => {
+    vi.mocked(global.fetch).mockResolvedValueOnce(
+      mockResponse(
+        200,
+        JSON.stringify({
+          responses: [
+            { id: '2', status: 200, body: { displayName: 'Me' } },
+            { id: '1', status: 200, body: { value: [] } },
+          ],
+        })
+      ) as Response
+    );
+
+    const responses = await graphClient.batch([
+      { url: '/me/messages' },
+      { url: '/me', method: 'get' },
+    ]);
+
+    expect(global.fetch).toHaveBeenCalledWith(
+      'https://graph.microsoft.com/v1.0/$batch',
+      expect.objectContaining({ method: 'POST' })
+    );
+    expect(batchBodies()[0].requests).toEqual([
+      { id: '1', method: 'GET', url: '/me/messages' },
+      { id: '2', method: 'GET', url: '/me' },
+    ]);
+    expect(responses.map((r) => r.id)).toEqual(['1', '2']);
+    expect(responses[1].body).toEqual({ displayName: 'Me' });
+  });
+
+  it('should split more than 20 requests into multiple batches', async () => {
+    echoBatch();
+
+    const requests = Array.from({ length: 45 }, (_, i) => ({ url: `/me/todo/lists/${i}/tasks` }));
+    const responses = await graphClient.batch(requests);
+
+    expect(batchBodies().map((body) => body.requests.length)).toEqual([20, 20, 5]);
+    expect(responses).toHaveLength(45);
+    expect(responses[44]).toEqual({ id: '45', status: 200, body: { id: '45' } });
+  });
+
+  it('should keep dependsOn chains in the same batch', async () => {
+    echoBatch();
+
+    const requests: BatchRequestItem[] = Array.from({ length: 19 }, (_, i) => ({
+      id: `a${i}`,
+      url: '/me',
+    }));
+    requests.push({ id: 'create', url: '/me/todo/lists' });
+    requests.push({ id: 'task', url: '/me/todo/lists/x/tasks', dependsOn: ['create'] });
+
+    await graphClient.batch(requests);
+
+    const [first, second] = batchBodies();
+    expect(first.requests).toHaveLength(19);
+    expect(second.requests.map((r) => r.id)).toEqual(['create', 'task']);
+    expect(second.requests[1].dependsOn).toEqual(['create']);
+  });
+
+  it('should add a JSON Content-Type header for requests with a body', async () => {
+    echoBatch();
+
+    await graphClient.batch([
+      { method: 'POST', url: '/me/events', body: JSON.stringify({ subject: 'Sync' }) },
+    ]);
+
+    expect(batchBodies()[0].requests[0]).toEqual({
+      id: '1',
+      method: 'POST',
+      url: '/me/events',
+      body: { subject: 'Sync' },
+      headers: { 'Content-Type': 'application/json' },
+    });
+  });
+
+  it('should map failed items to error objects', async () => {
+    vi.mocked(global.fetch).mockResolvedValueOnce(
+      mockResponse(
+        200,
+        JSON.stringify({
+          responses: [
+            {
+              id: '1',
+              status: 404,
+              body: { error: { code: 'ItemNotFound', message: 'Not found' } },
+            },
+            { id: '2', status: 500 },
+          ],
+        })
+      ) as Response
+    );
+
+    const responses = await graphClient.batch([{ url: '/me/events/x' }, { url: '/me/events/y' }]);
+
+    expect(responses[0].error).toEqual({ code: 'ItemNotFound', message: 'Not found' });
+    expect(responses[1].error).toEqual({
+      code: 'http500',
+      message: 'Request failed with status 500',
+    });
+  });
+
+  it('should reject duplicate ids and unknown dependencies', async () => {
+    await expect(
+      graphClient.batch([
+        { id: 'a', url: '/me' },
+        { id: 'a', url: '/me' },
+      ])
+    ).rejects.toThrow('Duplicate batch request id: a');
+
+    await expect(graphClient.batch([{ id: 'a', url: '/me', dependsOn: ['b'] }])).rejects.toThrow(
+      'depends on unknown request id: b'
+    );
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+});
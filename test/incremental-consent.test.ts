@@ -0,0 +1,166 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import AuthManager, { buildScopesFromProfile } from '../src/auth.js';
+import GraphClient from '../src/graph-client.js';
+import { registerGraphTools } from '../src/graph-tools.js';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+
+const account = { homeAccountId: 'alice-id', username: 'alice@contoso.com' };
+
+const { acquireTokenSilent, acquireTokenByDeviceCode } = vi.hoisted(() => ({
+  acquireTokenSilent: vi.fn(),
+  acquireTokenByDeviceCode: vi.fn(),
+}));
+
+vi.mock('@azure/msal-node', () => ({
+  PublicClientApplication: vi.fn(() => ({
+    getTokenCache: () => ({ getAllAccounts: async () => [account], serialize: () => '{}' }),
+    acquireTokenSilent,
+    acquireTokenByDeviceCode,
+  })),
+  ConfidentialClientApplication: vi.fn(),
+}));
+
+vi.mock('keytar', () => ({
+  default: {
+    getPassword: vi.fn(),
+    setPassword: vi.fn(),
+    deletePassword: vi.fn(),
+  },
+}));
+
+vi.mock('../src/generated/client.js', () => ({
+  api: {
+    endpoints: [
+      { alias: 'list-mail-messages', method: 'get', path: '/me/messages', parameters: [] },
+      { alias: 'list-calendar-events', method: 'get', path: '/me/events', parameters: [] },
+    ],
+  },
+}));
+
+// Built-ins would otherwise be written to the default skill store under ./data
+vi.mock('../src/builtin-skills.js', () => ({
+  loadBuiltinSkills: vi.fn(),
+}));
+
+vi.mock('../src/logger.js', () => ({
+  default: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+const deviceCode = {
+  message: 'To sign in, open https://microsoft.com/devicelogin and enter the code ABCD1234.',
+  verificationUri: 'https://microsoft.com/devicelogin',
+  userCode: 'ABCD1234',
+  expiresIn: 900,
+};
+
+describe('Incremental consent', () => {
+  let grantedScopes: string[];
+
+  beforeEach(() => {
+    grantedScopes = ['openid', 'https://graph.microsoft.com/User.Read', 'Mail.ReadWrite'];
+    acquireTokenSilent.mockImplementation(async () => ({
+      account,
+      accessToken: 'token',
+      scopes: grantedScopes,
+      expiresOn: new Date(Date.now() + 3600 * 1000),
+    }));
+
+    global.fetch = vi.fn(
+      async () =>
+        ({
+          ok: true,
+          status: 200,
+          headers: new Headers(),
+          text: async () => JSON.stringify({ value: [] }),
+        }) as Response
+    );
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should build the scopes of a profile', () => {
+    expect(buildScopesFromProfile('minimal')).toEqual(['User.Read']);
+
+    const mail = buildScopesFromProfile('mail');
+    expect(mail).toEqual(expect.arrayContaining(['User.Read', 'Mail.ReadWrite', 'Mail.Send']));
+    expect(mail).not.toContain('Calendars.ReadWrite');
+    expect(buildScopesFromProfile('mail', true)).toContain('Mail.Read.Shared');
+
+    expect(buildScopesFromProfile('all')).toContain('Notes.Read');
+    expect(() => buildScopesFromProfile('everything')).toThrow(
+      'Unknown scopes profile: everything (available: minimal, mail, calendar, files, tasks, all)'
+    );
+  });
+
+  it('should report scopes outside the profile that the account has not granted', async () => {
+    const authManager = new AuthManager(undefined, ['User.Read']);
+
+    // Mail.ReadWrite was granted earlier and covers Mail.Read
+    expect(await authManager.getMissingScopes(['Mail.Read'])).toEqual([]);
+    expect(await authManager.getMissingScopes(['Calendars.Read', 'User.Read'])).toEqual([
+      'Calendars.Read',
+    ]);
+    expect(await authManager.getMissingScopes(['Calendars.Read'], 'alice@contoso.com')).toEqual([
+      'Calendars.Read',
+    ]);
+
+    await authManager.setOAuthToken('oauth-token');
+    expect(await authManager.getMissingScopes(['Calendars.Read'])).toEqual([]);
+  });
+
+  it('should ask for consent to the category before calling Graph', async () => {
+    let completeLogin: () => void = () => {};
+    acquireTokenByDeviceCode.mockImplementation(async ({ deviceCodeCallback }) => {
+      deviceCodeCallback(deviceCode);
+      await new Promise<void>((resolve) => (completeLogin = resolve));
+      grantedScopes = [...grantedScopes, 'Calendars.ReadWrite'];
+      return { account, accessToken: 'token', scopes: grantedScopes };
+    });
+
+    const authManager = new AuthManager(undefined, ['User.Read']);
+    const graphClient = new GraphClient(authManager, { maxRetries: 0 });
+    const server = { tool: vi.fn(() => ({ disable: vi.fn() })) };
+    await registerGraphTools(server as unknown as McpServer, graphClient);
+    const handler = server.tool.mock.calls.find(
+      (call: unknown[]) => call[0] === 'list-calendar-events'
+    )![4] as unknown as (params: unknown) => Promise<{ content: { text: string }[] }>;
+
+    const first = await handler({});
+    const second = await handler({});
+    expect(JSON.parse(first.content[0].text)).toEqual({
+      error: 'consent_required',
+      category: 'calendar',
+      missingScopes: ['Calendars.Read'],
+      scopes: ['Calendars.Read', 'Calendars.ReadWrite'],
+      message: `${deviceCode.message} Then call the tool again.`,
+      verificationUri: deviceCode.verificationUri,
+      userCode: 'ABCD1234',
+      expiresIn: 900,
+    });
+    expect(second).toEqual(first);
+    expect(acquireTokenByDeviceCode).toHaveBeenCalledTimes(1);
+    expect(acquireTokenByDeviceCode.mock.calls[0][0].scopes).toEqual([
+      'User.Read',
+      'Calendars.Read',
+      'Calendars.ReadWrite',
+    ]);
+    expect(global.fetch).not.toHaveBeenCalled();
+
+    completeLogin();
+    await vi.waitFor(() =>
+      expect(authManager.getMissingScopes(['Calendars.Read'])).resolves.toEqual([])
+    );
+
+    await handler({});
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+    expect(acquireTokenSilent).toHaveBeenLastCalledWith(
+      expect.objectContaining({ scopes: expect.arrayContaining(['Calendars.ReadWrite']) })
+    );
+  });
+});
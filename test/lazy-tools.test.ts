@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ToolListChangedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { registerGraphTools } from '../src/graph-tools.js';
+import type { GraphClient } from '../src/graph-client.js';
+
+// Built-ins would otherwise be written to the default skill store under ./data
+vi.mock('../src/builtin-skills.js', () => ({
+  loadBuiltinSkills: vi.fn(),
+}));
+
+vi.mock('../src/logger.js', () => ({
+  default: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+vi.mock('../src/generated/client.js', () => ({
+  api: {
+    endpoints: [
+      { alias: 'list-mail-messages', method: 'get', path: '/me/messages', parameters: [] },
+      { alias: 'send-mail', method: 'post', path: '/me/sendMail', parameters: [] },
+      { alias: 'list-calendar-events', method: 'get', path: '/me/events', parameters: [] },
+    ],
+  },
+}));
+
+describe('Lazy tool loading', () => {
+  let client: Client;
+  let server: McpServer;
+  let listChanged: ReturnType<typeof vi.fn>;
+
+  async function toolNames(): Promise<string[]> {
+    const { tools } = await client.listTools();
+    return tools.map((tool) => tool.name);
+  }
+
+  async function callTool(name: string, category: string) {
+    const result = await client.callTool({ name, arguments: { category } });
+    return {
+      isError: result.isError,
+      body: JSON.parse((result.content as { text: string }[])[0].text),
+    };
+  }
+
+  async function connect(lazyTools: boolean): Promise<void> {
+    server = new McpServer({ name: 'test', version: '1.0.0' });
+    await registerGraphTools(server, {} as GraphClient, false, undefined, false, false, lazyTools);
+
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    listChanged = vi.fn();
+    client.setNotificationHandler(ToolListChangedNotificationSchema, listChanged);
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await server.close();
+  });
+
+  it('should start with only meta tools when lazy tools are enabled', async () => {
+    await connect(true);
+
+    const names = await toolNames();
+    expect(names).toContain('list-m365-categories');
+    expect(names).toContain('enable-m365-category');
+    expect(names).not.toContain('list-mail-messages');
+    expect(names).not.toContain('list-calendar-events');
+  });
+
+  it('should load and unload a category and notify the client', async () => {
+    await connect(true);
+
+    const enabled = await callTool('enable-m365-category', 'mail');
+    expect(enabled.body).toEqual({
+      category: 'mail',
+      enabled: true,
+      changedTools: 2,
+      enabledTools: 2,
+    });
+    // One notification per changed tool
+    await vi.waitFor(() => expect(listChanged).toHaveBeenCalledTimes(2));
+
+    let names = await toolNames();
+    expect(names).toContain('list-mail-messages');
+    expect(names).toContain('send-mail');
+    expect(names).not.toContain('list-calendar-events');
+
+    await callTool('disable-m365-category', 'mail');
+    await vi.waitFor(() => expect(listChanged).toHaveBeenCalledTimes(4));
+
+    names = await toolNames();
+    expect(names).not.toContain('list-mail-messages');
+  });
+
+  it('should not notify when nothing changes', async () => {
+    await connect(false);
+
+    const result = await callTool('enable-m365-category', 'calendar');
+    expect(result.body.changedTools).toBe(0);
+    expect(await toolNames()).toContain('list-calendar-events');
+    expect(listChanged).not.toHaveBeenCalled();
+  });
+
+  it('should report unknown categories as errors', async () => {
+    await connect(true);
+
+    const result = await callTool('enable-m365-category', 'unknown');
+    expect(result.isError).toBe(true);
+    expect(result.body.error).toContain('list-m365-categories');
+  });
+});
@@ -0,0 +1,300 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import fs from 'fs/promises';
+import path from 'path';
+import { generateKeyPairSync, sign } from 'crypto';
+import type { Request, Response } from 'express';
+import {
+  createMicrosoftBearerTokenAuthMiddleware,
+  loadTokenValidationOptions,
+  MicrosoftTokenValidator,
+  OnBehalfOfTokenExchanger,
+  SigningKeysUnavailableError,
+  TokenValidationOptions,
+} from '../src/lib/microsoft-auth.js';
+import GraphClient from '../src/graph-client.js';
+import type AuthManager from '../src/auth.js';
+
+vi.mock('../src/logger.js', () => ({
+  default: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+vi.mock('../src/auth.js', () => ({
+  default: vi.fn(),
+}));
+
+const testDataDir = './test-data/microsoft-auth';
+const jwksPath = path.join(testDataDir, 'jwks.json');
+const tenantId = '72f988bf-86f1-41af-91ab-2d7cd011db47';
+const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const { privateKey: otherKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+function createToken(
+  claims: Record<string, unknown> = {},
+  { kid = 'key-1', key = privateKey } = {}
+): string {
+  const now = Math.floor(Date.now() / 1000);
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const header = encode({ alg: 'RS256', typ: 'JWT', kid });
+  const payload = encode({
+    aud: 'api://server-app',
+    iss: `https://login.microsoftonline.com/${tenantId}/v2.0`,
+    tid: tenantId,
+    oid: 'user-oid',
+    preferred_username: 'alice@contoso.com',
+    scp: 'Mail.Read access_as_user',
+    nbf: now - 10,
+    exp: now + 3600,
+    ...claims,
+  });
+  const signature = sign('RSA-SHA256', Buffer.from(`${header}.${payload}`), key);
+  return `${header}.${payload}.${signature.toString('base64url')}`;
+}
+
+describe('MicrosoftTokenValidator', () => {
+  const options: TokenValidationOptions = {
+    audiences: ['api://server-app'],
+    allowedTenants: [tenantId],
+    requiredScopes: ['access_as_user'],
+    jwksPath,
+  };
+
+  beforeAll(async () => {
+    await fs.mkdir(testDataDir, { recursive: true });
+    const jwk = publicKey.export({ format: 'jwk' });
+    await fs.writeFile(jwksPath, JSON.stringify({ keys: [{ ...jwk, kid: 'key-1', use: 'sig' }] }));
+  });
+
+  afterAll(async () => {
+    await fs.rm(testDataDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    global.fetch = vi.fn().mockRejectedValue(new Error('No network in tests'));
+  });
+
+  it('should accept valid tokens and decode their claims', async () => {
+    const claims = await new MicrosoftTokenValidator(options).validate(createToken());
+
+    expect(claims).toMatchObject({
+      oid: 'user-oid',
+      tid: tenantId,
+      upn: 'alice@contoso.com',
+      scopes: ['Mail.Read', 'access_as_user'],
+    });
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it('should reject tokens that fail any check', async () => {
+    const validator = new MicrosoftTokenValidator(options);
+    const now = Math.floor(Date.now() / 1000);
+    const rejected = async (token: string) => {
+      try {
+        await validator.validate(token);
+        return 'accepted';
+      } catch (error) {
+        return (error as Error).message;
+      }
+    };
+
+    expect(await rejected('not-a-jwt')).toBe('Access token is not a JWT');
+    expect(await rejected(createToken({}, { key: otherKey }))).toBe('Invalid token signature');
+    expect(await rejected(createToken({}, { kid: 'key-2' }))).toBe(
+      'Unknown token signing key: key-2'
+    );
+    expect(await rejected(createToken({ exp: now - 600 }))).toBe('Access token has expired');
+    expect(await rejected(createToken({ iss: 'https://evil.example.com/' }))).toBe(
+      'Untrusted token issuer: https://evil.example.com/'
+    );
+    expect(await rejected(createToken({ aud: 'https://graph.microsoft.com' }))).toBe(
+      'Token audience https://graph.microsoft.com is not accepted'
+    );
+    expect(
+      await rejected(
+        createToken({ tid: 'other-tenant', iss: 'https://sts.windows.net/other-tenant/' })
+      )
+    ).toBe('Tenant other-tenant is not allowed');
+    expect(await rejected(createToken({ scp: 'Mail.Read' }))).toBe(
+      'Token lacks required scopes: access_as_user'
+    );
+  });
+
+  it('should reject invalid tokens before the request is handled', async () => {
+    const middleware = createMicrosoftBearerTokenAuthMiddleware(
+      new MicrosoftTokenValidator(options)
+    );
+    const respond = async (authorization: string) => {
+      const req = { headers: { authorization } } as unknown as Request & {
+        microsoftAuth?: { claims?: { upn?: string } };
+      };
+      const res = {
+        setHeader: vi.fn(),
+        status: vi.fn().mockReturnThis(),
+        json: vi.fn().mockReturnThis(),
+      };
+      const next = vi.fn();
+      await middleware(req, res as unknown as Response, next);
+      return { req, res, next };
+    };
+
+    const valid = await respond(`Bearer ${createToken()}`);
+    expect(valid.next).toHaveBeenCalled();
+    expect(valid.req.microsoftAuth?.claims?.upn).toBe('alice@contoso.com');
+
+    const invalid = await respond(`Bearer ${createToken({}, { key: otherKey })}`);
+    expect(invalid.next).not.toHaveBeenCalled();
+    expect(invalid.res.status).toHaveBeenCalledWith(401);
+    expect(invalid.res.json).toHaveBeenCalledWith({
+      error: 'invalid_token',
+      error_description: 'Invalid token signature',
+    });
+
+    const missingScope = await respond(`Bearer ${createToken({ scp: 'Mail.Read' })}`);
+    expect(missingScope.res.status).toHaveBeenCalledWith(403);
+  });
+
+  it('should answer 503 instead of 401 when the signing keys cannot be loaded', async () => {
+    const validator = new MicrosoftTokenValidator({
+      ...options,
+      jwksPath: path.join(testDataDir, 'missing.json'),
+    });
+    await expect(validator.validate(createToken())).rejects.toThrow(SigningKeysUnavailableError);
+
+    const res = {
+      setHeader: vi.fn(),
+      status: vi.fn().mockReturnThis(),
+      json: vi.fn().mockReturnThis(),
+    };
+    const next = vi.fn();
+    await createMicrosoftBearerTokenAuthMiddleware(validator)(
+      { headers: { authorization: `Bearer ${createToken()}` } } as Request,
+      res as unknown as Response,
+      next
+    );
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(503);
+    expect(res.json).toHaveBeenCalledWith({
+      error: 'temporarily_unavailable',
+      error_description: expect.stringMatching(/^Token signing keys could not be loaded/),
+    });
+    expect(res.setHeader).not.toHaveBeenCalled();
+  });
+
+  it('should call Graph with the token exchanged on behalf of the caller', async () => {
+    const incomingToken = createToken();
+    global.fetch = vi.fn(async (url: string | URL) => {
+      const body = String(url).includes('/oauth2/v2.0/token')
+        ? { access_token: 'graph-token', token_type: 'Bearer', scope: '', expires_in: 3600 }
+        : { id: 'user-oid' };
+      return {
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        json: async () => body,
+        text: async () => JSON.stringify(body),
+      } as Response;
+    }) as typeof fetch;
+
+    const exchanger = new OnBehalfOfTokenExchanger({
+      clientId: 'server-app',
+      clientSecret: 'server-secret',
+      tenantId: 'common',
+    });
+    const middleware = createMicrosoftBearerTokenAuthMiddleware(
+      new MicrosoftTokenValidator(options),
+      exchanger
+    );
+    const serve = async () => {
+      const req = {
+        headers: {
+          authorization: `Bearer ${incomingToken}`,
+          'x-microsoft-refresh-token': 'api-refresh-token',
+        },
+      } as unknown as Request & { microsoftAuth?: { accessToken: string; refreshToken: string } };
+      const next = vi.fn();
+      await middleware(req, {} as Response, next);
+      expect(next).toHaveBeenCalled();
+      return req.microsoftAuth!;
+    };
+
+    const auth = await serve();
+    expect(auth).toMatchObject({ accessToken: 'graph-token', refreshToken: '' });
+
+    const graphClient = new GraphClient({ getToken: vi.fn() } as unknown as AuthManager, {
+      maxRetries: 0,
+    });
+    await graphClient.runWithTokens(auth.accessToken, auth.refreshToken, () =>
+      graphClient.graphRequest('/me')
+    );
+
+    const calls = vi.mocked(global.fetch).mock.calls;
+    const [exchangeUrl, exchangeInit] = calls[0] as [string, { body: URLSearchParams }];
+    expect(exchangeUrl).toBe(`https://login.microsoftonline.com/${tenantId}/oauth2/v2.0/token`);
+    const exchange = exchangeInit.body;
+    expect(exchange.get('grant_type')).toBe('urn:ietf:params:oauth:grant-type:jwt-bearer');
+    expect(exchange.get('requested_token_use')).toBe('on_behalf_of');
+    expect(exchange.get('assertion')).toBe(incomingToken);
+
+    const [graphUrl, graphInit] = calls[1] as [string, { headers: Record<string, string> }];
+    expect(graphUrl).toBe('https://graph.microsoft.com/v1.0/me');
+    expect(graphInit.headers.Authorization).toBe('Bearer graph-token');
+
+    // The exchanged token is reused for later requests with the same incoming token
+    await serve();
+    expect(calls).toHaveLength(2);
+  });
+
+  it('should reject tokens that cannot be exchanged for Graph', async () => {
+    global.fetch = vi.fn().mockResolvedValue({
+      ok: false,
+      status: 400,
+      text: async () =>
+        JSON.stringify({ error: 'invalid_grant', error_description: 'AADSTS65001: No consent' }),
+    });
+
+    const res = {
+      setHeader: vi.fn(),
+      status: vi.fn().mockReturnThis(),
+      json: vi.fn().mockReturnThis(),
+    };
+    const next = vi.fn();
+    await createMicrosoftBearerTokenAuthMiddleware(
+      new MicrosoftTokenValidator(options),
+      new OnBehalfOfTokenExchanger({
+        clientId: 'server-app',
+        clientSecret: 'server-secret',
+        tenantId: 'common',
+      })
+    )(
+      { headers: { authorization: `Bearer ${createToken()}` } } as Request,
+      res as unknown as Response,
+      next
+    );
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(res.json).toHaveBeenCalledWith({
+      error: 'invalid_token',
+      error_description: 'Token could not be exchanged for Graph: AADSTS65001: No consent',
+    });
+  });
+
+  it('should default to the app registration audience and configured tenant', () => {
+    vi.stubEnv('MS365_MCP_CLIENT_ID', 'server-app');
+    vi.stubEnv('MS365_MCP_TENANT_ID', tenantId);
+    vi.stubEnv('MS365_MCP_REQUIRED_SCOPES', 'access_as_user, Mail.Read');
+
+    expect(loadTokenValidationOptions()).toEqual({
+      audiences: ['server-app', 'api://server-app'],
+      allowedTenants: [tenantId],
+      requiredScopes: ['access_as_user', 'Mail.Read'],
+      jwksPath: undefined,
+      jwksUri: `https://login.microsoftonline.com/${tenantId}/discovery/v2.0/keys`,
+    });
+    vi.unstubAllEnvs();
+  });
+});
@@ -0,0 +1,123 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import AuthManager from '../src/auth.js';
+import GraphClient from '../src/graph-client.js';
+import { executeM365Code } from '../src/code-execution.js';
+import { analyzeCode } from '../src/code-analysis.js';
+
+const accounts = [
+  { homeAccountId: 'alice-id', username: 'alice@contoso.com' },
+  { homeAccountId: 'bob-id', username: 'Bob@Fabrikam.com' },
+];
+
+const { acquireTokenSilent } = vi.hoisted(() => ({
+  acquireTokenSilent: vi.fn(),
+}));
+
+vi.mock('@azure/msal-node', () => ({
+  PublicClientApplication: vi.fn(() => ({
+    getTokenCache: () => ({ getAllAccounts: async () => accounts }),
+    acquireTokenSilent,
+  })),
+  ConfidentialClientApplication: vi.fn(),
+}));
+
+vi.mock('keytar', () => ({
+  default: {
+    getPassword: vi.fn(),
+    setPassword: vi.fn(),
+    deletePassword: vi.fn(),
+  },
+}));
+
+vi.mock('../src/generated/client.js', () => ({
+  api: {
+    endpoints: [
+      { alias: 'list-mail-messages', method: 'get', path: '/me/messages', parameters: [] },
+    ],
+  },
+}));
+
+vi.mock('../src/logger.js', () => ({
+  default: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+function authorizationOf(call: unknown[]): string {
+  return (call[1] as { headers: Record<string, string> }).headers.Authorization;
+}
+
+describe('Per-call account selection', () => {
+  let authManager: AuthManager;
+
+  beforeEach(() => {
+    acquireTokenSilent.mockImplementation(async ({ account }) => ({
+      accessToken: `token-${account.homeAccountId}`,
+      expiresOn: new Date(Date.now() + 3600 * 1000),
+    }));
+    authManager = new AuthManager(undefined, ['Mail.Read']);
+
+    global.fetch = vi.fn(
+      async () =>
+        ({
+          ok: true,
+          status: 200,
+          headers: new Headers(),
+          text: async () => JSON.stringify({ value: [] }),
+        }) as Response
+    );
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should resolve accounts by UPN or home account ID and cache their tokens separately', async () => {
+    expect(await authManager.getToken(false, 'bob@fabrikam.com')).toBe('token-bob-id');
+    expect(await authManager.getToken(false, 'bob-id')).toBe('token-bob-id');
+    expect(await authManager.getToken(false, 'alice@contoso.com')).toBe('token-alice-id');
+    expect(acquireTokenSilent).toHaveBeenCalledTimes(2);
+
+    // The selected account keeps its own token
+    expect(await authManager.getToken()).toBe('token-alice-id');
+    expect(acquireTokenSilent).toHaveBeenCalledTimes(3);
+
+    await expect(authManager.getToken(false, 'eve@contoso.com')).rejects.toThrow(
+      'Account not found: eve@contoso.com'
+    );
+  });
+
+  it('should refuse account selection with an OAuth token', async () => {
+    await authManager.setOAuthToken('oauth-token');
+
+    await expect(authManager.getToken(false, 'alice@contoso.com')).rejects.toThrow(
+      'not available with an OAuth token'
+    );
+  });
+
+  it('should run Graph requests and sandbox calls as the requested account', async () => {
+    const graphClient = new GraphClient(authManager, { maxRetries: 0 });
+
+    await graphClient.runAsAccount('bob@fabrikam.com', () => graphClient.graphRequest('/me'));
+    await executeM365Code(
+      `
+        await m365.mail.list();
+        await m365.as('bob@fabrikam.com').mail.list();
+        return true;
+      `,
+      graphClient
+    );
+
+    const tokens = vi.mocked(global.fetch).mock.calls.map(authorizationOf);
+    expect(tokens).toEqual(['Bearer token-bob-id', 'Bearer token-alice-id', 'Bearer token-bob-id']);
+  }, 20000);
+
+  it('should check m365.as() calls against the sandbox client', () => {
+    expect(analyzeCode('return m365.as("bob@fabrikam.com").mail.list();').errors).toEqual([]);
+    expect(analyzeCode('return m365.as("bob@fabrikam.com").mail.lst();').errors).toEqual([
+      'Line 1, column 8: Unknown m365 method: m365.mail.lst (did you mean m365.mail.list?)',
+    ]);
+  });
+});
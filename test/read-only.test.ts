@@ -37,6 +37,11 @@ vi.mock('../src/generated/client.js', () => {
   };
 });
 
+// Built-ins would otherwise be written to the default skill store under ./data
+vi.mock('../src/builtin-skills.js', () => ({
+  loadBuiltinSkills: vi.fn(),
+}));
+
 vi.mock('../src/logger.js', () => {
   return {
     default: {
@@ -71,8 +76,8 @@ describe('Read-Only Mode', () => {
 
     await registerGraphTools(mockServer, {} as GraphClient, options.readOnly);
 
-    // Now includes: 1 GET endpoint + 3 meta tools (categories, code execution) + 7 skill tools = 11 total
-    expect(mockServer.tool).toHaveBeenCalledTimes(11);
+    // Now includes: 1 GET endpoint + 6 meta tools (categories, code execution, batch) + 17 skill tools = 24 total
+    expect(mockServer.tool).toHaveBeenCalledTimes(24);
 
     const toolCalls = mockServer.tool.mock.calls.map((call: unknown[]) => call[0]);
     expect(toolCalls).toContain('list-mail-messages');
@@ -82,7 +87,10 @@ describe('Read-Only Mode', () => {
     // Verify meta tools are registered
     expect(toolCalls).toContain('list-m365-categories');
     expect(toolCalls).toContain('list-category-tools');
+    expect(toolCalls).toContain('enable-m365-category');
+    expect(toolCalls).toContain('disable-m365-category');
     expect(toolCalls).toContain('execute-m365-code');
+    expect(toolCalls).toContain('graph-batch');
 
     // Verify skill tools are registered
     expect(toolCalls).toContain('create-m365-skill');
@@ -98,8 +106,8 @@ describe('Read-Only Mode', () => {
 
     await registerGraphTools(mockServer, {} as GraphClient, options.readOnly);
 
-    // Now includes: 3 endpoints + 3 meta tools + 7 skill tools = 13 total
-    expect(mockServer.tool).toHaveBeenCalledTimes(13);
+    // Now includes: 3 endpoints + 6 meta tools + 17 skill tools = 26 total
+    expect(mockServer.tool).toHaveBeenCalledTimes(26);
 
     const toolCalls = mockServer.tool.mock.calls.map((call: unknown[]) => call[0]);
     expect(toolCalls).toContain('list-mail-messages');
@@ -0,0 +1,137 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import GraphClient from '../src/graph-client.js';
+import { executeM365Code } from '../src/code-execution.js';
+import type AuthManager from '../src/auth.js';
+
+vi.mock('../src/logger.js', () => ({
+  default: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+vi.mock('../src/auth.js', () => ({
+  default: vi.fn(),
+}));
+
+function authorizationOf(call: unknown[]): string {
+  return (call[1] as { headers: Record<string, string> }).headers.Authorization;
+}
+
+describe('Request-scoped Graph tokens', () => {
+  let graphClient: GraphClient;
+  let authManager: { getToken: ReturnType<typeof vi.fn> };
+
+  beforeEach(() => {
+    authManager = { getToken: vi.fn().mockResolvedValue('shared-token') };
+    graphClient = new GraphClient(authManager as unknown as AuthManager, { maxRetries: 0 });
+
+    // Respond out of order so the two requests interleave
+    global.fetch = vi.fn(async (url: string | URL | Request) => {
+      const delay = String(url).includes('slow') ? 20 : 1;
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      return {
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        text: async () => JSON.stringify({ url: String(url) }),
+      } as Response;
+    });
+  });
+
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('should use the tokens of the request being served for concurrent requests', async () => {
+    await Promise.all([
+      graphClient.runWithTokens('token-alice', undefined, async () => {
+        await graphClient.graphRequest('/me/slow');
+        await graphClient.graphRequest('/me/after-slow');
+      }),
+      graphClient.runWithTokens('token-bob', undefined, () => graphClient.graphRequest('/me/fast')),
+    ]);
+
+    const calls = vi.mocked(global.fetch).mock.calls;
+    const byUrl = Object.fromEntries(calls.map((call) => [String(call[0]), authorizationOf(call)]));
+
+    expect(byUrl['https://graph.microsoft.com/v1.0/me/slow']).toBe('Bearer token-alice');
+    expect(byUrl['https://graph.microsoft.com/v1.0/me/after-slow']).toBe('Bearer token-alice');
+    expect(byUrl['https://graph.microsoft.com/v1.0/me/fast']).toBe('Bearer token-bob');
+    expect(authManager.getToken).not.toHaveBeenCalled();
+  });
+
+  it('should isolate tokens inside sandboxed code execution', async () => {
+    const code = 'return await m365.batch([{ url: "/me" }]);';
+
+    global.fetch = vi.fn(async (_url: string | URL | Request, init?: { headers?: unknown }) => {
+      const token = (init!.headers as Record<string, string>).Authorization;
+      await new Promise((resolve) => setTimeout(resolve, token.endsWith('alice') ? 20 : 1));
+      return {
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        text: async () =>
+          JSON.stringify({ responses: [{ id: '1', status: 200, body: { token } }] }),
+      } as Response;
+    });
+
+    const [alice, bob] = await Promise.all([
+      graphClient.runWithTokens('token-alice', undefined, () =>
+        executeM365Code(code, graphClient, { timeout: 5000 })
+      ),
+      graphClient.runWithTokens('token-bob', undefined, () =>
+        executeM365Code(code, graphClient, { timeout: 5000 })
+      ),
+    ]);
+
+    expect((alice.result as { body: unknown }[])[0].body).toEqual({ token: 'Bearer token-alice' });
+    expect((bob.result as { body: unknown }[])[0].body).toEqual({ token: 'Bearer token-bob' });
+  });
+
+  it('should fall back to the auth manager outside of a request scope', async () => {
+    await graphClient.graphRequest('/me');
+
+    expect(authorizationOf(vi.mocked(global.fetch).mock.calls[0])).toBe('Bearer shared-token');
+  });
+
+  it('should keep refreshed tokens inside the request scope', async () => {
+    process.env.MS365_MCP_CLIENT_SECRET = 'secret';
+    let graphCalls = 0;
+    global.fetch = vi.fn(async (url: string | URL | Request) => {
+      if (String(url).startsWith('https://login.microsoftonline.com')) {
+        return {
+          ok: true,
+          json: async () => ({ access_token: 'token-alice-refreshed' }),
+        } as Response;
+      }
+      graphCalls++;
+      return {
+        ok: graphCalls > 1,
+        status: graphCalls > 1 ? 200 : 401,
+        headers: new Headers(),
+        text: async () => '{}',
+      } as Response;
+    });
+
+    await graphClient.runWithTokens('token-alice', 'refresh-alice', async () => {
+      await graphClient.graphRequest('/me');
+      await graphClient.graphRequest('/me/events');
+    });
+    await graphClient.graphRequest('/me');
+
+    const graphAuth = vi
+      .mocked(global.fetch)
+      .mock.calls.filter((call) => String(call[0]).startsWith('https://graph.microsoft.com'))
+      .map(authorizationOf);
+
+    expect(graphAuth).toEqual([
+      'Bearer token-alice',
+      'Bearer token-alice-refreshed',
+      'Bearer token-alice-refreshed',
+      'Bearer shared-token',
+    ]);
+    delete process.env.MS365_MCP_CLIENT_SECRET;
+  });
+});
@@ -0,0 +1,189 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import express from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { z } from 'zod';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import { InMemoryEventStore, SessionManager } from '../src/session-manager.js';
+
+vi.mock('../src/logger.js', () => ({
+  default: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+function createTestServer(): Promise<McpServer> {
+  const server = new McpServer({ name: 'test', version: '1.0.0' });
+  server.tool('echo', 'Echo a value', { value: z.string() }, async ({ value }) => ({
+    content: [{ type: 'text', text: value }],
+  }));
+  return Promise.resolve(server);
+}
+
+describe('SessionManager', () => {
+  let sessionManager: SessionManager;
+  let httpServer: Server;
+  let url: URL;
+  const clients: Client[] = [];
+
+  async function connectClient(user?: string): Promise<{
+    client: Client;
+    transport: StreamableHTTPClientTransport;
+  }> {
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    const transport = new StreamableHTTPClientTransport(url, {
+      requestInit: user ? { headers: { 'X-Test-User': user } } : undefined,
+    });
+    await client.connect(transport);
+    clients.push(client);
+    return { client, transport };
+  }
+
+  beforeEach(async () => {
+    sessionManager = new SessionManager(createTestServer, { idleTimeoutMs: 60 * 1000 });
+
+    const app = express();
+    app.use(express.json());
+    // Stands in for the principal the server derives from the bearer token
+    app.all('/mcp', (req, res) =>
+      sessionManager.handleRequest(req, res, req.body, req.headers['x-test-user'] as string)
+    );
+
+    httpServer = await new Promise<Server>((resolve) => {
+      const server = app.listen(0, () => resolve(server));
+    });
+    url = new URL(`http://127.0.0.1:${(httpServer.address() as AddressInfo).port}/mcp`);
+  });
+
+  afterEach(async () => {
+    for (const client of clients.splice(0)) {
+      await client.close();
+    }
+    await sessionManager.close();
+    httpServer.closeAllConnections();
+    await new Promise((resolve) => httpServer.close(resolve));
+  });
+
+  it('should create a separate session with its own id for each client', async () => {
+    const first = await connectClient();
+    const second = await connectClient();
+
+    expect(first.transport.sessionId).toBeDefined();
+    expect(second.transport.sessionId).toBeDefined();
+    expect(first.transport.sessionId).not.toBe(second.transport.sessionId);
+    expect(sessionManager.size).toBe(2);
+
+    const result = await first.client.callTool({ name: 'echo', arguments: { value: 'hi' } });
+    expect(result.content).toEqual([{ type: 'text', text: 'hi' }]);
+  });
+
+  it('should reject requests without a session id that are not initialization', async () => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should return 404 for unknown session ids', async () => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        'Mcp-Session-Id': 'does-not-exist',
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should only serve a session to the principal that initialized it', async () => {
+    const { client, transport } = await connectClient('alice');
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        'Mcp-Session-Id': transport.sessionId!,
+        'X-Test-User': 'mallory',
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+
+    expect(response.status).toBe(404);
+    const result = await client.callTool({ name: 'echo', arguments: { value: 'hi' } });
+    expect(result.content).toEqual([{ type: 'text', text: 'hi' }]);
+  });
+
+  it('should terminate a session on DELETE', async () => {
+    const { client, transport } = await connectClient();
+    const sessionId = transport.sessionId!;
+
+    await transport.terminateSession();
+
+    expect(sessionManager.size).toBe(0);
+    await expect(client.listTools()).rejects.toThrow();
+
+    const response = await fetch(url, {
+      method: 'GET',
+      headers: { Accept: 'text/event-stream', 'Mcp-Session-Id': sessionId },
+    });
+    expect(response.status).toBe(404);
+  });
+
+  it('should expire idle sessions', async () => {
+    await connectClient();
+    expect(sessionManager.size).toBe(1);
+
+    expect(await sessionManager.expireIdleSessions(Date.now() + 30 * 1000)).toBe(0);
+    expect(await sessionManager.expireIdleSessions(Date.now() + 2 * 60 * 1000)).toBe(1);
+    expect(sessionManager.size).toBe(0);
+  });
+});
+
+describe('InMemoryEventStore', () => {
+  const message = (id: number): JSONRPCMessage => ({ jsonrpc: '2.0', method: `n${id}` });
+
+  it('should replay events after the given event id on the same stream', async () => {
+    const store = new InMemoryEventStore();
+    const first = await store.storeEvent('stream-a', message(1));
+    await store.storeEvent('stream-b', message(2));
+    await store.storeEvent('stream-a', message(3));
+    await store.storeEvent('stream-a', message(4));
+
+    const replayed: JSONRPCMessage[] = [];
+    const streamId = await store.replayEventsAfter(first, {
+      send: async (_eventId, msg) => {
+        replayed.push(msg);
+      },
+    });
+
+    expect(streamId).toBe('stream-a');
+    expect(replayed).toEqual([message(3), message(4)]);
+  });
+
+  it('should keep at most maxEventsPerStream events', async () => {
+    const store = new InMemoryEventStore(2);
+    const first = await store.storeEvent('stream', message(1));
+    const second = await store.storeEvent('stream', message(2));
+    await store.storeEvent('stream', message(3));
+
+    const send = vi.fn();
+    expect(await store.replayEventsAfter(first, { send })).toBe('');
+    expect(await store.replayEventsAfter(second, { send })).toBe('stream');
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,273 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import fs from 'fs/promises';
+import { SkillStorage } from '../src/skills-storage.js';
+import {
+  exportSkills,
+  importSkills,
+  parseSkillBundle,
+  readSkillBundle,
+  SKILL_BUNDLE_FORMAT,
+  writeSkillBundle,
+} from '../src/skill-bundle.js';
+import type GraphClient from '../src/graph-client.js';
+import type { M365Skill } from '../src/types/skill.js';
+
+vi.mock('../src/generated/client.js', () => ({
+  api: {
+    endpoints: [
+      { alias: 'list-mail-messages', method: 'get', path: '/me/messages', parameters: [] },
+    ],
+  },
+}));
+
+vi.mock('../src/logger.js', () => ({
+  default: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+const testDataDir = './test-data/skill-bundles';
+
+// Bundled tests only use their mocks
+const graphClient = {
+  graphRequest: vi.fn().mockRejectedValue(new Error('Graph must not be called')),
+  batch: vi.fn().mockRejectedValue(new Error('Graph must not be called')),
+} as unknown as GraphClient;
+
+function skill(name: string, overrides: Partial<M365Skill> = {}): Partial<M365Skill> {
+  return {
+    name,
+    description: `${name} description`,
+    category: 'general',
+    code: `return '${name}';`,
+    isPublic: true,
+    ...overrides,
+  };
+}
+
+describe('Skill bundles', () => {
+  let source: SkillStorage;
+  let target: SkillStorage;
+
+  beforeEach(() => {
+    source = new SkillStorage(`${testDataDir}/source`);
+    target = new SkillStorage(`${testDataDir}/target`);
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDataDir, { recursive: true, force: true });
+  });
+
+  describe('Export', () => {
+    it('should export public skills without ids or usage', async () => {
+      const shared = await source.save(skill('shared', { tags: ['team'] }));
+      await source.save(skill('personal', { isPublic: false }));
+      await source.save(skill('builtinSkill', { isBuiltin: true }));
+      await source.incrementUsage(shared.id);
+
+      const bundle = await exportSkills(source);
+
+      expect(bundle.manifest.format).toBe(SKILL_BUNDLE_FORMAT);
+      expect(bundle.manifest.skills.map((s) => s.name)).toEqual(['shared']);
+      expect(bundle.manifest.skills[0].checksum).toMatch(/^[0-9a-f]{64}$/);
+      expect(bundle.skills[0]).toMatchObject({ name: 'shared', tags: ['team'], version: 1 });
+      expect(bundle.skills[0]).not.toHaveProperty('id');
+      expect(bundle.skills[0]).not.toHaveProperty('usageCount');
+    });
+
+    it('should export private skills on request or when named', async () => {
+      await source.save(skill('shared'));
+      const personal = await source.save(skill('personal', { isPublic: false }));
+
+      const all = await exportSkills(source, { includePrivate: true });
+      expect(all.skills.map((s) => s.name)).toEqual(['personal', 'shared']);
+
+      const named = await exportSkills(source, { skillIds: [personal.id] });
+      expect(named.skills.map((s) => s.name)).toEqual(['personal']);
+
+      await expect(exportSkills(source, { skillIds: ['missing'] })).rejects.toThrow(
+        'Skill not found: missing'
+      );
+    });
+  });
+
+  describe('Verification', () => {
+    it('should reject bundles whose skills were modified', async () => {
+      await source.save(skill('shared'));
+      const bundle = await exportSkills(source);
+      bundle.skills[0].code = 'return "tampered";';
+
+      expect(() => parseSkillBundle(JSON.parse(JSON.stringify(bundle)))).toThrow(
+        "Checksum mismatch for skill 'shared'"
+      );
+    });
+
+    it('should reject unknown formats and malformed bundles', async () => {
+      await source.save(skill('shared'));
+      const bundle = await exportSkills(source);
+
+      expect(() =>
+        parseSkillBundle({ ...bundle, manifest: { ...bundle.manifest, format: 99 } })
+      ).toThrow('Unsupported skill bundle format 99');
+      expect(() => parseSkillBundle({ skills: [] })).toThrow('Invalid skill bundle');
+      expect(() => parseSkillBundle({ ...bundle, skills: [] })).toThrow(
+        'manifest lists 1 skills but the bundle contains 0'
+      );
+    });
+  });
+
+  describe('Files', () => {
+    it.each(['bundle.json', 'bundle.zip'])('should round-trip %s', async (file) => {
+      await source.save(
+        skill('first', {
+          parameters: {
+            limit: { type: 'number', description: 'Max', required: false, default: 5 },
+          },
+        })
+      );
+      await source.save(skill('second'));
+      const bundle = await exportSkills(source);
+
+      const filePath = `${testDataDir}/out/${file}`;
+      await writeSkillBundle(bundle, filePath);
+
+      expect(await readSkillBundle(filePath)).toEqual(
+        file.endsWith('.zip')
+          ? {
+              ...bundle,
+              manifest: {
+                ...bundle.manifest,
+                skills: bundle.manifest.skills.map((entry, i) => ({
+                  ...entry,
+                  file: `skills/00${i + 1}-${entry.name}.json`,
+                })),
+              },
+            }
+          : bundle
+      );
+    });
+
+    it('should reject files that are not bundles', async () => {
+      await fs.mkdir(testDataDir, { recursive: true });
+      await fs.writeFile(`${testDataDir}/notes.txt`, 'not a bundle');
+
+      await expect(readSkillBundle(`${testDataDir}/notes.txt`)).rejects.toThrow(
+        'is neither JSON nor a zip file'
+      );
+    });
+  });
+
+  describe('Import', () => {
+    it('should create skills with new ids and no usage', async () => {
+      const original = await source.save(skill('shared'));
+      await source.incrementUsage(original.id);
+
+      const result = await importSkills(target, await exportSkills(source), graphClient, {
+        author: 'alice',
+      });
+
+      expect(result.skipped).toEqual([]);
+      expect(result.imported).toEqual([
+        { name: 'shared', id: expect.any(String), action: 'created' },
+      ]);
+      const imported = await target.get(result.imported[0].id);
+      expect(imported?.id).not.toBe(original.id);
+      expect(imported?.usageCount).toBe(0);
+      expect(imported?.version).toBe(1);
+      expect((await target.listVersions(imported!.id))[0].author).toBe('alice');
+    });
+
+    it('should skip name collisions by default', async () => {
+      await source.save(skill('shared'));
+      await target.save(skill('shared', { code: 'return "local";' }));
+
+      const result = await importSkills(target, await exportSkills(source), graphClient);
+
+      expect(result.imported).toEqual([]);
+      expect(result.skipped).toEqual([
+        { name: 'shared', reason: 'A skill with this name already exists' },
+      ]);
+      expect((await target.getByName('shared'))?.code).toBe('return "local";');
+    });
+
+    it('should rename on collision', async () => {
+      await source.save(skill('shared'));
+      await target.save(skill('shared'));
+      await target.save(skill('shared-2'));
+
+      const result = await importSkills(target, await exportSkills(source), graphClient, {
+        onConflict: 'rename',
+      });
+
+      expect(result.imported).toEqual([
+        { name: 'shared-3', id: expect.any(String), action: 'renamed', renamedFrom: 'shared' },
+      ]);
+    });
+
+    it('should overwrite as a new version of the existing skill', async () => {
+      await source.save(skill('shared', { code: 'return "incoming";' }));
+      const local = await target.save(skill('shared'));
+      await target.incrementUsage(local.id);
+
+      const result = await importSkills(target, await exportSkills(source), graphClient, {
+        onConflict: 'overwrite',
+      });
+
+      expect(result.imported).toEqual([{ name: 'shared', id: local.id, action: 'overwritten' }]);
+      const updated = await target.get(local.id);
+      expect(updated?.code).toBe('return "incoming";');
+      expect(updated?.version).toBe(2);
+      expect(updated?.usageCount).toBe(1);
+      expect(updated?.createdAt).toBe(local.createdAt);
+    });
+
+    it('should keep the tests of a skill and skip skills whose tests fail', async () => {
+      const tests = [
+        {
+          name: 'counts unread',
+          mocks: [{ method: 'mail.list', response: { value: [{ isRead: false }] } }],
+          expect: { result: 1 },
+        },
+      ];
+      await source.save(
+        skill('unread', {
+          code: 'const r = await m365.mail.list(); return r.value.filter((m) => !m.isRead).length;',
+          tests,
+        })
+      );
+      await source.save(skill('broken', { tests: [{ name: 'wrong', expect: { result: 'x' } }] }));
+
+      const result = await importSkills(target, await exportSkills(source), graphClient);
+
+      expect(result.imported).toEqual([
+        { name: 'unread', id: expect.any(String), action: 'created' },
+      ]);
+      expect(result.skipped).toEqual([{ name: 'broken', reason: 'Skill tests failed (1 of 1)' }]);
+      expect((await target.getByName('unread'))?.tests).toEqual(tests);
+      expect(await target.getByName('broken')).toBeNull();
+    });
+
+    it('should never overwrite built-in skills or import invalid code', async () => {
+      await source.save(skill('summarize'));
+      await source.save(skill('sneaky', { code: 'return require("fs");' }));
+      await target.save(skill('summarize', { isBuiltin: true }));
+
+      const result = await importSkills(target, await exportSkills(source), graphClient, {
+        onConflict: 'overwrite',
+      });
+
+      expect(result.imported).toEqual([]);
+      expect(result.skipped).toEqual([
+        {
+          name: 'sneaky',
+          reason:
+            "Code validation failed: Line 1, column 8: 'require' is not defined in the sandbox",
+        },
+        { name: 'summarize', reason: 'Built-in skills cannot be overwritten' },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { skillParametersToJsonSchema, validateSkillParams } from '../src/skill-parameters.js';
+import type { SkillParameter } from '../src/types/skill.js';
+
+const parameters: Record<string, SkillParameter> = {
+  sender: { type: 'string', description: 'Sender address', required: true },
+  top: { type: 'number', description: 'Maximum results', required: false, default: 10 },
+  unreadOnly: { type: 'boolean', description: 'Only unread mail', required: false },
+  folders: { type: 'array', description: 'Folder names', required: false },
+};
+
+describe('Skill parameter validation', () => {
+  it('should apply defaults and keep provided values', () => {
+    expect(validateSkillParams(parameters, { sender: 'a@contoso.com', unreadOnly: true })).toEqual({
+      valid: true,
+      params: { sender: 'a@contoso.com', top: 10, unreadOnly: true },
+    });
+  });
+
+  it('should reject missing and mistyped parameters', () => {
+    const validation = validateSkillParams(parameters, { top: '5', folders: 'Inbox' });
+
+    expect(validation.valid).toBe(false);
+    expect(!validation.valid && validation.errors).toEqual([
+      { parameter: 'sender', message: 'Required' },
+      { parameter: 'top', message: 'Expected number, received string' },
+      { parameter: 'folders', message: 'Expected array, received string' },
+    ]);
+  });
+
+  it('should accept anything for skills without parameter definitions', () => {
+    expect(validateSkillParams(undefined, { anything: 1 })).toEqual({
+      valid: true,
+      params: { anything: 1 },
+    });
+    expect(validateSkillParams(undefined)).toEqual({ valid: true, params: {} });
+  });
+
+  it('should pass undeclared parameters through', () => {
+    const validation = validateSkillParams(parameters, { sender: 'a@contoso.com', extra: 'x' });
+
+    expect(validation.valid && validation.params.extra).toBe('x');
+  });
+
+  it('should describe parameters as JSON Schema', () => {
+    expect(skillParametersToJsonSchema(parameters)).toEqual({
+      type: 'object',
+      properties: {
+        sender: { type: 'string', description: 'Sender address' },
+        top: { type: 'number', description: 'Maximum results', default: 10 },
+        unreadOnly: { type: 'boolean', description: 'Only unread mail' },
+        folders: { type: 'array', description: 'Folder names' },
+      },
+      required: ['sender'],
+      additionalProperties: true,
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import fs from 'fs/promises';
+import { SkillStorage } from '../src/skills-storage.js';
+import { MAX_SKILL_DEPTH, SkillRunner } from '../src/skill-runner.js';
+import type GraphClient from '../src/graph-client.js';
+import type { M365Skill } from '../src/types/skill.js';
+
+vi.mock('../src/generated/client.js', () => ({
+  api: {
+    endpoints: [
+      {
+        alias: 'list-mail-messages',
+        method: 'get',
+        path: '/me/messages',
+        parameters: [{ name: 'top', type: 'Query' }],
+      },
+    ],
+  },
+}));
+
+vi.mock('../src/logger.js', () => ({
+  default: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+const testDataDir = './test-data/skill-runner';
+
+describe('SkillRunner', () => {
+  let storage: SkillStorage;
+  let runner: SkillRunner;
+
+  async function save(name: string, code: string, overrides: Partial<M365Skill> = {}) {
+    return storage.save({ name, description: name, category: 'general', code, ...overrides });
+  }
+
+  beforeEach(() => {
+    storage = new SkillStorage(testDataDir);
+    const graphClient = {
+      graphRequest: vi.fn().mockResolvedValue({
+        content: [{ type: 'text', text: JSON.stringify({ value: [{ id: 'm1' }, { id: 'm2' }] }) }],
+      }),
+      batch: vi.fn(),
+    };
+    runner = new SkillRunner(storage, graphClient as unknown as GraphClient);
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDataDir, { recursive: true, force: true });
+  });
+
+  it('should let skills call other skills and count usage for each', async () => {
+    const count = await save(
+      'countMessages',
+      'const messages = await m365.mail.list({ top: params.top }); return messages.value.length;',
+      { parameters: { top: { type: 'number', description: 'Max', required: false, default: 10 } } }
+    );
+    const summary = await save(
+      'summary',
+      'console.log("starting"); return { messages: await skills.run("countMessages") };'
+    );
+
+    const { result, logs } = await runner.run(summary, {});
+
+    expect(result).toEqual({ messages: 2 });
+    expect(logs.map((l) => l.message)).toEqual(['starting']);
+    expect((await storage.get(summary.id))?.usageCount).toBe(1);
+    expect((await storage.get(count.id))?.usageCount).toBe(1);
+    expect(await storage.listExecutions(count.id)).toHaveLength(1);
+  }, 20000);
+
+  it('should include the output of called skills in the logs', async () => {
+    await save('inner', 'console.log("from inner"); return 1;');
+    const outer = await save('outer', 'return skills.run("inner");');
+
+    const { logs } = await runner.run(outer, {});
+
+    expect(logs.map((l) => l.message)).toEqual(['[inner] from inner']);
+  }, 20000);
+
+  it('should validate params of called skills', async () => {
+    await save('needsTop', 'return params.top;', {
+      parameters: { top: { type: 'number', description: 'Max', required: true } },
+    });
+    const caller = await save(
+      'caller',
+      'try { await skills.run("needsTop", { top: "ten" }); } catch (e) { return e.message; }'
+    );
+
+    const { result } = await runner.run(caller, {});
+
+    expect(result).toMatch(/^Invalid parameters for skill 'needsTop': top: /);
+  }, 20000);
+
+  it('should detect cycles', async () => {
+    await save('ping', 'return skills.run("pong");');
+    await save('pong', 'return skills.run("ping");');
+
+    await expect(runner.run((await storage.getByName('ping'))!, {})).rejects.toThrow(
+      'Skill cycle detected: ping -> pong -> ping'
+    );
+  }, 20000);
+
+  it('should limit the nesting depth', async () => {
+    for (let level = 1; level <= MAX_SKILL_DEPTH + 1; level++) {
+      await save(`level${level}`, `return skills.run("level${level + 1}");`);
+    }
+    await save(`level${MAX_SKILL_DEPTH + 2}`, 'return "bottom";');
+
+    await expect(runner.run((await storage.getByName('level1'))!, {})).rejects.toThrow(
+      `Skill calls nested deeper than ${MAX_SKILL_DEPTH} levels`
+    );
+  }, 30000);
+
+  it('should reject writes of called skills in read-only mode', async () => {
+    await save('sendReport', 'await m365.mail.send({ subject: "Report" }); return "sent";');
+    const outer = await save('outer', 'return skills.run("sendReport");');
+    const readOnlyRunner = new SkillRunner(storage, {} as GraphClient, true);
+
+    await expect(readOnlyRunner.run(outer, {})).rejects.toThrow(
+      'm365.mail.send changes data and is not allowed in read-only mode'
+    );
+  }, 20000);
+
+  it('should report unknown skills to the caller', async () => {
+    const caller = await save('caller', 'return skills.run("missing");');
+
+    await expect(runner.run(caller, {})).rejects.toThrow('Skill not found: missing');
+  }, 20000);
+});
@@ -0,0 +1,191 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import fs from 'fs/promises';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { SkillStorage } from '../src/skills-storage.js';
+import { SkillScheduler } from '../src/skill-scheduler.js';
+import { registerSkillTools } from '../src/skill-tools.js';
+import { executeM365Code } from '../src/code-execution.js';
+import type GraphClient from '../src/graph-client.js';
+import type { M365Skill } from '../src/types/skill.js';
+
+vi.mock('../src/code-execution.js', () => ({
+  createLogStreamer: vi.fn(),
+  listM365Methods: vi.fn(() => []),
+  executeM365Code: vi.fn(),
+}));
+
+vi.mock('../src/builtin-skills.js', () => ({
+  loadBuiltinSkills: vi.fn(),
+}));
+
+vi.mock('../src/logger.js', () => ({
+  default: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+const testDataDir = './test-data/skill-scheduler';
+
+describe('SkillScheduler', () => {
+  let storage: SkillStorage;
+  let scheduler: SkillScheduler;
+  let skill: M365Skill;
+  let runAsAccount: ReturnType<typeof vi.fn>;
+
+  beforeEach(async () => {
+    vi.mocked(executeM365Code).mockReset();
+    storage = new SkillStorage(`${testDataDir}/skills`);
+    runAsAccount = vi.fn((_account: string | undefined, fn: () => unknown) => fn());
+    scheduler = new SkillScheduler(
+      storage,
+      { runAsAccount } as unknown as GraphClient,
+      `${testDataDir}/schedules`
+    );
+    skill = await storage.save({
+      name: 'morningDigest',
+      description: 'Digest',
+      category: 'mail',
+      code: 'return params.top;',
+      parameters: { top: { type: 'number', description: 'Max', required: false, default: 5 } },
+    });
+  });
+
+  afterEach(async () => {
+    scheduler.stop();
+    await fs.rm(testDataDir, { recursive: true, force: true });
+  });
+
+  it('should validate the cron expression and params when scheduling', async () => {
+    await expect(scheduler.save({ skillId: skill.id, cron: 'every morning' })).rejects.toThrow(
+      'Invalid cron expression'
+    );
+    await expect(
+      scheduler.save({ skillId: skill.id, cron: '0 8 * * *', params: { top: 'many' } })
+    ).rejects.toThrow("Invalid parameters for skill 'morningDigest'");
+    await expect(scheduler.save({ skillId: 'missing', cron: '0 8 * * *' })).rejects.toThrow(
+      'Skill not found: missing'
+    );
+    expect(await scheduler.list()).toEqual([]);
+  });
+
+  it('should run due schedules once and store their results', async () => {
+    vi.mocked(executeM365Code).mockResolvedValue({ result: 5, logs: [] });
+    const schedule = await scheduler.save({ skillId: skill.id, cron: '*/5 * * * *' });
+    const due = new Date(schedule.nextRunAt!);
+
+    expect(await scheduler.tick(new Date(due.getTime() - 1000))).toEqual([]);
+
+    const runs = await scheduler.tick(due);
+    expect(runs).toHaveLength(1);
+    expect(runs[0]).toMatchObject({ skillName: 'morningDigest', success: true, result: 5 });
+    expect(await scheduler.tick(due)).toEqual([]);
+
+    const updated = await scheduler.get(schedule.id);
+    expect(updated?.lastSuccess).toBe(true);
+    expect(new Date(updated!.nextRunAt!).getTime()).toBe(due.getTime() + 5 * 60 * 1000);
+    expect(await scheduler.listResults(schedule.id)).toEqual(runs);
+    expect((await storage.get(skill.id))?.usageCount).toBe(1);
+  });
+
+  it('should store failures and keep the newest results first', async () => {
+    vi.mocked(executeM365Code)
+      .mockResolvedValueOnce({ result: 'first', logs: [] })
+      .mockRejectedValueOnce(new Error('Graph unavailable'));
+    const schedule = await scheduler.save({ skillId: skill.id, cron: '* * * * *' });
+
+    await scheduler.tick(new Date(schedule.nextRunAt!));
+    await scheduler.tick(new Date((await scheduler.get(schedule.id))!.nextRunAt!));
+
+    const results = await scheduler.listResults(schedule.id);
+    expect(results.map((r) => [r.success, r.result ?? r.error])).toEqual([
+      [false, 'Graph unavailable'],
+      [true, 'first'],
+    ]);
+    expect((await scheduler.get(schedule.id))?.lastSuccess).toBe(false);
+  });
+
+  it('should not run paused schedules and keep fields left out of updates', async () => {
+    const schedule = await scheduler.save({
+      skillId: skill.id,
+      cron: '0 * * * *',
+      params: { top: 3 },
+    });
+
+    const paused = await scheduler.save({ id: schedule.id, enabled: false });
+
+    expect(paused).toMatchObject({ cron: '0 * * * *', params: { top: 3 }, enabled: false });
+    expect(paused.nextRunAt).toBeUndefined();
+    expect(await scheduler.tick(new Date(Date.now() + 2 * 60 * 60 * 1000))).toEqual([]);
+  });
+
+  it('should run schedules as the account that created them', async () => {
+    vi.mocked(executeM365Code).mockResolvedValue({ result: 1, logs: [] });
+    const schedule = await scheduler.save({
+      skillId: skill.id,
+      cron: '@hourly',
+      account: 'alice-id',
+    });
+
+    // Updates cannot hand the schedule to another account
+    const updated = await scheduler.save({
+      id: schedule.id,
+      account: 'bob-id',
+      params: { top: 2 },
+    });
+    expect(updated.account).toBe('alice-id');
+
+    await scheduler.tick(new Date(updated.nextRunAt!));
+    expect(runAsAccount).toHaveBeenCalledWith('alice-id', expect.any(Function));
+  });
+
+  it('should remove schedules with their results', async () => {
+    vi.mocked(executeM365Code).mockResolvedValue({ result: 1, logs: [] });
+    const schedule = await scheduler.save({ skillId: skill.id, cron: '@daily' });
+    await scheduler.tick(new Date(schedule.nextRunAt!));
+
+    expect(await scheduler.deleteForSkill(skill.id)).toBe(1);
+    expect(await scheduler.list()).toEqual([]);
+    expect(await scheduler.listResults(schedule.id)).toEqual([]);
+  });
+
+  it('should keep schedules away from callers with their own tokens', async () => {
+    vi.mocked(executeM365Code).mockResolvedValue({ result: 1, logs: [] });
+    const schedule = await scheduler.save({ skillId: skill.id, cron: '@daily' });
+    await scheduler.tick(new Date(schedule.nextRunAt!));
+
+    const server = new McpServer({ name: 'test', version: '1.0.0' });
+    const graphClient = { runAsAccount, usesClientTokens: () => true };
+    await registerSkillTools(
+      server,
+      graphClient as unknown as GraphClient,
+      false,
+      storage,
+      scheduler
+    );
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+
+    const calls = [
+      { name: 'schedule-m365-skill', arguments: { scheduleId: schedule.id, remove: true } },
+      { name: 'get-m365-schedule-results', arguments: { scheduleId: schedule.id } },
+      { name: 'list-m365-schedules', arguments: {} },
+    ];
+    for (const call of calls) {
+      const result = await client.callTool(call);
+      expect(result.isError).toBe(true);
+      expect(JSON.parse((result.content as { text: string }[])[0].text).error).toBe(
+        'Schedules are not available with OAuth tokens, since scheduled runs cannot act as the caller'
+      );
+    }
+
+    expect(await scheduler.get(schedule.id)).not.toBeNull();
+    expect(await scheduler.listResults(schedule.id)).toHaveLength(1);
+    await client.close();
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { hashParams, summarizeExecutions } from '../src/skill-stats.js';
+import type { SkillExecution } from '../src/types/skill.js';
+
+function run(durationMs: number, success = true, error?: string): SkillExecution {
+  return {
+    skillId: 'skill',
+    startedAt: new Date(Date.UTC(2025, 0, 1, 0, 0, durationMs)).toISOString(),
+    durationMs,
+    success,
+    error,
+    paramsHash: 'hash',
+  };
+}
+
+describe('Skill execution stats', () => {
+  it('should report nulls for skills that never ran', () => {
+    expect(summarizeExecutions([])).toEqual({
+      runs: 0,
+      successes: 0,
+      failures: 0,
+      successRate: null,
+      p50DurationMs: null,
+      p95DurationMs: null,
+      lastRunAt: undefined,
+      lastError: undefined,
+    });
+  });
+
+  it('should compute success rate, percentiles and the last error', () => {
+    const executions = Array.from({ length: 20 }, (_, i) => run((i + 1) * 10));
+    executions[3] = run(40, false, 'Graph unavailable');
+    executions[10] = run(110, false, 'Execution timeout');
+
+    const stats = summarizeExecutions(executions);
+
+    expect(stats.runs).toBe(20);
+    expect(stats.failures).toBe(2);
+    expect(stats.successRate).toBe(0.9);
+    expect(stats.p50DurationMs).toBe(100);
+    expect(stats.p95DurationMs).toBe(190);
+    expect(stats.lastError).toBe('Execution timeout');
+    expect(stats.lastRunAt).toBe(executions[19].startedAt);
+  });
+
+  it('should hash params independently of key order', () => {
+    expect(hashParams({ a: 1, b: { c: [1, 2], d: 'x' } })).toBe(
+      hashParams({ b: { d: 'x', c: [1, 2] }, a: 1 })
+    );
+    expect(hashParams({ a: 1 })).not.toBe(hashParams({ a: 2 }));
+    expect(hashParams({})).toHaveLength(16);
+  });
+});
@@ -0,0 +1,253 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import fs from 'fs/promises';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { matchesExpected, runSkillTests } from '../src/skill-tests.js';
+import { registerSkillTools } from '../src/skill-tools.js';
+import { SkillStorage } from '../src/skills-storage.js';
+import type GraphClient from '../src/graph-client.js';
+import type { SkillTestCase } from '../src/types/skill.js';
+
+vi.mock('../src/generated/client.js', () => ({
+  api: {
+    endpoints: [
+      {
+        alias: 'list-mail-messages',
+        method: 'get',
+        path: '/me/messages',
+        parameters: [{ name: 'top', type: 'Query' }],
+      },
+    ],
+  },
+}));
+
+vi.mock('../src/logger.js', () => ({
+  default: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+vi.mock('../src/builtin-skills.js', () => ({
+  loadBuiltinSkills: vi.fn(),
+}));
+
+const testDataDir = './test-data/skill-tests';
+
+// Any Graph request fails the test; skill tests must only use their mocks
+const graphClient = {
+  graphRequest: vi.fn().mockRejectedValue(new Error('Graph must not be called')),
+  batch: vi.fn().mockRejectedValue(new Error('Graph must not be called')),
+} as unknown as GraphClient;
+
+const countUnread = {
+  name: 'countUnread',
+  code: `
+    const messages = await m365.mail.list({ top: params.top });
+    return { unread: messages.value.filter((m) => !m.isRead).length };
+  `,
+  parameters: {
+    top: { type: 'number' as const, description: 'Max', required: false, default: 10 },
+  },
+};
+
+const inbox = {
+  method: 'mail.list',
+  response: { value: [{ isRead: false }, { isRead: true }, { isRead: false }] },
+};
+
+describe('matchesExpected', () => {
+  it('should allow extra object properties but not extra array items', () => {
+    expect(matchesExpected({ a: 1, b: { c: 2, d: 3 } }, { b: { c: 2 } })).toBe(true);
+    expect(matchesExpected({ a: 1 }, { a: 2 })).toBe(false);
+    expect(matchesExpected([{ id: 1, x: 1 }], [{ id: 1 }])).toBe(true);
+    expect(matchesExpected([1, 2], [1])).toBe(false);
+    expect(matchesExpected('1', 1)).toBe(false);
+  });
+});
+
+describe('runSkillTests', () => {
+  it('should run the skill against mocked m365 responses', async () => {
+    const tests: SkillTestCase[] = [
+      {
+        name: 'counts unread',
+        params: { top: 5 },
+        mocks: [inbox],
+        expect: { result: { unread: 2 } },
+      },
+    ];
+
+    const report = await runSkillTests({ ...countUnread, tests }, graphClient);
+
+    expect(report).toMatchObject({ skillName: 'countUnread', passed: true, total: 1, failed: 0 });
+    expect(report.results[0].calls).toEqual([{ method: 'mail.list', args: [{ top: 5 }] }]);
+    expect(graphClient.graphRequest).not.toHaveBeenCalled();
+  }, 20000);
+
+  it('should report unmet expectations', async () => {
+    const report = await runSkillTests(countUnread, graphClient, {
+      tests: [
+        { name: 'wrong result', mocks: [inbox], expect: { result: { unread: 3 } } },
+        { name: 'wrong match', mocks: [inbox], expect: { match: { read: 1 } } },
+        { name: 'wrong calls', mocks: [inbox], expect: { calls: ['mail.get'] } },
+      ],
+    });
+
+    expect(report).toMatchObject({ passed: false, total: 3, failed: 3 });
+    expect(report.results.map((r) => r.failures)).toEqual([
+      ['Expected result {"unread":3} but got {"unread":2}'],
+      ['Result {"unread":2} does not match {"read":1}'],
+      ['Expected calls ["mail.get"] but got ["mail.list"]'],
+    ]);
+  }, 30000);
+
+  it('should answer repeated calls with successive mocks', async () => {
+    const report = await runSkillTests(
+      {
+        name: 'pages',
+        code: 'const a = await m365.mail.list(); const b = await m365.mail.list(); const c = await m365.mail.list(); return [a, b, c];',
+      },
+      graphClient,
+      {
+        tests: [
+          {
+            name: 'last mock repeats',
+            mocks: [
+              { method: 'mail.list', response: 1 },
+              { method: 'mail.list', response: 2 },
+            ],
+            expect: { result: [1, 2, 2] },
+          },
+        ],
+      }
+    );
+
+    expect(report.passed).toBe(true);
+  }, 20000);
+
+  it('should check expected errors', async () => {
+    const report = await runSkillTests(countUnread, graphClient, {
+      tests: [
+        {
+          name: 'graph fails',
+          mocks: [{ method: 'mail.list', error: 'Throttled' }],
+          expect: { error: 'Throttled' },
+        },
+        { name: 'unexpected failure', mocks: [{ method: 'mail.list', error: 'Throttled' }] },
+        { name: 'invalid params', params: { top: 'ten' }, expect: { error: 'Invalid parameters' } },
+      ],
+    });
+
+    expect(report.results.map((r) => r.passed)).toEqual([true, false, true]);
+    expect(report.results[1].failures).toEqual(['Skill failed: Throttled']);
+  }, 30000);
+
+  it('should fail tests that make unmocked calls, even when the skill catches the error', async () => {
+    const report = await runSkillTests(
+      {
+        name: 'careful',
+        code: 'try { await m365.mail.list(); } catch (e) { return "no mail"; }',
+      },
+      graphClient,
+      { tests: [{ name: 'forgot the mock', expect: { result: 'no mail' } }] }
+    );
+
+    expect(report.results[0].failures).toEqual(['No mock for m365 call: mail.list']);
+  }, 20000);
+
+  it('should answer skills.run from mocks', async () => {
+    const report = await runSkillTests(
+      { name: 'composed', code: 'return { inner: await skills.run("inner", { x: 1 }) };' },
+      graphClient,
+      {
+        tests: [
+          {
+            name: 'mocked inner skill',
+            mocks: [{ method: 'skills.inner', response: 'done' }],
+            expect: { result: { inner: 'done' }, calls: ['skills.inner'] },
+          },
+        ],
+      }
+    );
+
+    expect(report.passed).toBe(true);
+    expect(report.results[0].calls[0].args).toEqual([{ x: 1 }]);
+  }, 20000);
+});
+
+describe('Skill test tools', () => {
+  let client: Client;
+  let server: McpServer;
+
+  async function callTool(name: string, args: Record<string, unknown>) {
+    const result = await client.callTool({ name, arguments: args });
+    return {
+      isError: result.isError,
+      body: JSON.parse((result.content as { text: string }[])[0].text),
+    };
+  }
+
+  async function connect(): Promise<SkillStorage> {
+    const storage = new SkillStorage(testDataDir);
+    server = new McpServer({ name: 'test', version: '1.0.0' });
+    await registerSkillTools(server, graphClient, false, storage);
+
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+    return storage;
+  }
+
+  afterEach(async () => {
+    await client.close();
+    await server.close();
+    await fs.rm(testDataDir, { recursive: true, force: true });
+  });
+
+  const skill = {
+    ...countUnread,
+    description: 'Counts unread messages',
+    category: 'mail',
+    tests: [{ name: 'counts unread', mocks: [inbox], expect: { result: { unread: 2 } } }],
+  };
+
+  it('should only create and update skills whose tests pass', async () => {
+    const storage = await connect();
+
+    const rejected = await callTool('create-m365-skill', {
+      ...skill,
+      code: 'return { unread: 0 };',
+    });
+    expect(rejected.isError).toBe(true);
+    expect(rejected.body.error).toMatch(/^Skill tests failed \(1 of 1\)/);
+    expect(await storage.getByName('countUnread')).toBeNull();
+
+    const created = await callTool('create-m365-skill', skill);
+    expect(created.body.success).toBe(true);
+
+    const update = await callTool('update-m365-skill', {
+      skillId: created.body.skillId,
+      updates: { code: 'return { unread: 0 };' },
+    });
+    expect(update.isError).toBe(true);
+    expect((await storage.get(created.body.skillId))?.code).toBe(skill.code);
+  }, 30000);
+
+  it('should run stored or given tests with test-m365-skill', async () => {
+    await connect();
+    await callTool('create-m365-skill', skill);
+
+    const stored = await callTool('test-m365-skill', { skillId: 'countUnread' });
+    expect(stored.body).toMatchObject({ success: true, total: 1, failed: 0 });
+
+    const given = await callTool('test-m365-skill', {
+      skillId: 'countUnread',
+      tests: [{ name: 'empty inbox', mocks: [{ method: 'mail.list', response: { value: [] } }] }],
+    });
+    expect(given.body).toMatchObject({ success: true, total: 1 });
+    expect(given.body.results[0].name).toBe('empty inbox');
+  }, 30000);
+});
@@ -0,0 +1,180 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import fs from 'fs/promises';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ToolListChangedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { registerSkillTools, skillToolName } from '../src/skill-tools.js';
+import type GraphClient from '../src/graph-client.js';
+
+const testDataDir = './test-data/skills-as-tools';
+
+vi.mock('../src/logger.js', () => ({
+  default: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+vi.mock('../src/builtin-skills.js', () => ({
+  loadBuiltinSkills: vi.fn(),
+}));
+
+vi.mock('../src/skills-storage.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../src/skills-storage.js')>();
+  return {
+    ...actual,
+    SkillStorage: class extends actual.SkillStorage {
+      constructor() {
+        super(testDataDir);
+      }
+    },
+  };
+});
+
+vi.mock('../src/code-execution.js', () => ({
+  createLogStreamer: vi.fn(),
+  listM365Methods: vi.fn(() => []),
+  executeM365Code: vi.fn(async (code: string) => ({
+    result: JSON.parse(/const params = (.*);/.exec(code)![1]),
+    logs: [],
+  })),
+}));
+
+describe('Skills as tools', () => {
+  let client: Client;
+  let server: McpServer;
+  let listChanged: ReturnType<typeof vi.fn>;
+
+  async function toolNames(): Promise<string[]> {
+    const { tools } = await client.listTools();
+    return tools.map((tool) => tool.name);
+  }
+
+  async function callTool(name: string, args: Record<string, unknown>) {
+    const result = await client.callTool({ name, arguments: args });
+    return {
+      isError: result.isError,
+      body: JSON.parse((result.content as { text: string }[])[0].text),
+    };
+  }
+
+  async function connect(skillsAsTools: boolean): Promise<void> {
+    server = new McpServer({ name: 'test', version: '1.0.0' });
+    await registerSkillTools(server, {} as GraphClient, skillsAsTools);
+
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    listChanged = vi.fn();
+    client.setNotificationHandler(ToolListChangedNotificationSchema, listChanged);
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+  }
+
+  const echoSkill = {
+    name: 'echoParams',
+    description: 'Returns its params',
+    category: 'general',
+    code: 'return params;',
+    parameters: {
+      text: { type: 'string', description: 'Text to echo', required: true },
+      times: { type: 'number', description: 'Repetitions', required: false, default: 1 },
+    },
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await server.close();
+    await fs.rm(testDataDir, { recursive: true, force: true });
+  });
+
+  it('should only register the management tools by default', async () => {
+    await connect(false);
+    await callTool('create-m365-skill', echoSkill);
+
+    expect(await toolNames()).not.toContain('skill-echoParams');
+    expect(listChanged).not.toHaveBeenCalled();
+  });
+
+  it('should register created skills as tools with a schema from their parameters', async () => {
+    await connect(true);
+    await callTool('create-m365-skill', echoSkill);
+    await vi.waitFor(() => expect(listChanged).toHaveBeenCalled());
+
+    const { tools } = await client.listTools();
+    const tool = tools.find((t) => t.name === 'skill-echoParams')!;
+    expect(tool.description).toContain('Returns its params');
+    expect(tool.inputSchema.required).toEqual(['text']);
+    expect(Object.keys(tool.inputSchema.properties!)).toEqual(['text', 'times']);
+
+    const result = await callTool('skill-echoParams', { text: 'hi' });
+    expect(result.body.result).toEqual({ text: 'hi', times: 1 });
+  });
+
+  it('should follow skill renames and deletions', async () => {
+    await connect(true);
+    const created = await callTool('create-m365-skill', echoSkill);
+
+    await callTool('update-m365-skill', {
+      skillId: created.body.skillId,
+      updates: { name: 'echoRenamed' },
+    });
+    let names = await toolNames();
+    expect(names).toContain('skill-echoRenamed');
+    expect(names).not.toContain('skill-echoParams');
+
+    await callTool('delete-m365-skill', { skillId: created.body.skillId });
+    names = await toolNames();
+    expect(names).not.toContain('skill-echoRenamed');
+  });
+
+  it('should reject updates with invalid parameters or a name that is taken', async () => {
+    await connect(true);
+    const created = await callTool('create-m365-skill', echoSkill);
+    await callTool('create-m365-skill', { ...echoSkill, name: 'echoOther' });
+
+    await expect(
+      client.callTool({
+        name: 'update-m365-skill',
+        arguments: {
+          skillId: created.body.skillId,
+          updates: { parameters: { text: { type: 'date', required: 'yes' } } },
+        },
+      })
+    ).rejects.toThrow(/Invalid arguments for tool update-m365-skill/);
+
+    const renamed = await callTool('update-m365-skill', {
+      skillId: created.body.skillId,
+      updates: { name: 'echoOther' },
+    });
+    expect(renamed).toEqual({
+      isError: true,
+      body: { success: false, error: "Skill with name 'echoOther' already exists" },
+    });
+
+    const names = await toolNames();
+    expect(names).toContain('skill-echoParams');
+    expect(names).toContain('skill-echoOther');
+    const result = await callTool('skill-echoParams', { text: 'hi' });
+    expect(result.body.result).toEqual({ text: 'hi', times: 1 });
+  });
+
+  it('should register stored skills on startup', async () => {
+    await connect(false);
+    await callTool('create-m365-skill', echoSkill);
+    await client.close();
+    await server.close();
+
+    await connect(true);
+    expect(await toolNames()).toContain('skill-echoParams');
+  });
+
+  it('should derive valid tool names from skill names', () => {
+    expect(skillToolName({ name: 'weekly report (v2)' })).toBe('skill-weekly-report--v2-');
+  });
+});
@@ -3,7 +3,8 @@ import { randomUUID } from 'crypto';
 import fs from 'fs/promises';
 import path from 'path';
 import { SkillStorage } from '../src/skills-storage.js';
-import { loadBuiltinSkills } from '../src/builtin-skills.js';
+import { BUILTIN_SKILLS, hashBuiltinSkill, loadBuiltinSkills } from '../src/builtin-skills.js';
+import { diffLines, diffSkills } from '../src/skill-diff.js';
 import type { M365Skill, SkillFilters } from '../src/types/skill.js';
 
 // Mock logger to avoid console noise during tests
@@ -288,6 +289,29 @@ describe('Skill Persistence', () => {
         expect(deleted).toBe(false);
       });
 
+      it('should reject ids that are not skill ids', async () => {
+        const nested = new SkillStorage(path.join(testDataDir, 'nested'));
+        const outside = path.join(testDataDir, 'keep.json');
+        await fs.writeFile(outside, '{}');
+
+        await expect(nested.delete('../..')).rejects.toThrow('Invalid skill id: ../..');
+        await expect(
+          nested.save({
+            id: '../escaped',
+            name: 'escaped',
+            description: 'Escapes the skills directory',
+            category: 'general',
+            code: 'return 1;',
+          })
+        ).rejects.toThrow('Invalid skill id: ../escaped');
+        expect(await nested.get('../keep')).toBeNull();
+        expect(await nested.listVersions('../..')).toEqual([]);
+        expect(await nested.getVersion('../..', 1)).toBeNull();
+
+        await expect(fs.access(outside)).resolves.toBeUndefined();
+        await expect(fs.access(path.join(testDataDir, 'escaped.json'))).rejects.toThrow();
+      });
+
       it('should remove file from file system', async () => {
         const skill = await storage.save({
           name: 'removeFile',
@@ -328,6 +352,143 @@ describe('Skill Persistence', () => {
         // Should not throw
         await expect(storage.incrementUsage(nonExistentId)).resolves.not.toThrow();
       });
+
+      it('should not lose counts when executions run concurrently', async () => {
+        const skill = await storage.save({
+          name: 'concurrentUsage',
+          description: 'Concurrent usage',
+          category: 'general',
+          code: 'return 1;',
+        });
+
+        await Promise.all(Array.from({ length: 20 }, () => storage.incrementUsage(skill.id)));
+
+        expect((await storage.get(skill.id))?.usageCount).toBe(20);
+      });
+
+      it('should keep usage apart from the skill definition', async () => {
+        const skill = await storage.save({
+          name: 'separateUsage',
+          description: 'Separate usage',
+          category: 'general',
+          code: 'return 1;',
+        });
+        const skillFile = path.join(testDataDir, `${skill.id}.json`);
+        const before = await fs.readFile(skillFile, 'utf-8');
+
+        await storage.incrementUsage(skill.id);
+
+        expect(await fs.readFile(skillFile, 'utf-8')).toBe(before);
+        const usage = JSON.parse(
+          await fs.readFile(path.join(testDataDir, 'usage', `${skill.id}.json`), 'utf-8')
+        );
+        expect(usage.usageCount).toBe(1);
+
+        const loaded = await storage.get(skill.id);
+        expect(loaded?.updatedAt).toBe(skill.updatedAt);
+        expect(loaded?.lastUsedAt).toBe(usage.lastUsedAt);
+        expect((await storage.list())[0].usageCount).toBe(1);
+      });
+
+      it('should continue counting from legacy usage counts', async () => {
+        const legacy = {
+          id: randomUUID(),
+          name: 'legacyUsage',
+          description: 'Counted in the skill file',
+          category: 'general',
+          code: 'return 1;',
+          createdAt: '2025-01-01T00:00:00.000Z',
+          updatedAt: '2025-01-01T00:00:00.000Z',
+          usageCount: 7,
+          isPublic: false,
+        };
+        await fs.writeFile(path.join(testDataDir, `${legacy.id}.json`), JSON.stringify(legacy));
+
+        await storage.incrementUsage(legacy.id);
+
+        expect((await storage.get(legacy.id))?.usageCount).toBe(8);
+      });
+    });
+
+    describe('Execution History', () => {
+      const execution = (skillId: string, i: number) => ({
+        skillId,
+        startedAt: new Date(Date.UTC(2025, 0, 1, 0, 0, i)).toISOString(),
+        durationMs: i,
+        success: i % 2 === 0,
+        paramsHash: 'abc',
+      });
+
+      it('should record executions oldest first and drop the oldest beyond the limit', async () => {
+        const skill = await storage.save({
+          name: 'tracked',
+          description: 'Tracked',
+          category: 'general',
+          code: 'return 1;',
+        });
+
+        for (let i = 0; i < 205; i++) {
+          await storage.recordExecution(execution(skill.id, i));
+        }
+
+        const executions = await storage.listExecutions(skill.id);
+        expect(executions).toHaveLength(200);
+        expect(executions[0].durationMs).toBe(5);
+        expect(executions[199].durationMs).toBe(204);
+      });
+
+      it('should keep concurrent recordings and delete them with the skill', async () => {
+        const skill = await storage.save({
+          name: 'trackedConcurrently',
+          description: 'Tracked',
+          category: 'general',
+          code: 'return 1;',
+        });
+
+        await Promise.all(
+          Array.from({ length: 10 }, (_, i) => storage.recordExecution(execution(skill.id, i)))
+        );
+        expect(await storage.listExecutions(skill.id)).toHaveLength(10);
+
+        await storage.delete(skill.id);
+        expect(await storage.listExecutions(skill.id)).toEqual([]);
+      });
+    });
+
+    describe('Atomic Writes', () => {
+      it('should give concurrent saves distinct versions', async () => {
+        const skill = await storage.save({
+          name: 'concurrentSaves',
+          description: 'Concurrent saves',
+          category: 'general',
+          code: 'return 0;',
+        });
+
+        await Promise.all(
+          Array.from({ length: 5 }, (_, i) => storage.save({ ...skill, code: `return ${i + 1};` }))
+        );
+
+        const versions = await storage.listVersions(skill.id);
+        expect(versions.map((v) => v.version)).toEqual([1, 2, 3, 4, 5, 6]);
+        expect((await storage.get(skill.id))?.version).toBe(6);
+      });
+
+      it('should not leave temporary files behind', async () => {
+        const skill = await storage.save({
+          name: 'noTempFiles',
+          description: 'No temp files',
+          category: 'general',
+          code: 'return 1;',
+        });
+        await storage.incrementUsage(skill.id);
+
+        const files = [
+          ...(await fs.readdir(testDataDir)),
+          ...(await fs.readdir(path.join(testDataDir, 'usage'))),
+          ...(await fs.readdir(path.join(testDataDir, 'versions', skill.id))),
+        ];
+        expect(files.filter((file) => file.endsWith('.tmp'))).toEqual([]);
+      });
     });
 
     describe('Search Operations', () => {
@@ -455,6 +616,170 @@ describe('Skill Persistence', () => {
         expect(result.valid).toBe(true);
       });
     });
+
+    describe('Version History', () => {
+      it('should record a numbered revision for every save', async () => {
+        const skill = await storage.save({
+          name: 'versioned',
+          description: 'Version 1',
+          category: 'general',
+          code: 'return 1;',
+          author: 'alice',
+        });
+        expect(skill.version).toBe(1);
+
+        skill.code = 'return 2;';
+        const updated = await storage.save(skill, { author: 'bob' });
+        expect(updated.version).toBe(2);
+
+        const versions = await storage.listVersions(skill.id);
+        expect(versions.map((v) => [v.version, v.author, v.skill.code])).toEqual([
+          [1, 'alice', 'return 1;'],
+          [2, 'bob', 'return 2;'],
+        ]);
+      });
+
+      it('should not record revisions for usage updates', async () => {
+        const skill = await storage.save({
+          name: 'usageVersions',
+          description: 'Usage',
+          category: 'general',
+          code: 'return 1;',
+        });
+
+        await storage.incrementUsage(skill.id);
+
+        expect(await storage.listVersions(skill.id)).toHaveLength(1);
+        expect((await storage.get(skill.id))?.usageCount).toBe(1);
+      });
+
+      it('should keep the stored state of skills saved before versioning', async () => {
+        const legacy = {
+          id: randomUUID(),
+          name: 'legacy',
+          description: 'Saved before versioning',
+          category: 'general',
+          code: 'return "old";',
+          createdAt: '2025-01-01T00:00:00.000Z',
+          updatedAt: '2025-01-01T00:00:00.000Z',
+          usageCount: 0,
+          isPublic: false,
+        };
+        await fs.writeFile(path.join(testDataDir, `${legacy.id}.json`), JSON.stringify(legacy));
+
+        const updated = await storage.save({ ...legacy, code: 'return "new";' });
+
+        expect(updated.version).toBe(2);
+        expect((await storage.getVersion(legacy.id, 1))?.skill.code).toBe('return "old";');
+      });
+
+      it('should roll back to an earlier version as a new revision', async () => {
+        const skill = await storage.save({
+          name: 'rollbackTest',
+          description: 'Works',
+          category: 'general',
+          code: 'return "works";',
+        });
+        await storage.save({ ...skill, description: 'Broken', code: 'return "broken";' });
+        await storage.incrementUsage(skill.id);
+
+        const restored = await storage.rollback(skill.id, 1, 'carol');
+
+        expect(restored.code).toBe('return "works";');
+        expect(restored.description).toBe('Works');
+        expect(restored.version).toBe(3);
+        expect(restored.usageCount).toBe(1);
+        const latest = await storage.getVersion(skill.id, 3);
+        expect(latest?.rolledBackFrom).toBe(1);
+        expect(latest?.author).toBe('carol');
+      });
+
+      it('should reject rollbacks to unknown versions', async () => {
+        const skill = await storage.save({
+          name: 'noSuchVersion',
+          description: 'Test',
+          category: 'general',
+          code: 'return 1;',
+        });
+
+        await expect(storage.rollback(skill.id, 5)).rejects.toThrow('Version 5');
+      });
+
+      it('should delete the history with the skill', async () => {
+        const skill = await storage.save({
+          name: 'deletedHistory',
+          description: 'Test',
+          category: 'general',
+          code: 'return 1;',
+        });
+
+        await storage.delete(skill.id);
+
+        expect(await storage.listVersions(skill.id)).toEqual([]);
+      });
+
+      it('should not list version snapshots as skills', async () => {
+        const skill = await storage.save({
+          name: 'onlyOnce',
+          description: 'Test',
+          category: 'general',
+          code: 'return 1;',
+        });
+        await storage.save(skill);
+
+        expect(await storage.list()).toHaveLength(1);
+      });
+    });
+  });
+
+  describe('Skill Diffs', () => {
+    it('should report changed fields and a unified code diff', () => {
+      const base = {
+        id: '1',
+        name: 'diffed',
+        description: 'Before',
+        category: 'general',
+        code: ['const a = 1;', 'const b = 2;', 'return a + b;'].join('\n'),
+        createdAt: '',
+        updatedAt: '',
+        usageCount: 0,
+        isPublic: false,
+      } as M365Skill;
+
+      const diff = diffSkills(base, {
+        ...base,
+        description: 'After',
+        code: ['const a = 1;', 'const b = 3;', 'return a + b;'].join('\n'),
+      });
+
+      expect(diff.changes).toEqual([{ field: 'description', from: 'Before', to: 'After' }]);
+      expect(diff.codeDiff).toBe(
+        [
+          '@@ -1,3 +1,3 @@',
+          ' const a = 1;',
+          '-const b = 2;',
+          '+const b = 3;',
+          ' return a + b;',
+        ].join('\n')
+      );
+    });
+
+    it('should split distant changes into separate hunks', () => {
+      const from = Array.from({ length: 20 }, (_, i) => `line ${i}`);
+      const to = [...from];
+      to[1] = 'changed 1';
+      to[18] = 'changed 18';
+
+      const hunks = diffLines(from.join('\n'), to.join('\n'))
+        .split('\n')
+        .filter((line) => line.startsWith('@@'));
+
+      expect(hunks).toEqual(['@@ -1,5 +1,5 @@', '@@ -16,5 +16,5 @@']);
+    });
+
+    it('should return an empty diff for identical code', () => {
+      expect(diffLines('return 1;', 'return 1;')).toBe('');
+    });
   });
 
   describe('Built-in Skills', () => {
@@ -474,6 +799,43 @@ describe('Skill Persistence', () => {
       expect(firstLoad).toBeGreaterThan(0);
     });
 
+    it('should update built-in skills shipped by an older release', async () => {
+      await loadBuiltinSkills(storage);
+      const stored = await storage.getByName('getOverdueTasks');
+      const previousRelease = { ...stored!, code: 'return m365.planner.listTasks();' };
+      await storage.save({ ...previousRelease, builtinHash: hashBuiltinSkill(previousRelease) });
+      await storage.incrementUsage(stored!.id);
+      const custom = await storage.getByName('getTodaysTodoTasks');
+      await storage.save({ ...custom!, code: 'return [];', isBuiltin: false });
+
+      expect(await loadBuiltinSkills(storage)).toBe(0);
+
+      const updated = await storage.getByName('getOverdueTasks');
+      expect(updated?.code).toBe(BUILTIN_SKILLS.find((s) => s.name === 'getOverdueTasks')?.code);
+      expect(updated?.version).toBe(3);
+      expect(updated?.usageCount).toBe(1);
+      expect((await storage.getVersion(stored!.id, 2))?.skill.code).toBe(
+        'return m365.planner.listTasks();'
+      );
+      expect((await storage.getByName('getTodaysTodoTasks'))?.code).toBe('return [];');
+    });
+
+    it('should keep user edits to built-in skills', async () => {
+      await loadBuiltinSkills(storage);
+      const stored = await storage.getByName('getOverdueTasks');
+      await storage.save({ ...stored!, code: 'return [];' });
+      const described = await storage.getByName('getTodaysTodoTasks');
+      await storage.save({ ...described!, description: 'My own description' });
+
+      await loadBuiltinSkills(storage);
+
+      expect((await storage.getByName('getOverdueTasks'))?.code).toBe('return [];');
+      expect((await storage.getByName('getOverdueTasks'))?.version).toBe(2);
+      expect((await storage.getByName('getTodaysTodoTasks'))?.description).toBe(
+        'My own description'
+      );
+    });
+
     it('should mark built-in skills with isBuiltin flag', async () => {
       await loadBuiltinSkills(storage);
 
@@ -0,0 +1,222 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import fs from 'fs/promises';
+import { SqliteSkillStore } from '../src/sqlite-skill-store.js';
+import { createSkillStore, SkillStorage } from '../src/skills-storage.js';
+import { migrateSkills } from '../src/skill-store.js';
+import type { M365Skill } from '../src/types/skill.js';
+
+vi.mock('../src/logger.js', () => ({
+  default: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+function skill(name: string, overrides: Partial<M365Skill> = {}): Partial<M365Skill> {
+  return {
+    name,
+    description: `${name} description`,
+    category: 'general',
+    code: `return '${name}';`,
+    ...overrides,
+  };
+}
+
+describe('SqliteSkillStore', () => {
+  let store: SqliteSkillStore;
+
+  beforeEach(async () => {
+    store = new SqliteSkillStore(':memory:');
+    await store.init();
+  });
+
+  afterEach(() => {
+    store.close();
+  });
+
+  it('should save and look up skills by id and name', async () => {
+    const saved = await store.save(skill('mailDigest', { category: 'mail', tags: ['daily'] }));
+
+    expect(saved.id).toBeDefined();
+    expect(saved.usageCount).toBe(0);
+    expect(saved.isBuiltin).toBe(false);
+    expect(await store.get(saved.id)).toEqual(saved);
+    expect((await store.getByName('mailDigest'))?.id).toBe(saved.id);
+    expect(await store.getByName('missing')).toBeNull();
+  });
+
+  it('should filter by category, tags, visibility and builtin status', async () => {
+    await store.save(skill('a', { category: 'mail', tags: ['daily', 'inbox'], isPublic: true }));
+    await store.save(skill('b', { category: 'calendar', tags: ['daily'] }));
+    await store.save(skill('c', { category: 'mail', isBuiltin: true }));
+
+    const names = async (filters: Parameters<SqliteSkillStore['list']>[0]) =>
+      (await store.list(filters)).map((s) => s.name).sort();
+
+    expect(await names({ category: 'mail' })).toEqual(['a', 'c']);
+    expect(await names({ tags: ['daily'] })).toEqual(['a', 'b']);
+    expect(await names({ tags: ['inbox', 'missing'] })).toEqual(['a']);
+    expect(await names({ isPublic: true })).toEqual(['a']);
+    expect(await names({ isBuiltin: false })).toEqual(['a', 'b']);
+    expect(await names({ category: 'mail', isBuiltin: true })).toEqual(['c']);
+  });
+
+  it('should sort by usage and count usage without new revisions', async () => {
+    const rare = await store.save(skill('rare'));
+    const popular = await store.save(skill('popular'));
+
+    await store.incrementUsage(popular.id);
+    await store.incrementUsage(popular.id);
+    await store.incrementUsage(rare.id);
+
+    expect((await store.list()).map((s) => [s.name, s.usageCount])).toEqual([
+      ['popular', 2],
+      ['rare', 1],
+    ]);
+    expect(await store.listVersions(popular.id)).toHaveLength(1);
+    expect((await store.get(popular.id))?.lastUsedAt).toBeDefined();
+  });
+
+  it('should not reset usage when a stale copy is saved', async () => {
+    const saved = await store.save(skill('stale'));
+    await store.incrementUsage(saved.id);
+
+    await store.save({ ...saved, description: 'Edited' });
+
+    expect((await store.get(saved.id))?.usageCount).toBe(1);
+  });
+
+  it('should record executions and keep only the most recent ones', async () => {
+    const saved = await store.save(skill('tracked'));
+
+    for (let i = 0; i < 205; i++) {
+      await store.recordExecution({
+        skillId: saved.id,
+        startedAt: new Date(Date.UTC(2025, 0, 1, 0, 0, i)).toISOString(),
+        durationMs: i,
+        success: i !== 204,
+        error: i === 204 ? 'boom' : undefined,
+        paramsHash: 'abc',
+        resultSize: 10,
+      });
+    }
+
+    const executions = await store.listExecutions(saved.id);
+    expect(executions).toHaveLength(200);
+    expect(executions[0].durationMs).toBe(5);
+    expect(executions[199]).toMatchObject({ success: false, error: 'boom', resultSize: 10 });
+  });
+
+  it('should search names, descriptions and tags case-insensitively', async () => {
+    await store.save(skill('UrgentMail'));
+    await store.save(skill('other', { description: 'Find URGENT things' }));
+    await store.save(skill('tagged', { tags: ['Urgent-ish'] }));
+    await store.save(skill('unrelated'));
+
+    expect((await store.search('urgent')).map((s) => s.name).sort()).toEqual([
+      'UrgentMail',
+      'other',
+      'tagged',
+    ]);
+  });
+
+  it('should replace tags on update', async () => {
+    const saved = await store.save(skill('retagged', { tags: ['old'] }));
+    await store.save({ ...saved, tags: ['new'] });
+
+    expect(await store.list({ tags: ['old'] })).toEqual([]);
+    expect((await store.list({ tags: ['new'] })).map((s) => s.name)).toEqual(['retagged']);
+  });
+
+  it('should keep versions and roll back', async () => {
+    const saved = await store.save(skill('versioned', { author: 'alice' }));
+    await store.save({ ...saved, code: 'return "broken";' }, { author: 'bob' });
+
+    const restored = await store.rollback(saved.id, 1);
+
+    expect(restored.version).toBe(3);
+    expect(restored.code).toBe("return 'versioned';");
+    expect((await store.listVersions(saved.id)).map((v) => [v.version, v.author])).toEqual([
+      [1, 'alice'],
+      [2, 'bob'],
+      [3, 'alice'],
+    ]);
+    expect((await store.getVersion(saved.id, 3))?.rolledBackFrom).toBe(1);
+  });
+
+  it('should delete skills with their tags and history', async () => {
+    const saved = await store.save(skill('doomed', { tags: ['x'] }));
+
+    expect(await store.delete(saved.id)).toBe(true);
+    expect(await store.delete(saved.id)).toBe(false);
+    expect(await store.get(saved.id)).toBeNull();
+    expect(await store.listVersions(saved.id)).toEqual([]);
+    expect(await store.list({ tags: ['x'] })).toEqual([]);
+  });
+});
+
+describe('Skill migration', () => {
+  const jsonDir = './test-data/migrate-skills';
+  let target: SqliteSkillStore;
+
+  beforeEach(() => {
+    target = new SqliteSkillStore(':memory:');
+  });
+
+  afterEach(async () => {
+    target.close();
+    await fs.rm(jsonDir, { recursive: true, force: true });
+  });
+
+  it('should import JSON skills with their history and skip existing ones', async () => {
+    const source = new SkillStorage(jsonDir);
+    const saved = await source.save(skill('migrated', { tags: ['daily'] }));
+    await source.save({ ...saved, code: 'return 2;' });
+    await source.incrementUsage(saved.id);
+
+    expect(await migrateSkills(source, target)).toEqual({ imported: 1, skipped: 0 });
+    expect(await migrateSkills(source, target)).toEqual({ imported: 0, skipped: 1 });
+
+    const imported = await target.get(saved.id);
+    expect(imported?.code).toBe('return 2;');
+    expect(imported?.version).toBe(2);
+    expect(imported?.usageCount).toBe(1);
+    expect((await target.listVersions(saved.id)).map((v) => v.skill.code)).toEqual([
+      "return 'migrated';",
+      'return 2;',
+    ]);
+    expect((await target.list({ tags: ['daily'] })).map((s) => s.name)).toEqual(['migrated']);
+  });
+
+  it('should start the history of skills saved before versioning', async () => {
+    const legacy = {
+      id: '0f8fad5b-d9cb-469f-a165-70867728950e',
+      name: 'legacy',
+      description: 'Saved before versioning',
+      category: 'general',
+      code: 'return 1;',
+      createdAt: '2025-01-01T00:00:00.000Z',
+      updatedAt: '2025-01-01T00:00:00.000Z',
+      usageCount: 3,
+      isPublic: false,
+    };
+    await fs.mkdir(jsonDir, { recursive: true });
+    await fs.writeFile(`${jsonDir}/${legacy.id}.json`, JSON.stringify(legacy));
+
+    await migrateSkills(new SkillStorage(jsonDir), target);
+
+    expect((await target.get(legacy.id))?.version).toBe(1);
+    expect((await target.getVersion(legacy.id, 1))?.savedAt).toBe(legacy.updatedAt);
+  });
+});
+
+describe('createSkillStore', () => {
+  it('should create the configured backend', async () => {
+    expect(await createSkillStore()).toBeInstanceOf(SkillStorage);
+    const sqlite = await createSkillStore('sqlite', ':memory:');
+    expect(sqlite).toBeInstanceOf(SqliteSkillStore);
+    await expect(createSkillStore('redis' as 'file')).rejects.toThrow('Unknown skill store');
+  });
+});
@@ -0,0 +1,157 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import keytar from 'keytar';
+import AuthManager from '../src/auth.js';
+import logger from '../src/logger.js';
+import { EncryptedFileCache, TokenCacheOptions } from '../src/token-cache.js';
+
+const { tokenCache } = vi.hoisted(() => ({
+  tokenCache: { serialize: vi.fn(), deserialize: vi.fn() },
+}));
+
+vi.mock('@azure/msal-node', () => ({
+  PublicClientApplication: vi.fn(() => ({ getTokenCache: () => tokenCache })),
+  ConfidentialClientApplication: vi.fn(),
+}));
+
+vi.mock('keytar', () => ({
+  default: {
+    getPassword: vi.fn(),
+    setPassword: vi.fn(),
+    deletePassword: vi.fn(),
+  },
+}));
+
+vi.mock('../src/logger.js', () => ({
+  default: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+const testDataDir = './test-data/token-cache';
+const cacheFile = path.join(testDataDir, 'token-cache.json');
+const generatedKeyFile = path.join(testDataDir, 'config', 'token-cache.key');
+const legacyCacheFile = path.join(import.meta.dirname, '..', '.token-cache.json');
+const secret = '{"RefreshToken":{"x":{"secret":"refresh-token-value"}}}';
+
+function modeOf(file: string): number {
+  return fs.statSync(file).mode & 0o777;
+}
+
+describe('EncryptedFileCache', () => {
+  afterEach(() => {
+    fs.rmSync(testDataDir, { recursive: true, force: true });
+  });
+
+  it('should encrypt with a generated key file readable only by the owner', () => {
+    const cache = new EncryptedFileCache(cacheFile, { cacheDir: testDataDir, generatedKeyFile });
+    cache.write(secret);
+
+    expect(fs.readFileSync(cacheFile, 'utf8')).not.toContain('refresh-token-value');
+    expect(cache.read()).toBe(secret);
+    expect(fs.existsSync(path.join(testDataDir, 'token-cache.key'))).toBe(false);
+    if (process.platform !== 'win32') {
+      expect(modeOf(cacheFile)).toBe(0o600);
+      expect(modeOf(generatedKeyFile)).toBe(0o600);
+    }
+  });
+
+  it('should never keep the generated key next to the cache', () => {
+    expect(() =>
+      new EncryptedFileCache(cacheFile, { cacheDir: testDataDir }).write(secret)
+    ).toThrow('No token cache key configured');
+    expect(() =>
+      new EncryptedFileCache(cacheFile, {
+        cacheDir: testDataDir,
+        generatedKeyFile: path.join(testDataDir, 'token-cache.key'),
+      }).write(secret)
+    ).toThrow('must not be kept in the token cache directory');
+    expect(fs.existsSync(cacheFile)).toBe(false);
+  });
+
+  it('should use a configured key or passphrase and reject the wrong one', () => {
+    const key = 'ab'.repeat(32);
+    const options: TokenCacheOptions[] = [
+      { cacheDir: testDataDir, key },
+      { cacheDir: testDataDir, key: Buffer.from(key, 'hex').toString('base64') },
+      { cacheDir: testDataDir, passphrase: 'correct horse' },
+    ];
+
+    for (const option of options) {
+      new EncryptedFileCache(cacheFile, option).write(secret);
+      expect(new EncryptedFileCache(cacheFile, option).read()).toBe(secret);
+    }
+    expect(fs.existsSync(path.join(testDataDir, 'token-cache.key'))).toBe(false);
+
+    expect(() =>
+      new EncryptedFileCache(cacheFile, { cacheDir: testDataDir, passphrase: 'wrong' }).read()
+    ).toThrow('could not be decrypted');
+    expect(() =>
+      new EncryptedFileCache(cacheFile, { cacheDir: testDataDir, key: 'short' }).write(secret)
+    ).toThrow('MS365_MCP_TOKEN_CACHE_KEY must be a 32-byte key');
+  });
+});
+
+describe('AuthManager token cache fallback', () => {
+  afterEach(() => {
+    vi.clearAllMocks();
+    fs.rmSync(testDataDir, { recursive: true, force: true });
+  });
+
+  it('should store the token cache encrypted when the keychain is unavailable', async () => {
+    vi.mocked(keytar.setPassword).mockRejectedValue(new Error('No keychain'));
+    vi.mocked(keytar.getPassword).mockRejectedValue(new Error('No keychain'));
+    tokenCache.serialize.mockReturnValue(secret);
+
+    await new AuthManager(undefined, [], {
+      cacheDir: testDataDir,
+      generatedKeyFile,
+    }).saveTokenCache();
+    expect(fs.readFileSync(cacheFile, 'utf8')).not.toContain('refresh-token-value');
+
+    await new AuthManager(undefined, [], {
+      cacheDir: testDataDir,
+      generatedKeyFile,
+    }).loadTokenCache();
+    expect(tokenCache.deserialize).toHaveBeenCalledWith(secret);
+  });
+
+  it('should move a token cache it cannot decrypt aside instead of overwriting it', async () => {
+    vi.mocked(keytar.setPassword).mockRejectedValue(new Error('No keychain'));
+    vi.mocked(keytar.getPassword).mockRejectedValue(new Error('No keychain'));
+    tokenCache.serialize.mockReturnValue(secret);
+    const options = { cacheDir: testDataDir, passphrase: 'correct horse' };
+    new EncryptedFileCache(cacheFile, options).write(secret);
+
+    const authManager = new AuthManager(undefined, [], { ...options, passphrase: 'wrong' });
+    await authManager.loadTokenCache();
+    await authManager.saveTokenCache();
+
+    expect(tokenCache.deserialize).not.toHaveBeenCalled();
+    expect(logger.error).toHaveBeenCalledWith(expect.stringMatching(/could not be decrypted/));
+    const backups = fs.readdirSync(testDataDir).filter((file) => file.endsWith('.bak'));
+    expect(backups).toHaveLength(1);
+    const backup = new EncryptedFileCache(path.join(testDataDir, backups[0]), options);
+    expect(backup.read()).toBe(secret);
+  });
+
+  it.skipIf(fs.existsSync(legacyCacheFile))(
+    'should migrate the plaintext token cache of older versions',
+    async () => {
+      fs.writeFileSync(legacyCacheFile, secret);
+      vi.mocked(keytar.getPassword).mockResolvedValue(null);
+
+      await new AuthManager(undefined, [], {
+        cacheDir: testDataDir,
+        generatedKeyFile,
+      }).loadTokenCache();
+
+      expect(fs.existsSync(legacyCacheFile)).toBe(false);
+      expect(fs.readFileSync(cacheFile, 'utf8')).not.toContain('refresh-token-value');
+      expect(tokenCache.deserialize).toHaveBeenCalledWith(secret);
+    }
+  );
+});
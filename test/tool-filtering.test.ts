@@ -3,6 +3,11 @@ import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { registerGraphTools } from '../src/graph-tools.js';
 import GraphClient from '../src/graph-client.js';
 
+// Built-ins would otherwise be written to the default skill store under ./data
+vi.mock('../src/builtin-skills.js', () => ({
+  loadBuiltinSkills: vi.fn(),
+}));
+
 vi.mock('../src/logger.js', () => ({
   default: {
     info: vi.fn(),
@@ -51,8 +56,8 @@ describe('Tool Filtering', () => {
   it('should register all tools when no filter is provided', async () => {
     await registerGraphTools(server, graphClient, false);
 
-    // 5 endpoints + 10 base tools (2 category + 1 code + 7 skill) = 15 total
-    expect(toolSpy).toHaveBeenCalledTimes(15);
+    // 5 endpoints + 22 base tools (4 category + 1 code + 1 batch + 17 skill) = 28 total
+    expect(toolSpy).toHaveBeenCalledTimes(28);
     expect(toolSpy).toHaveBeenCalledWith(
       'list-mail-messages',
       expect.any(String),
@@ -93,8 +98,8 @@ describe('Tool Filtering', () => {
   it('should filter tools by regex pattern - mail only', async () => {
     await registerGraphTools(server, graphClient, false, 'mail');
 
-    // 2 mail endpoints + 10 base tools = 12 total
-    expect(toolSpy).toHaveBeenCalledTimes(12);
+    // 2 mail endpoints + 17 base tools = 19 total
+    expect(toolSpy).toHaveBeenCalledTimes(25);
     expect(toolSpy).toHaveBeenCalledWith(
       'list-mail-messages',
       expect.any(String),
@@ -114,8 +119,8 @@ describe('Tool Filtering', () => {
   it('should filter tools by regex pattern - calendar or excel', async () => {
     await registerGraphTools(server, graphClient, false, 'calendar|excel');
 
-    // 2 endpoints (calendar + excel) + 10 base tools = 12 total
-    expect(toolSpy).toHaveBeenCalledTimes(12);
+    // 2 endpoints (calendar + excel) + 17 base tools = 19 total
+    expect(toolSpy).toHaveBeenCalledTimes(25);
     expect(toolSpy).toHaveBeenCalledWith(
       'list-calendar-events',
       expect.any(String),
@@ -135,15 +140,15 @@ describe('Tool Filtering', () => {
   it('should handle invalid regex patterns gracefully', async () => {
     await registerGraphTools(server, graphClient, false, '[invalid regex');
 
-    // Falls back to all: 5 endpoints + 10 base tools = 15 total
-    expect(toolSpy).toHaveBeenCalledTimes(15);
+    // Falls back to all: 5 endpoints + 17 base tools = 22 total
+    expect(toolSpy).toHaveBeenCalledTimes(28);
   });
 
   it('should combine read-only and filtering correctly', async () => {
     await registerGraphTools(server, graphClient, true, 'mail');
 
-    // 1 mail GET endpoint + 10 base tools = 11 total
-    expect(toolSpy).toHaveBeenCalledTimes(11);
+    // 1 mail GET endpoint + 17 base tools = 18 total
+    expect(toolSpy).toHaveBeenCalledTimes(24);
     expect(toolSpy).toHaveBeenCalledWith(
       'list-mail-messages',
       expect.any(String),
@@ -156,7 +161,7 @@ describe('Tool Filtering', () => {
   it('should register no tools when pattern matches nothing', async () => {
     await registerGraphTools(server, graphClient, false, 'nonexistent');
 
-    // 0 endpoints match, but 10 base tools still registered
-    expect(toolSpy).toHaveBeenCalledTimes(10);
+    // 0 endpoints match, but 17 base tools still registered
+    expect(toolSpy).toHaveBeenCalledTimes(23);
   });
 });